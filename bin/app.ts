@@ -26,10 +26,11 @@ export class APIStage extends Stage {
       chatbotSNSArn?: string;
       stage: string;
       envVars: Record<string, string>;
+      cosignerKeys?: string;
     }
   ) {
     super(scope, id, props);
-    const { provisionedConcurrency, internalApiKey, chatbotSNSArn, stage, env, envVars } = props;
+    const { provisionedConcurrency, internalApiKey, chatbotSNSArn, stage, env, envVars, cosignerKeys } = props;
 
     const { url } = new APIStack(this, `${SERVICE_NAME}API`, {
       env,
@@ -38,6 +39,7 @@ export class APIStage extends Stage {
       chatbotSNSArn,
       stage,
       envVars,
+      cosignerKeys,
     });
     this.url = url;
   }
@@ -233,6 +235,7 @@ envVars['URA_ACCOUNT'] = process.env['URA_ACCOUNT'] || '';
 envVars['BOT_ACCOUNT'] = process.env['BOT_ACCOUNT'] || '';
 envVars['UNISWAP_API'] = process.env['UNISWAP_API'] || '';
 envVars['ORDER_SERVICE_URL'] = process.env['ORDER_SERVICE_URL'] || '';
+envVars['RANKING_CONFIG'] = process.env['RANKING_CONFIG'] || '';
 
 new APIStack(app, `${SERVICE_NAME}Stack`, {
   env: {
@@ -245,6 +248,7 @@ new APIStack(app, `${SERVICE_NAME}Stack`, {
   chatbotSNSArn: process.env.CHATBOT_SNS_ARN,
   stage: STAGE.LOCAL,
   envVars,
+  cosignerKeys: process.env.COSIGNER_KEYS,
 });
 
 new APIPipeline(app, `${SERVICE_NAME}PipelineStack`, {
@@ -4,6 +4,7 @@ import * as aws_apigateway from 'aws-cdk-lib/aws-apigateway';
 import { MethodLoggingLevel } from 'aws-cdk-lib/aws-apigateway';
 import * as aws_asg from 'aws-cdk-lib/aws-applicationautoscaling';
 import * as aws_cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as aws_dynamo from 'aws-cdk-lib/aws-dynamodb';
 import { CfnEIP, NatProvider, Vpc } from 'aws-cdk-lib/aws-ec2';
 import * as aws_iam from 'aws-cdk-lib/aws-iam';
 import * as aws_lambda from 'aws-cdk-lib/aws-lambda';
@@ -14,7 +15,9 @@ import { KmsStack } from './kms-stack'
 import { Construct } from 'constructs';
 import * as path from 'path';
 
+import { DYNAMO_TABLE_KEY, DYNAMO_TABLE_NAME } from '../../lib/constants';
 import { Metric } from '../../lib/entities';
+import { CosignerKeyType, parseCosignerKeyConfigs } from '../../lib/providers/cosigner';
 import { STAGE } from '../../lib/util/stage';
 import { SERVICE_NAME } from '../constants';
 import { AnalyticsStack } from './analytics-stack';
@@ -41,11 +44,13 @@ export class APIStack extends cdk.Stack {
       chatbotSNSArn?: string;
       stage: string;
       envVars: Record<string, string>;
+      // JSON list of cosigner keys to rotate through, the KMS stack key is used alone if unset
+      cosignerKeys?: string;
     }
   ) {
     super(parent, name, props);
     const region = cdk.Stack.of(this).region;
-    const { provisionedConcurrency, internalApiKey, stage, chatbotSNSArn } = props;
+    const { provisionedConcurrency, internalApiKey, stage, chatbotSNSArn, cosignerKeys } = props;
 
     /*
      *  API Gateway Initialization
@@ -158,6 +163,39 @@ export class APIStack extends cdk.Stack {
     // KMS initialization
     const kmsStack = new KmsStack(this, `${SERVICE_NAME}HardQuoteCosignerKey-1`)
 
+    // hard quote responses, replayed for retries of the same request
+    new aws_dynamo.Table(this, `${SERVICE_NAME}HardQuoteIdempotencyTable`, {
+      tableName: DYNAMO_TABLE_NAME.HARD_QUOTE_IDEMPOTENCY,
+      partitionKey: {
+        name: DYNAMO_TABLE_KEY.REQUEST_ID,
+        type: aws_dynamo.AttributeType.STRING,
+      },
+      timeToLiveAttribute: DYNAMO_TABLE_KEY.TTL,
+      billingMode: aws_dynamo.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // cosigned hard quote orders, looked up by GET /hard-quote/{orderHash}
+    new aws_dynamo.Table(this, `${SERVICE_NAME}HardQuoteOrdersTable`, {
+      tableName: DYNAMO_TABLE_NAME.HARD_QUOTE_ORDERS,
+      partitionKey: {
+        name: DYNAMO_TABLE_KEY.ORDER_HASH,
+        type: aws_dynamo.AttributeType.STRING,
+      },
+      timeToLiveAttribute: DYNAMO_TABLE_KEY.TTL,
+      billingMode: aws_dynamo.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // winning quotes keyed by quote id, so fills can be merged in later
+    new aws_dynamo.Table(this, `${SERVICE_NAME}QuoteAttributionTable`, {
+      tableName: DYNAMO_TABLE_NAME.QUOTE_ATTRIBUTION,
+      partitionKey: {
+        name: DYNAMO_TABLE_KEY.QUOTE_ID,
+        type: aws_dynamo.AttributeType.STRING,
+      },
+      timeToLiveAttribute: DYNAMO_TABLE_KEY.TTL,
+      billingMode: aws_dynamo.BillingMode.PAY_PER_REQUEST,
+    });
+
     /*
      * Firehose Initialization
      */
@@ -177,10 +215,17 @@ export class APIStack extends cdk.Stack {
       ],
     });
 
-    // allow lambdas to access the cosigner key
+    // allow lambdas to access the cosigner keys, failing the deploy on an invalid key list
+    const cosignerKeyArns = (cosignerKeys ? parseCosignerKeyConfigs(cosignerKeys, stage) : [])
+      .flatMap((config) => (config.type === CosignerKeyType.KMS && config.keyId ? [config.keyId] : []))
+      .map((keyId) =>
+        keyId.startsWith('arn:')
+          ? keyId
+          : cdk.Stack.of(this).formatArn({ service: 'kms', resource: 'key', resourceName: keyId })
+      );
     lambdaRole.addToPolicy(
       new aws_iam.PolicyStatement({
-        resources: [kmsStack.key.keyArn],
+        resources: [kmsStack.key.keyArn, ...cosignerKeyArns],
         actions: ['kms:GetPublicKey', 'kms:Sign'],
         effect: aws_iam.Effect.ALLOW,
       })
@@ -283,6 +328,7 @@ export class APIStack extends cdk.Stack {
         NODE_OPTIONS: '--enable-source-maps',
         REGION: region,
         KMS_KEY_ID: kmsStack.key.keyId,
+        ...(cosignerKeys && { COSIGNER_KEYS: cosignerKeys }),
         ...props.envVars,
         stage,
         ANALYTICS_STREAM_ARN: firehoseStack.analyticsStreamArn,
@@ -296,6 +342,59 @@ export class APIStack extends cdk.Stack {
       provisionedConcurrentExecutions: provisionedConcurrency > 0 ? provisionedConcurrency : undefined,
     });
 
+    const cosignerLambda = new aws_lambda_nodejs.NodejsFunction(this, 'Cosigner', {
+      role: lambdaRole,
+      runtime: aws_lambda.Runtime.NODEJS_18_X,
+      entry: path.join(__dirname, '../../lib/handlers/index.ts'),
+      handler: 'cosignerHandler',
+      memorySize: 512,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+      },
+      environment: {
+        VERSION: '2',
+        NODE_OPTIONS: '--enable-source-maps',
+        REGION: region,
+        KMS_KEY_ID: kmsStack.key.keyId,
+        ...(cosignerKeys && { COSIGNER_KEYS: cosignerKeys }),
+        ...props.envVars,
+        stage,
+      },
+      timeout: Duration.seconds(5),
+    });
+
+    const cosignerLambdaAlias = new aws_lambda.Alias(this, `CosignerLiveAlias`, {
+      aliasName: 'live',
+      version: cosignerLambda.currentVersion,
+      provisionedConcurrentExecutions: 0,
+    });
+
+    const hardQuoteStatusLambda = new aws_lambda_nodejs.NodejsFunction(this, 'HardQuoteStatus', {
+      role: lambdaRole,
+      runtime: aws_lambda.Runtime.NODEJS_18_X,
+      entry: path.join(__dirname, '../../lib/handlers/index.ts'),
+      handler: 'hardQuoteStatusHandler',
+      memorySize: 512,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+      },
+      environment: {
+        VERSION: '2',
+        NODE_OPTIONS: '--enable-source-maps',
+        ...props.envVars,
+        stage,
+      },
+      timeout: Duration.seconds(5),
+    });
+
+    const hardQuoteStatusLambdaAlias = new aws_lambda.Alias(this, `HardQuoteStatusLiveAlias`, {
+      aliasName: 'live',
+      version: hardQuoteStatusLambda.currentVersion,
+      provisionedConcurrentExecutions: 0,
+    });
+
     const switchLambda = new aws_lambda_nodejs.NodejsFunction(this, 'Switch', {
       role: lambdaRole,
       runtime: aws_lambda.Runtime.NODEJS_18_X,
@@ -412,6 +511,18 @@ export class APIStack extends cdk.Stack {
     });
     hardQuote.addMethod('POST', hardQuoteLambdaIntegration);
 
+    const hardQuoteStatusLambdaIntegration = new aws_apigateway.LambdaIntegration(hardQuoteStatusLambdaAlias, {});
+    hardQuote.addResource('{orderHash}').addMethod('GET', hardQuoteStatusLambdaIntegration);
+
+    const cosignerLambdaIntegration = new aws_apigateway.LambdaIntegration(cosignerLambdaAlias, {});
+    const cosignerResource = api.root.addResource('cosigner', {
+      defaultCorsPreflightOptions: {
+        allowOrigins: aws_apigateway.Cors.ALL_ORIGINS,
+        allowMethods: aws_apigateway.Cors.ALL_METHODS,
+      },
+    });
+    cosignerResource.addMethod('GET', cosignerLambdaIntegration);
+
     const switchLambdaIntegration = new aws_apigateway.LambdaIntegration(switchLambdaAlias, {});
     const switchResource = api.root.addResource('synthetic-switch', {
       defaultCorsPreflightOptions: {
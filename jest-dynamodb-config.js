@@ -10,6 +10,24 @@ module.exports = {
       ],
       ProvisionedThroughput: { ReadCapacityUnits: 10, WriteCapacityUnits: 10 },
     },
+    {
+      TableName: `HardQuoteIdempotency`,
+      KeySchema: [{ AttributeName: 'requestId', KeyType: 'HASH' }],
+      AttributeDefinitions: [{ AttributeName: 'requestId', AttributeType: 'S' }],
+      ProvisionedThroughput: { ReadCapacityUnits: 10, WriteCapacityUnits: 10 },
+    },
+    {
+      TableName: `HardQuoteOrders`,
+      KeySchema: [{ AttributeName: 'orderHash', KeyType: 'HASH' }],
+      AttributeDefinitions: [{ AttributeName: 'orderHash', AttributeType: 'S' }],
+      ProvisionedThroughput: { ReadCapacityUnits: 10, WriteCapacityUnits: 10 },
+    },
+    {
+      TableName: `QuoteAttribution`,
+      KeySchema: [{ AttributeName: 'quoteId', KeyType: 'HASH' }],
+      AttributeDefinitions: [{ AttributeName: 'quoteId', AttributeType: 'S' }],
+      ProvisionedThroughput: { ReadCapacityUnits: 10, WriteCapacityUnits: 10 },
+    },
   ],
   port: 8000,
 };
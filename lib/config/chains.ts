@@ -1,3 +1,154 @@
-import { ChainId } from '../util/chains';
+import { ethers } from 'ethers';
 
-export const SUPPORTED_CHAINS: ChainId[] = [ChainId.MAINNET, ChainId.GÖRLI, ChainId.POLYGON];
+import { ChainId, ChainName } from '../util/chains';
+
+export enum ChainRoute {
+  QUOTE = 'quote',
+  HARD_QUOTE = 'hard-quote',
+}
+
+export interface ChainConfiguration {
+  name: ChainName;
+  // seconds between cosigning and the start of the decay
+  decayStartDelaySecs: number;
+  decayDurationSecs: number;
+  // non-exclusive fillers must override price by this much
+  exclusivityOverrideBps: number;
+  // V2 dutch reactor, if deployed on this chain. Hard quote orders must use it when set
+  reactor?: string;
+  // expected cosigner address, if it differs from the default signer
+  cosigner?: string;
+  routes: ChainRoute[];
+}
+
+export type ChainRegistry = { [chainId in ChainId]?: ChainConfiguration };
+
+export const DEFAULT_EXCLUSIVITY_OVERRIDE_BPS = 100;
+
+export const CHAIN_REGISTRY: ChainRegistry = {
+  [ChainId.MAINNET]: {
+    name: ChainName.MAINNET,
+    decayStartDelaySecs: 24, // 2 blocks
+    decayDurationSecs: 60, // 5 blocks
+    exclusivityOverrideBps: DEFAULT_EXCLUSIVITY_OVERRIDE_BPS,
+    reactor: '0x00000011F84B9aa48e5f8aA8B9897600006289Be',
+    routes: [ChainRoute.QUOTE, ChainRoute.HARD_QUOTE],
+  },
+  [ChainId.GÖRLI]: {
+    name: ChainName.GÖRLI,
+    decayStartDelaySecs: 10,
+    decayDurationSecs: 30,
+    exclusivityOverrideBps: DEFAULT_EXCLUSIVITY_OVERRIDE_BPS,
+    routes: [ChainRoute.QUOTE, ChainRoute.HARD_QUOTE],
+  },
+  [ChainId.POLYGON]: {
+    name: ChainName.POLYGON,
+    decayStartDelaySecs: 10,
+    decayDurationSecs: 30,
+    exclusivityOverrideBps: DEFAULT_EXCLUSIVITY_OVERRIDE_BPS,
+    routes: [ChainRoute.QUOTE, ChainRoute.HARD_QUOTE],
+  },
+  [ChainId.ARBITRUM_ONE]: {
+    name: ChainName.ARBITRUM_ONE,
+    decayStartDelaySecs: 10,
+    decayDurationSecs: 30,
+    exclusivityOverrideBps: DEFAULT_EXCLUSIVITY_OVERRIDE_BPS,
+    reactor: '0x1bd1aAdc9E230626C44a139d7E70d842749351eb',
+    routes: [ChainRoute.QUOTE, ChainRoute.HARD_QUOTE],
+  },
+  [ChainId.BASE]: {
+    name: ChainName.BASE,
+    decayStartDelaySecs: 10,
+    decayDurationSecs: 30,
+    exclusivityOverrideBps: DEFAULT_EXCLUSIVITY_OVERRIDE_BPS,
+    routes: [ChainRoute.QUOTE],
+  },
+  [ChainId.OPTIMISM]: {
+    name: ChainName.OPTIMISM,
+    decayStartDelaySecs: 10,
+    decayDurationSecs: 30,
+    exclusivityOverrideBps: DEFAULT_EXCLUSIVITY_OVERRIDE_BPS,
+    routes: [ChainRoute.QUOTE],
+  },
+  [ChainId.UNICHAIN]: {
+    name: ChainName.UNICHAIN,
+    decayStartDelaySecs: 10,
+    decayDurationSecs: 30,
+    exclusivityOverrideBps: DEFAULT_EXCLUSIVITY_OVERRIDE_BPS,
+    routes: [ChainRoute.QUOTE],
+  },
+  [ChainId.SEPOLIA]: {
+    name: ChainName.SEPOLIA,
+    decayStartDelaySecs: 24, // 2 blocks
+    decayDurationSecs: 60, // 5 blocks
+    exclusivityOverrideBps: DEFAULT_EXCLUSIVITY_OVERRIDE_BPS,
+    routes: [ChainRoute.QUOTE],
+  },
+};
+
+export const SUPPORTED_CHAINS: ChainId[] = Object.keys(CHAIN_REGISTRY).map(Number);
+
+export function chainsWithRoute(route: ChainRoute, registry: ChainRegistry = CHAIN_REGISTRY): ChainId[] {
+  return Object.entries(registry)
+    .filter(([, config]) => config.routes.includes(route))
+    .map(([chainId]) => Number(chainId));
+}
+
+export function getChainConfiguration(chainId: number, registry: ChainRegistry = CHAIN_REGISTRY): ChainConfiguration {
+  const config = registry[chainId as ChainId];
+  if (!config) {
+    throw new Error(`Unknown chain id: ${chainId}`);
+  }
+  return config;
+}
+
+export const ID_TO_NETWORK_NAME = (id: number): ChainName => getChainConfiguration(id).name;
+
+// throws with every problem found, so a bad entry fails the deploy instead of a request
+export function validateChainRegistry(registry: ChainRegistry = CHAIN_REGISTRY): void {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  for (const [chainId, config] of Object.entries(registry)) {
+    const prefix = `chain ${chainId}`;
+    if (!Object.values(ChainId).includes(Number(chainId))) {
+      errors.push(`${prefix}: not a known chain id`);
+    }
+    if (names.has(config.name)) {
+      errors.push(`${prefix}: duplicate name ${config.name}`);
+    }
+    names.add(config.name);
+
+    if (!Number.isInteger(config.decayStartDelaySecs) || config.decayStartDelaySecs < 0) {
+      errors.push(`${prefix}: decayStartDelaySecs must be a non-negative integer`);
+    }
+    if (!Number.isInteger(config.decayDurationSecs) || config.decayDurationSecs <= 0) {
+      errors.push(`${prefix}: decayDurationSecs must be a positive integer`);
+    }
+    if (
+      !Number.isInteger(config.exclusivityOverrideBps) ||
+      config.exclusivityOverrideBps < 0 ||
+      config.exclusivityOverrideBps > 10_000
+    ) {
+      errors.push(`${prefix}: exclusivityOverrideBps must be an integer between 0 and 10000`);
+    }
+    for (const field of ['reactor', 'cosigner'] as const) {
+      const address = config[field];
+      if (address !== undefined && !ethers.utils.isAddress(address)) {
+        errors.push(`${prefix}: invalid ${field} address ${address}`);
+      }
+    }
+    if (config.routes.length === 0) {
+      errors.push(`${prefix}: no routes enabled`);
+    }
+    for (const route of config.routes) {
+      if (!Object.values(ChainRoute).includes(route)) {
+        errors.push(`${prefix}: unknown route ${route}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid chain registry: ${errors.join('; ')}`);
+  }
+}
@@ -0,0 +1,58 @@
+import Joi from 'joi';
+
+import { RankerType, RiskAdjustedRankerOptions } from '../rankers';
+
+export type RankerConfig =
+  | { strategy: RankerType.PRICE_ONLY }
+  | ({ strategy: RankerType.RISK_ADJUSTED } & RiskAdjustedRankerOptions);
+
+export interface RankingConfig {
+  default: RankerConfig;
+  // overrides keyed by chainId
+  chains?: { [chainId: number]: RankerConfig };
+  // overrides keyed by `${chainId}:${tokenIn}:${tokenOut}` with lowercased addresses
+  // take precedence over chain overrides
+  pairs?: { [pair: string]: RankerConfig };
+}
+
+export const DEFAULT_RANKING_CONFIG: RankingConfig = {
+  default: { strategy: RankerType.PRICE_ONLY },
+};
+
+const RankerConfigJoi = Joi.alternatives().try(
+  Joi.object({
+    strategy: Joi.string().valid(RankerType.PRICE_ONLY).required(),
+  }),
+  Joi.object({
+    strategy: Joi.string().valid(RankerType.RISK_ADJUSTED).required(),
+    fadeRatePenaltyBps: Joi.number().min(0).required(),
+    latencyPenaltyBpsPerSecond: Joi.number().min(0),
+    gasPenaltyBps: Joi.object().pattern(Joi.string(), Joi.number().min(0)),
+    maxPenaltyBps: Joi.number().min(0),
+  })
+);
+
+const RankingConfigJoi = Joi.object({
+  default: RankerConfigJoi.required(),
+  chains: Joi.object().pattern(/^\d+$/, RankerConfigJoi),
+  pairs: Joi.object().pattern(/^\d+:0x[0-9a-fA-F]{40}:0x[0-9a-fA-F]{40}$/, RankerConfigJoi),
+});
+
+export function parseRankingConfig(json: string): RankingConfig {
+  const { error, value } = RankingConfigJoi.validate(JSON.parse(json));
+  if (error) {
+    throw new Error(`Invalid ranking config: ${error.message}`);
+  }
+  const config = value as RankingConfig;
+  return {
+    ...config,
+    ...(config.pairs && {
+      pairs: Object.fromEntries(Object.entries(config.pairs).map(([pair, ranker]) => [pair.toLowerCase(), ranker])),
+    }),
+  };
+}
+
+// RANKING_CONFIG is a JSON RankingConfig, quotes are ranked on price alone if it is unset
+export function getRankingConfig(env: NodeJS.ProcessEnv = process.env): RankingConfig {
+  return env.RANKING_CONFIG ? parseRankingConfig(env.RANKING_CONFIG) : DEFAULT_RANKING_CONFIG;
+}
@@ -2,16 +2,26 @@ export const COMPLIANCE_CONFIG_BUCKET = 'compliance-config';
 export const WEBHOOK_CONFIG_BUCKET = 'rfq-config';
 export const SYNTH_SWITCH_BUCKET = 'synth-config';
 export const FADE_RATE_BUCKET = 'fade-rate-config';
+export const SCREENING_CONFIG_BUCKET = 'screening-config';
+export const PARAMETER_CONFIG_BUCKET = 'parameter-config';
+export const TOKEN_CONFIG_BUCKET = 'token-config';
 export const INTEGRATION_S3_KEY = 'integration.json';
 export const PRODUCTION_S3_KEY = 'production.json';
 export const BETA_S3_KEY = 'beta.json';
 export const FADE_RATE_S3_KEY = 'fade-rate.json';
 export const PROD_COMPLIANCE_S3_KEY = 'production.json';
 export const BETA_COMPLIANCE_S3_KEY = 'beta.json';
+export const SCREENING_S3_KEY = 'blocklist.json';
+export const PARAMETER_S3_KEY = 'parameter-rules.json';
+export const REFERENCE_PRICES_S3_KEY = 'reference-prices.json';
+export const TOKEN_LIST_S3_KEY = 'token-list.json';
 
 export const DYNAMO_TABLE_NAME = {
   FADES: 'Fades',
   SYNTHETIC_SWITCH_TABLE: 'SyntheticSwitchTable',
+  HARD_QUOTE_IDEMPOTENCY: 'HardQuoteIdempotency',
+  HARD_QUOTE_ORDERS: 'HardQuoteOrders',
+  QUOTE_ATTRIBUTION: 'QuoteAttribution',
 };
 
 export const DYNAMO_TABLE_KEY = {
@@ -23,4 +33,23 @@ export const DYNAMO_TABLE_KEY = {
   TRADE_TYPE: 'type',
   LOWER: 'lower',
   ENABLED: 'enabled',
+  REQUEST_ID: 'requestId',
+  ORDER_HASH: 'orderHash',
+  QUOTE_ID: 'quoteId',
+  TTL: 'ttl',
 };
+
+// how long a hard quote response is replayed for retries of the same request
+export const HARD_QUOTE_IDEMPOTENCY_TTL_SECS = 60 * 60;
+
+// how long a request id stays reserved while it is being quoted, longer than the hard quote lambda timeout
+export const HARD_QUOTE_IDEMPOTENCY_PENDING_TTL_SECS = 60;
+
+// how long posted hard quote orders can be looked up by hash
+export const HARD_QUOTE_ORDER_TTL_SECS = 30 * 24 * 60 * 60;
+
+// how long quotes are kept for fills to be attributed to them
+export const QUOTE_ATTRIBUTION_TTL_SECS = 30 * 24 * 60 * 60;
+
+// how long /quote waits for its attribution write before responding without it
+export const QUOTE_ATTRIBUTION_WRITE_TIMEOUT_MS = 100;
@@ -3,7 +3,9 @@ import { UnsignedV2DutchOrder } from '@uniswap/uniswapx-sdk';
 import { BigNumber, ethers, utils } from 'ethers';
 
 import { HardQuoteRequestBody } from '../handlers/hard-quote';
-import { QuoteRequest, QuoteRequestDataJSON } from '.';
+import { TokenPairMetadata } from '../providers/tokens';
+import { UnsupportedOrderTypeError } from '../util/errors';
+import { DEFAULT_HARD_QUOTE_ORDER_TYPE, OrderType, QuoteRequest, QuoteRequestDataJSON } from '.';
 
 export class HardQuoteRequest {
   public order: UnsignedV2DutchOrder;
@@ -13,7 +15,13 @@ export class HardQuoteRequest {
   }
 
   constructor(private data: HardQuoteRequestBody) {
-    this.order = UnsignedV2DutchOrder.parse(data.encodedInnerOrder, data.tokenInChainId);
+    switch (this.orderType) {
+      case OrderType.Dutch_V2:
+        this.order = UnsignedV2DutchOrder.parse(data.encodedInnerOrder, data.tokenInChainId);
+        break;
+      default:
+        throw new UnsupportedOrderTypeError(this.orderType);
+    }
   }
 
   public toCleanJSON(): QuoteRequestDataJSON {
@@ -47,12 +55,13 @@ export class HardQuoteRequest {
   }
 
   // transforms into a quote request that can be used to query quoters
-  public toQuoteRequest(): QuoteRequest {
+  public toQuoteRequest(tokens?: TokenPairMetadata): QuoteRequest {
     return new QuoteRequest({
       ...this.toCleanJSON(),
       swapper: this.swapper,
       amount: this.amount,
       type: this.type,
+      tokens,
     });
   }
 
@@ -60,18 +69,27 @@ export class HardQuoteRequest {
     return this.data.requestId;
   }
 
+  public get orderType(): string {
+    return this.data.orderType ?? DEFAULT_HARD_QUOTE_ORDER_TYPE;
+  }
+
   public get tokenInChainId(): number {
     return this.data.tokenInChainId;
   }
 
   public get tokenOutChainId(): number {
-    return this.data.tokenInChainId;
+    return this.data.tokenOutChainId;
   }
 
   public get swapper(): string {
     return this.order.info.swapper;
   }
 
+  // every address the order pays out to
+  public get recipients(): string[] {
+    return [...new Set(this.order.info.baseOutputs.map((output) => utils.getAddress(output.recipient)))];
+  }
+
   public get tokenIn(): string {
     return utils.getAddress(this.order.info.baseInput.token);
   }
@@ -80,10 +98,13 @@ export class HardQuoteRequest {
     return utils.getAddress(this.order.info.baseOutputs[0].token);
   }
 
+  // only outputs paying tokenOut, amounts in other tokens are not comparable
   public get totalOutputAmountStart(): BigNumber {
     let amount = BigNumber.from(0);
     for (const output of this.order.info.baseOutputs) {
-      amount = amount.add(output.startAmount);
+      if (utils.getAddress(output.token) === this.tokenOut) {
+        amount = amount.add(output.startAmount);
+      }
     }
 
     return amount;
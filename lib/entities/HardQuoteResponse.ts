@@ -3,7 +3,10 @@ import { BigNumber } from 'ethers';
 import { v4 as uuidv4 } from 'uuid';
 
 import { HardQuoteResponseData } from '../handlers/hard-quote/schema';
+import { CosignerParameters } from '../providers/parameters';
+import { TokenPairMetadata } from '../providers/tokens';
 import { currentTimestampInMs, timestampInMstoSeconds } from '../util/time';
+import { getNotionalUsd, tokenLogFields } from '../util/tokens';
 import { HardQuoteRequest } from '.';
 
 // data class for hard quote response helpers and conversions
@@ -13,6 +16,7 @@ export class HardQuoteResponse {
   constructor(
     public request: HardQuoteRequest,
     public order: CosignedV2DutchOrder,
+    public parameters?: CosignerParameters,
     public createdAtMs = currentTimestampInMs()
   ) {
     this.createdAt = timestampInMstoSeconds(parseInt(this.createdAtMs));
@@ -23,27 +27,45 @@ export class HardQuoteResponse {
       requestId: this.request.requestId,
       quoteId: this.request.quoteId,
       chainId: this.request.tokenInChainId,
+      orderType: this.request.orderType,
       filler: this.order.info.cosignerData.exclusiveFiller,
       encodedOrder: this.order.serialize(),
       orderHash: this.order.hash(),
+      parameters: {
+        exclusivityOverrideBps: this.order.info.cosignerData.exclusivityOverrideBps.toString(),
+        decayStartTime: this.order.info.cosignerData.decayStartTime,
+        decayEndTime: this.order.info.cosignerData.decayEndTime,
+        ...(this.parameters && { outputImprovement: this.parameters.outputImprovement }),
+        ...(this.parameters?.ruleId && { ruleId: this.parameters.ruleId }),
+      },
     };
   }
 
-  public toLog() {
+  // pass the request's token metadata to log symbols, decimals and the USD notional
+  public toLog(tokens?: TokenPairMetadata) {
     return {
       quoteId: this.quoteId,
       requestId: this.requestId,
       tokenInChainId: this.chainId,
-      tokenOutChainId: this.chainId,
+      tokenOutChainId: this.request.tokenOutChainId,
       tokenIn: this.tokenIn,
       amountIn: this.amountIn.toString(),
       tokenOut: this.tokenOut,
       amountOut: this.amountOut.toString(),
       swapper: this.swapper,
       filler: this.filler,
+      orderType: this.request.orderType,
       orderHash: this.order.hash(),
+      exclusivityOverrideBps: this.order.info.cosignerData.exclusivityOverrideBps.toString(),
+      decayStartTime: this.order.info.cosignerData.decayStartTime,
+      decayEndTime: this.order.info.cosignerData.decayEndTime,
+      outputImprovement: this.parameters?.outputImprovement,
+      parameterRuleId: this.parameters?.ruleId,
+      fillerFadeRate: this.parameters?.fillerFadeRate,
       createdAt: this.createdAt,
       createdAtMs: this.createdAtMs,
+      ...tokenLogFields(tokens),
+      notionalUsd: getNotionalUsd(this.amountIn, this.amountOut, tokens),
     };
   }
 
@@ -0,0 +1,12 @@
+// mirrors the uniswapx-sdk OrderType values for cosigned orders
+export enum OrderType {
+  Dutch_V2 = 'Dutch_V2',
+  Dutch_V3 = 'Dutch_V3',
+  Priority = 'Priority',
+}
+
+// order types the hard quote endpoint can parse and cosign
+// V3 dutch and priority orders need a newer uniswapx-sdk
+export const SUPPORTED_HARD_QUOTE_ORDER_TYPES: OrderType[] = [OrderType.Dutch_V2];
+
+export const DEFAULT_HARD_QUOTE_ORDER_TYPE = OrderType.Dutch_V2;
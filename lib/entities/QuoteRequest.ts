@@ -3,6 +3,8 @@ import { BigNumber, ethers } from 'ethers';
 import { getAddress } from 'ethers/lib/utils';
 
 import { PostQuoteRequestBody } from '../handlers/quote/schema';
+import { TokenPairMetadata } from '../providers/tokens';
+import { toUsd } from '../util/tokens';
 
 export interface QuoteRequestData {
   tokenInChainId: number;
@@ -15,16 +17,18 @@ export interface QuoteRequestData {
   type: TradeType;
   numOutputs: number;
   quoteId?: string;
+  // token list metadata, never sent to fillers
+  tokens?: TokenPairMetadata;
 }
 
-export interface QuoteRequestDataJSON extends Omit<QuoteRequestData, 'amount' | 'type'> {
+export interface QuoteRequestDataJSON extends Omit<QuoteRequestData, 'amount' | 'type' | 'tokens'> {
   amount: string;
   type: string;
 }
 
 // data class for QuoteRequest helpers and conversions
 export class QuoteRequest {
-  public static fromRequestBody(body: PostQuoteRequestBody): QuoteRequest {
+  public static fromRequestBody(body: PostQuoteRequestBody, tokens?: TokenPairMetadata): QuoteRequest {
     return new QuoteRequest({
       tokenInChainId: body.tokenInChainId,
       tokenOutChainId: body.tokenOutChainId,
@@ -35,6 +39,7 @@ export class QuoteRequest {
       amount: BigNumber.from(body.amount),
       type: TradeType[body.type as keyof typeof TradeType],
       numOutputs: body.numOutputs,
+      tokens,
     });
   }
 
@@ -96,6 +101,7 @@ export class QuoteRequest {
       ...opposingJSON,
       amount: BigNumber.from(opposingJSON.amount),
       type: TradeType[opposingJSON.type as keyof typeof TradeType],
+      tokens: this.tokens && { tokenIn: this.tokens.tokenOut, tokenOut: this.tokens.tokenIn },
     });
   }
 
@@ -108,7 +114,7 @@ export class QuoteRequest {
   }
 
   public get tokenOutChainId(): number {
-    return this.data.tokenInChainId;
+    return this.data.tokenOutChainId;
   }
 
   public get swapper(): string {
@@ -142,4 +148,13 @@ export class QuoteRequest {
   public set quoteId(quoteId: string | undefined) {
     this.data.quoteId = quoteId;
   }
+
+  public get tokens(): TokenPairMetadata | undefined {
+    return this.data.tokens;
+  }
+
+  // the USD value of the specified amount, undefined if its token is not priced
+  public get notionalUsd(): number | undefined {
+    return toUsd(this.amount, this.type === TradeType.EXACT_INPUT ? this.tokens?.tokenIn : this.tokens?.tokenOut);
+  }
 }
@@ -2,19 +2,28 @@ import { TradeType } from '@uniswap/sdk-core';
 import { BigNumber } from 'ethers';
 import { v4 as uuidv4 } from 'uuid';
 
-import { PostQuoteResponse, RfqResponse, RfqResponseJoi } from '../handlers/quote/schema';
+import { PostQuoteResponse, RankedQuoteResponse, RfqResponse, RfqResponseJoi } from '../handlers/quote/schema';
+import { TokenPairMetadata } from '../providers/tokens';
 import { currentTimestampInMs, timestampInMstoSeconds } from '../util/time';
+import { getNotionalUsd, tokenLogFields } from '../util/tokens';
 import { QuoteRequestData } from '.';
 
 export interface QuoteResponseData
-  extends Omit<QuoteRequestData, 'tokenInChainId' | 'tokenOutChainId' | 'amount' | 'type' | 'numOutputs'> {
+  extends Omit<QuoteRequestData, 'tokenInChainId' | 'tokenOutChainId' | 'amount' | 'type' | 'numOutputs' | 'tokens'> {
   chainId: number;
+  // only differs from chainId for cross-chain quotes
+  tokenOutChainId?: number;
   amountOut: BigNumber;
   amountIn: BigNumber;
   filler?: string;
   quoteId: string;
+  // set by the quoter, never taken from the filler response
+  fillerHash?: string;
+  latencyMs?: number;
 }
 
+export type QuoteResponseMetadata = Pick<QuoteResponseData, 'fillerHash' | 'latencyMs'>;
+
 type ValidationError = {
   message: string | undefined;
   value: { [key: string]: any };
@@ -33,6 +42,7 @@ export class QuoteResponse implements QuoteResponseData {
     return new QuoteResponse(
       {
         chainId: request.tokenInChainId, // TODO: update schema
+        tokenOutChainId: request.tokenOutChainId,
         requestId: request.requestId,
         swapper: request.swapper,
         tokenIn: request.tokenIn,
@@ -46,7 +56,12 @@ export class QuoteResponse implements QuoteResponseData {
     );
   }
 
-  public static fromRFQ(request: QuoteRequestData, data: RfqResponse, type: TradeType): ValidatedResponse {
+  public static fromRFQ(
+    request: QuoteRequestData,
+    data: RfqResponse,
+    type: TradeType,
+    metadata?: QuoteResponseMetadata
+  ): ValidatedResponse {
     let validationError: ValidationError | undefined;
 
     const responseValidation = RfqResponseJoi.validate(data, {
@@ -83,9 +98,12 @@ export class QuoteResponse implements QuoteResponseData {
         {
           ...data,
           quoteId: data.quoteId ?? uuidv4(),
+          tokenOutChainId: request.tokenOutChainId,
           swapper: request.swapper,
           amountIn,
           amountOut,
+          fillerHash: metadata?.fillerHash,
+          latencyMs: metadata?.latencyMs,
         },
         type
       ),
@@ -108,15 +126,27 @@ export class QuoteResponse implements QuoteResponseData {
       amountOut: this.amountOut.toString(),
       swapper: this.swapper,
       filler: this.filler,
+      ...(this.isCrossChain && { tokenOutChainId: this.tokenOutChainId }),
+    };
+  }
+
+  public toRankedResponseJSON(): RankedQuoteResponse {
+    return {
+      quoteId: this.quoteId,
+      filler: this.filler,
+      amountIn: this.amountIn.toString(),
+      amountOut: this.amountOut.toString(),
+      latencyMs: this.latencyMs,
     };
   }
 
-  public toLog() {
+  // pass the request's token metadata to log symbols, decimals and the USD notional
+  public toLog(tokens?: TokenPairMetadata) {
     return {
       quoteId: this.quoteId,
       requestId: this.requestId,
-      tokenInChainId: this.chainId,
-      tokenOutChainId: this.chainId,
+      tokenInChainId: this.tokenInChainId,
+      tokenOutChainId: this.tokenOutChainId,
       tokenIn: this.tokenIn,
       amountIn: this.amountIn.toString(),
       tokenOut: this.tokenOut,
@@ -125,6 +155,8 @@ export class QuoteResponse implements QuoteResponseData {
       filler: this.filler,
       createdAt: this.createdAt,
       createdAtMs: this.createdAtMs,
+      ...tokenLogFields(tokens),
+      notionalUsd: getNotionalUsd(this.amountIn, this.amountOut, tokens),
     };
   }
 
@@ -140,6 +172,18 @@ export class QuoteResponse implements QuoteResponseData {
     return this.data.chainId;
   }
 
+  public get tokenInChainId(): number {
+    return this.data.chainId;
+  }
+
+  public get tokenOutChainId(): number {
+    return this.data.tokenOutChainId ?? this.data.chainId;
+  }
+
+  public get isCrossChain(): boolean {
+    return this.tokenInChainId !== this.tokenOutChainId;
+  }
+
   public get swapper(): string {
     return this.data.swapper;
   }
@@ -163,4 +207,12 @@ export class QuoteResponse implements QuoteResponseData {
   public get filler(): string | undefined {
     return this.data.filler;
   }
+
+  public get fillerHash(): string | undefined {
+    return this.data.fillerHash;
+  }
+
+  public get latencyMs(): number | undefined {
+    return this.data.latencyMs;
+  }
 }
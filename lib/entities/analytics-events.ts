@@ -4,6 +4,7 @@ import { timestampInMstoISOString } from '../util/time';
 
 export enum AnalyticsEventType {
   WEBHOOK_RESPONSE = 'WebhookQuoterResponse',
+  OPPOSING_WEBHOOK_RESPONSE = 'WebhookQuoterOpposingResponse',
 }
 
 export enum WebhookResponseType {
@@ -11,6 +12,11 @@ export enum WebhookResponseType {
   NON_QUOTE = 'NON_QUOTE',
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   REQUEST_ID_MISMATCH = 'REQUEST_ID_MISMATCH',
+  SIGNATURE_INVALID = 'SIGNATURE_INVALID',
+  // the quote was too far from the reference price
+  PRICE_OUTLIER = 'PRICE_OUTLIER',
+  // no request was sent, the swapper is excluded for this filler
+  COMPLIANCE_EXCLUDED = 'COMPLIANCE_EXCLUDED',
   TIMEOUT = 'TIMEOUT',
   HTTP_ERROR = 'HTTP_ERROR',
   OTHER_ERROR = 'OTHER_ERROR',
@@ -32,13 +32,17 @@ export class AWSMetricsLogger implements IMetric {
 export enum Metric {
   QUOTE_200 = 'QUOTE_200',
   QUOTE_400 = 'QUOTE_400',
+  QUOTE_403 = 'QUOTE_403',
   QUOTE_404 = 'QUOTE_404',
   QUOTE_500 = 'QUOTE_500',
 
   HARD_QUOTE_200 = 'HARD_QUOTE_200',
   HARD_QUOTE_400 = 'HARD_QUOTE_400',
+  HARD_QUOTE_403 = 'HARD_QUOTE_403',
   HARD_QUOTE_404 = 'HARD_QUOTE_404',
+  HARD_QUOTE_409 = 'HARD_QUOTE_409',
   HARD_QUOTE_500 = 'HARD_QUOTE_500',
+  HARD_QUOTE_502 = 'HARD_QUOTE_502',
 
   QUOTE_REQUESTED = 'QUOTE_REQUESTED',
   QUOTE_LATENCY = 'QUOTE_LATENCY',
@@ -47,6 +51,10 @@ export enum Metric {
   HARD_QUOTE_REQUESTED = 'HARD_QUOTE_REQUESTED',
   HARD_QUOTE_LATENCY = 'HARD_QUOTE_LATENCY',
   HARD_QUOTE_RESPONSE_COUNT = 'HARD_QUOTE_RESPONSE_COUNT',
+  HARD_QUOTE_REPLAYED = 'HARD_QUOTE_REPLAYED',
+  HARD_QUOTE_ORDER_REJECTED = 'HARD_QUOTE_ORDER_REJECTED',
+  HARD_QUOTE_ORDER_SERVICE_ERROR = 'HARD_QUOTE_ORDER_SERVICE_ERROR',
+  HARD_QUOTE_ORDER_POST_ATTEMPTS = 'HARD_QUOTE_ORDER_POST_ATTEMPTS',
 
   RFQ_REQUESTED = 'RFQ_REQUESTED',
   RFQ_SUCCESS = 'RFQ_SUCCESS',
@@ -54,12 +62,26 @@ export enum Metric {
   RFQ_FAIL_REQUEST_MATCH = 'RFQ_FAIL_REQUEST_MATCH',
   RFQ_NON_QUOTE = 'RFQ_NON_QUOTE',
   RFQ_FAIL_VALIDATION = 'RFQ_FAIL_VALIDATION',
+  RFQ_FAIL_SIGNATURE = 'RFQ_FAIL_SIGNATURE',
+  RFQ_PRICE_OUTLIER = 'RFQ_PRICE_OUTLIER',
   RFQ_FAIL_ERROR = 'RFQ_FAIL_ERROR',
   RFQ_COUNT_0 = 'RFQ_COUNT_0',
   RFQ_COUNT_1 = 'RFQ_COUNT_1',
   RFQ_COUNT_2 = 'RFQ_COUNT_2',
   RFQ_COUNT_3 = 'RFQ_COUNT_3',
   RFQ_COUNT_4_PLUS = 'RFQ_COUNT_4_PLUS',
+  RFQ_LATE_QUOTE = 'RFQ_LATE_QUOTE',
+  RFQ_WS_RECONNECT = 'RFQ_WS_RECONNECT',
+  RFQ_OPPOSING_REQUESTED = 'RFQ_OPPOSING_REQUESTED',
+  RFQ_SPREAD_BPS = 'RFQ_SPREAD_BPS',
+  RFQ_TIMEOUT_BACKOFF = 'RFQ_TIMEOUT_BACKOFF',
+  RFQ_CIRCUIT_OPENED = 'RFQ_CIRCUIT_OPENED',
+  RFQ_CIRCUIT_HALF_OPENED = 'RFQ_CIRCUIT_HALF_OPENED',
+  RFQ_CIRCUIT_CLOSED = 'RFQ_CIRCUIT_CLOSED',
+  RFQ_CIRCUIT_REJECTED = 'RFQ_CIRCUIT_REJECTED',
+  RFQ_COMPLIANCE_EXCLUDED = 'RFQ_COMPLIANCE_EXCLUDED',
+
+  AUCTION_DEADLINE_REACHED = 'AUCTION_DEADLINE_REACHED',
 
   // Metrics for synth switch cron
   DYNAMO_REQUEST = 'DYNAMO_REQUEST',
@@ -83,8 +105,19 @@ type MetricNeedingContext =
   | Metric.RFQ_RESPONSE_TIME
   | Metric.RFQ_FAIL_REQUEST_MATCH
   | Metric.RFQ_FAIL_VALIDATION
+  | Metric.RFQ_FAIL_SIGNATURE
+  | Metric.RFQ_PRICE_OUTLIER
   | Metric.RFQ_NON_QUOTE
   | Metric.RFQ_FAIL_ERROR
+  | Metric.RFQ_WS_RECONNECT
+  | Metric.RFQ_OPPOSING_REQUESTED
+  | Metric.RFQ_SPREAD_BPS
+  | Metric.RFQ_TIMEOUT_BACKOFF
+  | Metric.RFQ_CIRCUIT_OPENED
+  | Metric.RFQ_CIRCUIT_HALF_OPENED
+  | Metric.RFQ_CIRCUIT_CLOSED
+  | Metric.RFQ_CIRCUIT_REJECTED
+  | Metric.RFQ_COMPLIANCE_EXCLUDED
   | Metric.DYNAMO_REQUEST
   | Metric.DYNAMO_REQUEST_ERROR
   | Metric.SYTH_PAIR_ENABLED
@@ -2,5 +2,6 @@ export * from './analytics-events';
 export * from './aws-metrics-logger';
 export * from './HardQuoteRequest';
 export * from './HardQuoteResponse';
+export * from './OrderType';
 export * from './QuoteRequest';
 export * from './QuoteResponse';
@@ -161,6 +161,7 @@ export abstract class APIGLambdaHandler<
 
           let statusCode: number;
           let body: Res;
+          let headers: Response<Res>['headers'];
 
           try {
             const handleRequestResult = await this.handleRequest({
@@ -184,7 +185,7 @@ export abstract class APIGLambdaHandler<
               };
             } else {
               log.info({ requestBody, requestQueryParams }, 'Handler returned 200');
-              ({ body, statusCode } = handleRequestResult);
+              ({ body, statusCode, headers } = handleRequestResult);
             }
           } catch (err) {
             log.error({ err }, 'Unexpected error in handler');
@@ -214,6 +215,7 @@ export abstract class APIGLambdaHandler<
           return {
             statusCode,
             body: JSON.stringify(response),
+            headers,
           };
         }
     );
@@ -0,0 +1,87 @@
+import { ethers } from 'ethers';
+import Joi from 'joi';
+
+import { ChainRegistry, ChainRoute, chainsWithRoute, CHAIN_REGISTRY, getChainConfiguration } from '../../config/chains';
+import { SUPPORTED_HARD_QUOTE_ORDER_TYPES } from '../../entities';
+import { defaultCosignerParameters } from '../../providers/parameters';
+import { APIGLambdaHandler } from '../base';
+import { APIHandleRequestParams, ErrorResponse, Response } from '../base/api-handler';
+import { ContainerInjected, RequestInjected } from './injector';
+import { ChainCosigners, CosignerResponse, CosignerResponseJoi } from './schema';
+
+// integrators may cache the response, which only changes on deploys and key rotations
+export const COSIGNER_CACHE_MAX_AGE_SECS = 300;
+
+// lists the cosigner keys currently signing hard quotes, and what each chain applies when cosigning
+// during a rotation both the outgoing and the incoming key are listed
+export class CosignerHandler extends APIGLambdaHandler<
+  ContainerInjected,
+  RequestInjected,
+  void,
+  void,
+  CosignerResponse
+> {
+  public async handleRequest(
+    params: APIHandleRequestParams<ContainerInjected, RequestInjected, void, void>
+  ): Promise<ErrorResponse | Response<CosignerResponse>> {
+    const {
+      containerInjected: { cosignerRegistry },
+    } = params;
+
+    const activeCosigners = cosignerRegistry.getActiveCosigners();
+    const activeAddresses = [...new Set(activeCosigners.map((c) => c.address))];
+
+    return {
+      statusCode: 200,
+      body: {
+        cosigners: activeCosigners.map(({ address, activeFrom, activeUntil }) => ({
+          address,
+          activeFrom,
+          activeUntil,
+        })),
+        orderTypes: SUPPORTED_HARD_QUOTE_ORDER_TYPES,
+        chains: chainsWithRoute(ChainRoute.HARD_QUOTE).map((chainId) => getChainCosigners(chainId, activeAddresses)),
+      },
+      headers: {
+        'Cache-Control': `public, max-age=${COSIGNER_CACHE_MAX_AGE_SECS}`,
+      },
+    };
+  }
+
+  protected requestBodySchema(): Joi.ObjectSchema | null {
+    return null;
+  }
+
+  protected requestQueryParamsSchema(): Joi.ObjectSchema | null {
+    return null;
+  }
+
+  protected responseBodySchema(): Joi.ObjectSchema | null {
+    return CosignerResponseJoi;
+  }
+}
+
+export function getChainCosigners(
+  chainId: number,
+  activeAddresses: string[],
+  registry: ChainRegistry = CHAIN_REGISTRY
+): ChainCosigners {
+  const config = getChainConfiguration(chainId, registry);
+  const { decayStartDelaySecs, decayDurationSecs, exclusivityOverrideBps, outputImprovement } =
+    defaultCosignerParameters(chainId);
+  const chainCosigner = config.cosigner && ethers.utils.getAddress(config.cosigner);
+  return {
+    chainId,
+    // a chain which expects its own cosigner only lists that one, while it is active
+    cosigners: chainCosigner
+      ? activeAddresses.filter((address) => ethers.utils.getAddress(address) === chainCosigner)
+      : activeAddresses,
+    reactor: config.reactor,
+    defaults: {
+      decayStartDelaySecs,
+      decayDurationSecs,
+      exclusivityOverrideBps,
+      outputImprovement,
+    },
+  };
+}
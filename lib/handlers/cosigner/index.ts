@@ -0,0 +1,3 @@
+export { CosignerHandler, getChainCosigners } from './handler';
+export { ContainerInjected, CosignerInjector, RequestInjected } from './injector';
+export * from './schema';
@@ -0,0 +1,60 @@
+import { IMetric, setGlobalLogger, setGlobalMetric } from '@uniswap/smart-order-router';
+import { MetricsLogger } from 'aws-embedded-metrics';
+import { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { default as bunyan, default as Logger } from 'bunyan';
+
+import { AWSMetricsLogger, UniswapXParamServiceMetricDimension } from '../../entities/aws-metrics-logger';
+import { CosignerRegistry } from '../../providers/cosigner';
+import { ApiInjector, ApiRInj } from '../base/api-handler';
+import { getCosignerRegistry } from '../hard-quote/injector';
+
+export interface ContainerInjected {
+  cosignerRegistry: CosignerRegistry;
+}
+
+export interface RequestInjected extends ApiRInj {
+  metric: IMetric;
+}
+
+export class CosignerInjector extends ApiInjector<ContainerInjected, RequestInjected, void, void> {
+  public async buildContainerInjected(): Promise<ContainerInjected> {
+    const log: Logger = bunyan.createLogger({
+      name: this.injectorName,
+      serializers: bunyan.stdSerializers,
+      level: bunyan.INFO,
+    });
+
+    return {
+      cosignerRegistry: await getCosignerRegistry(log),
+    };
+  }
+
+  public async getRequestInjected(
+    _containerInjected: ContainerInjected,
+    _requestBody: void,
+    _requestQueryParams: void,
+    _event: APIGatewayProxyEvent,
+    context: Context,
+    log: Logger,
+    metricsLogger: MetricsLogger
+  ): Promise<RequestInjected> {
+    const requestId = context.awsRequestId;
+
+    log = log.child({
+      serializers: bunyan.stdSerializers,
+      requestId,
+    });
+    setGlobalLogger(log);
+
+    metricsLogger.setNamespace('Uniswap');
+    metricsLogger.setDimensions(UniswapXParamServiceMetricDimension);
+    const metric = new AWSMetricsLogger(metricsLogger);
+    setGlobalMetric(metric);
+
+    return {
+      log,
+      metric,
+      requestId,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import Joi from 'joi';
+
+import { FieldValidator } from '../../util/validator';
+import { OrderTypeJoi } from '../hard-quote/schema';
+
+export const CosignerResponseJoi = Joi.object({
+  cosigners: Joi.array()
+    .items(
+      Joi.object({
+        address: FieldValidator.address.required(),
+        activeFrom: Joi.number(),
+        activeUntil: Joi.number(),
+      })
+    )
+    .required(),
+  orderTypes: Joi.array().items(OrderTypeJoi).required(),
+  chains: Joi.array()
+    .items(
+      Joi.object({
+        chainId: FieldValidator.hardQuoteChainId.required(),
+        cosigners: Joi.array().items(FieldValidator.address).required(),
+        reactor: FieldValidator.address,
+        defaults: Joi.object({
+          decayStartDelaySecs: Joi.number().required(),
+          decayDurationSecs: Joi.number().required(),
+          exclusivityOverrideBps: Joi.number().required(),
+          outputImprovement: Joi.string().required(),
+        }).required(),
+      })
+    )
+    .required(),
+});
+
+export type ActiveCosigner = {
+  address: string;
+  // epoch seconds of the key's active window, if bounded
+  activeFrom?: number;
+  activeUntil?: number;
+};
+
+// the parameters applied to hard quotes on the chain when no parameter rule matches
+export type CosignerDefaults = {
+  decayStartDelaySecs: number;
+  decayDurationSecs: number;
+  exclusivityOverrideBps: number;
+  outputImprovement: string;
+};
+
+export type ChainCosigners = {
+  chainId: number;
+  cosigners: string[];
+  // unset on chains without a registered reactor
+  reactor?: string;
+  defaults: CosignerDefaults;
+};
+
+export type CosignerResponse = {
+  cosigners: ActiveCosigner[];
+  orderTypes: string[];
+  chains: ChainCosigners[];
+};
@@ -0,0 +1,84 @@
+import Joi from 'joi';
+
+import { ErrorCode } from '../../util/errors';
+import { APIGLambdaHandler } from '../base';
+import { APIHandleRequestParams, ErrorResponse, Response } from '../base/api-handler';
+import { ContainerInjected, RequestInjected } from './injector';
+import { HardQuoteStatusPathParamsJoi, HardQuoteStatusResponse, HardQuoteStatusResponseJoi } from './schema';
+
+// what we cosigned and posted for a hard quote order, and what the order service says happened to it
+export class HardQuoteStatusHandler extends APIGLambdaHandler<
+  ContainerInjected,
+  RequestInjected,
+  void,
+  void,
+  HardQuoteStatusResponse
+> {
+  public async handleRequest(
+    params: APIHandleRequestParams<ContainerInjected, RequestInjected, void, void>
+  ): Promise<ErrorResponse | Response<HardQuoteStatusResponse>> {
+    const {
+      requestInjected: { log, orderHash },
+      containerInjected: { hardQuoteOrderRepository, orderServiceProvider },
+    } = params;
+
+    const { error } = HardQuoteStatusPathParamsJoi.validate({ orderHash });
+    if (error) {
+      return {
+        statusCode: 400,
+        errorCode: ErrorCode.ValidationError,
+        detail: error.message,
+      };
+    }
+
+    const normalizedHash = orderHash.toLowerCase();
+    let record;
+    try {
+      record = await hardQuoteOrderRepository.getOrder(normalizedHash);
+    } catch (e) {
+      log.error({ err: e, orderHash }, 'error querying hard quote orders dynamo table');
+      return {
+        statusCode: 500,
+        errorCode: ErrorCode.InternalError,
+        detail: 'DynamoDB Error',
+      };
+    }
+    if (!record) {
+      return {
+        statusCode: 404,
+        errorCode: ErrorCode.OrderNotFound,
+        detail: 'Order not found',
+      };
+    }
+
+    const { status, txHash } = await orderServiceProvider.getOrderStatus(normalizedHash);
+    return {
+      statusCode: 200,
+      body: {
+        orderHash: record.orderHash,
+        chainId: record.chainId,
+        requestId: record.requestId,
+        quoteId: record.quoteId,
+        orderType: record.orderType,
+        filler: record.quote.filler,
+        cosignerData: record.cosignerData,
+        quote: record.quote,
+        orderStatus: status,
+        txHash,
+        createdAt: record.createdAt,
+      },
+    };
+  }
+
+  protected requestBodySchema(): Joi.ObjectSchema | null {
+    return null;
+  }
+
+  protected requestQueryParamsSchema(): Joi.ObjectSchema | null {
+    return null;
+  }
+
+  protected responseBodySchema(): Joi.ObjectSchema | null {
+    return HardQuoteStatusResponseJoi;
+  }
+}
@@ -0,0 +1,3 @@
+export { HardQuoteStatusHandler } from './handler';
+export { ContainerInjected, HardQuoteStatusInjector, RequestInjected } from './injector';
+export * from './schema';
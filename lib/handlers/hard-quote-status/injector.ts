@@ -0,0 +1,80 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { IMetric, setGlobalLogger, setGlobalMetric } from '@uniswap/smart-order-router';
+import { MetricsLogger } from 'aws-embedded-metrics';
+import { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { default as bunyan, default as Logger } from 'bunyan';
+
+import { AWSMetricsLogger, UniswapXParamServiceMetricDimension } from '../../entities/aws-metrics-logger';
+import { checkDefined } from '../../preconditions/preconditions';
+import { OrderServiceProvider, UniswapXServiceProvider } from '../../providers';
+import { BaseHardQuoteOrderRepository } from '../../repositories/base';
+import { HardQuoteOrderRepository } from '../../repositories/hard-quote-order-repository';
+import { ApiInjector, ApiRInj } from '../base/api-handler';
+
+export interface ContainerInjected {
+  hardQuoteOrderRepository: BaseHardQuoteOrderRepository;
+  orderServiceProvider: OrderServiceProvider;
+}
+
+export interface RequestInjected extends ApiRInj {
+  metric: IMetric;
+  orderHash: string;
+}
+
+export class HardQuoteStatusInjector extends ApiInjector<ContainerInjected, RequestInjected, void, void> {
+  public async buildContainerInjected(): Promise<ContainerInjected> {
+    const log: Logger = bunyan.createLogger({
+      name: this.injectorName,
+      serializers: bunyan.stdSerializers,
+      level: bunyan.INFO,
+    });
+
+    const orderServiceUrl = checkDefined(process.env.ORDER_SERVICE_URL, 'ORDER_SERVICE_URL is not defined');
+    const documentClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: {
+        convertEmptyValues: true,
+      },
+      unmarshallOptions: {
+        wrapNumbers: true,
+      },
+    });
+
+    return {
+      hardQuoteOrderRepository: HardQuoteOrderRepository.create(documentClient),
+      orderServiceProvider: new UniswapXServiceProvider(log, orderServiceUrl),
+    };
+  }
+
+  public async getRequestInjected(
+    _containerInjected: ContainerInjected,
+    _requestBody: void,
+    _requestQueryParams: void,
+    event: APIGatewayProxyEvent,
+    context: Context,
+    log: Logger,
+    metricsLogger: MetricsLogger
+  ): Promise<RequestInjected> {
+    const requestId = context.awsRequestId;
+    const orderHash = event.pathParameters?.orderHash ?? '';
+
+    log = log.child({
+      serializers: bunyan.stdSerializers,
+      requestId,
+      orderHash,
+    });
+    setGlobalLogger(log);
+
+    metricsLogger.setNamespace('Uniswap');
+    metricsLogger.setDimensions(UniswapXParamServiceMetricDimension);
+    const metric = new AWSMetricsLogger(metricsLogger);
+    setGlobalMetric(metric);
+
+    return {
+      log,
+      metric,
+      requestId,
+      orderHash,
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import Joi from 'joi';
+
+import { OrderStatus } from '../../providers/order';
+import { FieldValidator } from '../../util/validator';
+import { OrderTypeJoi } from '../hard-quote/schema';
+
+export const HardQuoteStatusPathParamsJoi = Joi.object({
+  orderHash: FieldValidator.orderHash.required(),
+});
+
+export type HardQuoteStatusPathParams = {
+  orderHash: string;
+};
+
+export const HardQuoteCosignerDataJoi = Joi.object({
+  decayStartTime: Joi.number().required(),
+  decayEndTime: Joi.number().required(),
+  exclusiveFiller: FieldValidator.address.required(),
+  exclusivityOverrideBps: Joi.string().required(),
+  inputAmount: FieldValidator.amount.required(),
+  outputAmounts: Joi.array().items(FieldValidator.amount).required(),
+});
+
+// the cosigner data applied to the order, with amounts as strings
+export type HardQuoteCosignerData = {
+  decayStartTime: number;
+  decayEndTime: number;
+  exclusiveFiller: string;
+  exclusivityOverrideBps: string;
+  inputAmount: string;
+  outputAmounts: string[];
+};
+
+export const HardQuoteStatusResponseJoi = Joi.object({
+  orderHash: FieldValidator.orderHash.required(),
+  chainId: FieldValidator.hardQuoteChainId.required(),
+  requestId: FieldValidator.uuid.required(),
+  quoteId: FieldValidator.uuid,
+  orderType: OrderTypeJoi.required(),
+  filler: FieldValidator.address,
+  cosignerData: HardQuoteCosignerDataJoi.required(),
+  quote: Joi.object({
+    quoteId: FieldValidator.uuid,
+    amountIn: FieldValidator.amount.required(),
+    amountOut: FieldValidator.amount.required(),
+    filler: FieldValidator.address,
+  }).required(),
+  orderStatus: Joi.string()
+    .valid(...Object.values(OrderStatus))
+    .required(),
+  txHash: Joi.string(),
+  createdAt: Joi.number().required(),
+});
+
+export type HardQuoteStatusQuote = {
+  quoteId?: string;
+  amountIn: string;
+  amountOut: string;
+  filler?: string;
+};
+
+export type HardQuoteStatusResponse = {
+  orderHash: string;
+  chainId: number;
+  requestId: string;
+  quoteId?: string;
+  orderType: string;
+  // the filler of the winning quote
+  filler?: string;
+  cosignerData: HardQuoteCosignerData;
+  quote: HardQuoteStatusQuote;
+  orderStatus: OrderStatus;
+  txHash?: string;
+  createdAt: number;
+};
@@ -1,15 +1,48 @@
 import { TradeType } from '@uniswap/sdk-core';
-import { MetricLoggerUnit } from '@uniswap/smart-order-router';
+import { IMetric, MetricLoggerUnit } from '@uniswap/smart-order-router';
 import { CosignedV2DutchOrder, CosignerData } from '@uniswap/uniswapx-sdk';
+import Logger from 'bunyan';
 import { BigNumber, ethers } from 'ethers';
 import Joi from 'joi';
 
-import { HardQuoteRequest, HardQuoteResponse, Metric, QuoteResponse } from '../../entities';
-import { NoQuotesAvailable, OrderPostError, UnknownOrderCosignerError } from '../../util/errors';
+import {
+  HARD_QUOTE_IDEMPOTENCY_PENDING_TTL_SECS,
+  HARD_QUOTE_IDEMPOTENCY_TTL_SECS,
+  HARD_QUOTE_ORDER_TTL_SECS,
+} from '../../constants';
+import { HardQuoteRequest, HardQuoteResponse, Metric, OrderType, QuoteResponse } from '../../entities';
+import { OrderPostStatus } from '../../providers';
+import { Cosigner } from '../../providers/cosigner';
+import { CosignerParameters, defaultCosignerParameters, OutputImprovementPolicy } from '../../providers/parameters';
+import {
+  BaseHardQuoteOrderRepository,
+  BaseIdempotencyRepository,
+  HardQuoteOrderRecord,
+  IdempotencyRecord,
+  QuoteAttributionSource,
+} from '../../repositories';
+import {
+  IdempotencyConflictError,
+  NoQuotesAvailable,
+  OrderPostError,
+  OrderServiceUnavailableError,
+  OrderValidationError,
+  RequestInProgressError,
+  SwapperBlockedError,
+  UnknownOrderCosignerError,
+  UnsupportedOrderTypeError,
+} from '../../util/errors';
 import { timestampInMstoSeconds } from '../../util/time';
+import { tokenLogFields } from '../../util/tokens';
 import { APIGLambdaHandler } from '../base';
 import { APIHandleRequestParams, ErrorResponse, Response } from '../base/api-handler';
-import { getBestQuote } from '../quote/handler';
+import {
+  getBestQuote,
+  getTokenPairMetadata,
+  putQuoteAttribution,
+  screenAddresses,
+  toQuoteAttribution,
+} from '../quote/handler';
 import { ContainerInjected, RequestInjected } from './injector';
 import {
   HardQuoteRequestBody,
@@ -18,8 +51,6 @@ import {
   HardQuoteResponseDataJoi,
 } from './schema';
 
-const DEFAULT_EXCLUSIVITY_OVERRIDE_BPS = 100; // non-exclusive fillers must override price by this much
-
 export class QuoteHandler extends APIGLambdaHandler<
   ContainerInjected,
   RequestInjected,
@@ -32,7 +63,20 @@ export class QuoteHandler extends APIGLambdaHandler<
   ): Promise<ErrorResponse | Response<HardQuoteResponseData>> {
     const {
       requestInjected: { log, metric },
-      containerInjected: { quoters, orderServiceProvider, cosigner, cosignerAddress },
+      containerInjected: {
+        quoters,
+        orderServiceProvider,
+        cosignerRegistry,
+        auctionOptions,
+        rankerSelector,
+        screeningProvider,
+        parameterPolicy,
+        orderValidator,
+        idempotencyRepository,
+        hardQuoteOrderRepository,
+        quoteAttributionRepository,
+        tokenMetadataProvider,
+      },
       requestBody,
     } = params;
     const start = Date.now();
@@ -41,54 +85,155 @@ export class QuoteHandler extends APIGLambdaHandler<
 
     const request = HardQuoteRequest.fromHardRequestBody(requestBody);
 
-    // we dont have access to the cosigner key, throw
-    if (request.order.info.cosigner !== cosignerAddress) {
-      log.error({ cosigner: request.order.info.cosigner }, 'Unknown cosigner');
+    // we dont have access to the cosigner key, or it is not active, throw
+    const cosigner = cosignerRegistry.getSigner(request.order.info.cosigner);
+    if (!cosigner) {
+      log.error(
+        { cosigner: request.order.info.cosigner, activeCosigners: cosignerRegistry.getActiveAddresses() },
+        'Unknown cosigner'
+      );
       throw new UnknownOrderCosignerError();
     }
 
+    const tokens = await getTokenPairMetadata(tokenMetadataProvider, request);
     // TODO: finalize on v2 metrics logging
     log.info({
       eventType: 'HardQuoteRequest',
       body: {
         requestId: request.requestId,
         tokenInChainId: request.tokenInChainId,
-        tokenOutChainId: request.tokenInChainId,
+        tokenOutChainId: request.tokenOutChainId,
         encoded: requestBody.encodedInnerOrder,
         sig: requestBody.innerSig,
         createdAt: timestampInMstoSeconds(start),
         createdAtMs: start.toString(),
+        ...tokenLogFields(tokens),
       },
     });
 
-    const bestQuote = await getBestQuote(quoters, request.toQuoteRequest(), log, metric);
-    if (!bestQuote) {
-      metric.putMetric(Metric.HARD_QUOTE_404, 1, MetricLoggerUnit.Count);
-      throw new NoQuotesAvailable();
+    // reserve the request id before quoting, so concurrent retries cannot both cosign
+    const orderHash = request.order.hash();
+    const previous = await reserveRequestId(
+      idempotencyRepository,
+      {
+        requestId: request.requestId,
+        orderHash,
+        ttl: Math.floor(Date.now() / 1000) + HARD_QUOTE_IDEMPOTENCY_PENDING_TTL_SECS,
+      },
+      log
+    );
+    if (previous) {
+      if (previous.orderHash !== orderHash) {
+        log.info(
+          { requestId: request.requestId, orderHash, previousOrderHash: previous.orderHash },
+          'Conflicting retry'
+        );
+        metric.putMetric(Metric.HARD_QUOTE_409, 1, MetricLoggerUnit.Count);
+        throw new IdempotencyConflictError();
+      }
+      if (!previous.response) {
+        log.info({ requestId: request.requestId, orderHash }, 'Retry of a request still being quoted');
+        metric.putMetric(Metric.HARD_QUOTE_409, 1, MetricLoggerUnit.Count);
+        throw new RequestInProgressError();
+      }
+      log.info({ requestId: request.requestId, orderHash }, 'Replaying hard quote response');
+      metric.putMetric(Metric.HARD_QUOTE_REPLAYED, 1, MetricLoggerUnit.Count);
+      return {
+        statusCode: 200,
+        body: previous.response,
+      };
     }
 
-    log.info({ bestQuote: bestQuote }, 'bestQuote');
+    try {
+      await validateOrder(() => orderValidator.validate(request), metric);
 
-    // TODO: use server key to cosign instead of local wallet
-    const cosignerData = getCosignerData(request, bestQuote);
-    const cosignature = await cosigner.signDigest(request.order.cosignatureHash(cosignerData));
-    const cosignedOrder = CosignedV2DutchOrder.fromUnsignedOrder(request.order, cosignerData, cosignature);
+      const screened = [...new Set([request.swapper, ...request.recipients])];
+      if (!(await screenAddresses(screeningProvider, request.requestId, screened, log))) {
+        metric.putMetric(Metric.HARD_QUOTE_403, 1, MetricLoggerUnit.Count);
+        throw new SwapperBlockedError();
+      }
 
-    try {
-      await orderServiceProvider.postOrder(cosignedOrder, request.innerSig, request.quoteId);
-    } catch (e) {
-      metric.putMetric(Metric.HARD_QUOTE_400, 1, MetricLoggerUnit.Count);
-      throw new OrderPostError();
-    }
+      const quoteRequest = request.toQuoteRequest(tokens);
+      const bestQuote = await getBestQuote(
+        quoters,
+        quoteRequest,
+        log,
+        metric,
+        auctionOptions,
+        rankerSelector.select(quoteRequest)
+      );
+      if (!bestQuote) {
+        metric.putMetric(Metric.HARD_QUOTE_404, 1, MetricLoggerUnit.Count);
+        throw new NoQuotesAvailable();
+      }
+
+      log.info({ bestQuote: bestQuote }, 'bestQuote');
+
+      // TODO: use server key to cosign instead of local wallet
+      const parameters = await parameterPolicy.select(quoteRequest, bestQuote);
+      const cosignedOrder = await cosignOrder(request, bestQuote, parameters, cosigner);
+      await validateOrder(
+        async () => orderValidator.validateDeadline(request, cosignedOrder.info.cosignerData.decayEndTime),
+        metric
+      );
 
-    metric.putMetric(Metric.HARD_QUOTE_200, 1, MetricLoggerUnit.Count);
-    metric.putMetric(Metric.HARD_QUOTE_LATENCY, Date.now() - start, MetricLoggerUnit.Milliseconds);
-    const response = new HardQuoteResponse(request, cosignedOrder);
+      const postResult = await orderServiceProvider.postOrder(cosignedOrder, request.innerSig, request.quoteId);
+      metric.putMetric(Metric.HARD_QUOTE_ORDER_POST_ATTEMPTS, postResult.attempts, MetricLoggerUnit.Count);
+      switch (postResult.status) {
+        case OrderPostStatus.POSTED:
+          break;
+        case OrderPostStatus.REJECTED:
+          log.error({ postResult }, 'Order rejected by order service');
+          metric.putMetric(Metric.HARD_QUOTE_ORDER_REJECTED, 1, MetricLoggerUnit.Count);
+          metric.putMetric(Metric.HARD_QUOTE_400, 1, MetricLoggerUnit.Count);
+          throw new OrderPostError(postResult.errorCode, postResult.detail);
+        default:
+          log.error({ postResult }, 'Order service failed');
+          metric.putMetric(Metric.HARD_QUOTE_ORDER_SERVICE_ERROR, 1, MetricLoggerUnit.Count);
+          metric.putMetric(Metric.HARD_QUOTE_502, 1, MetricLoggerUnit.Count);
+          throw new OrderServiceUnavailableError();
+      }
+
+      metric.putMetric(Metric.HARD_QUOTE_200, 1, MetricLoggerUnit.Count);
+      metric.putMetric(Metric.HARD_QUOTE_LATENCY, Date.now() - start, MetricLoggerUnit.Milliseconds);
+      const response = new HardQuoteResponse(request, cosignedOrder, parameters);
+      log.info({
+        eventType: 'HardQuoteResponse',
+        body: response.toLog(tokens),
+      });
 
-    return {
-      statusCode: 200,
-      body: response.toResponseJSON(),
-    };
+      const body = response.toResponseJSON();
+      await completeIdempotencyRecord(
+        idempotencyRepository,
+        {
+          requestId: request.requestId,
+          orderHash,
+          response: body,
+          ttl: Math.floor(Date.now() / 1000) + HARD_QUOTE_IDEMPOTENCY_TTL_SECS,
+        },
+        log
+      );
+      const orderRecord = toHardQuoteOrderRecord(body, cosignedOrder, bestQuote);
+      await putHardQuoteOrder(hardQuoteOrderRepository, orderRecord, log);
+      await putQuoteAttribution(
+        quoteAttributionRepository,
+        {
+          ...toQuoteAttribution(bestQuote, QuoteAttributionSource.HARD_QUOTE, orderRecord.createdAt),
+          orderHash: orderRecord.orderHash,
+          cosignerData: orderRecord.cosignerData,
+        },
+        log
+      );
+
+      return {
+        statusCode: 200,
+        body,
+      };
+    } catch (e) {
+      // lets the client retry a request which failed before it was answered
+      await releaseRequestId(idempotencyRepository, request.requestId, orderHash, log);
+      throw e;
+    }
   }
 
   protected requestBodySchema(): Joi.ObjectSchema | null {
@@ -104,19 +249,143 @@ export class QuoteHandler extends APIGLambdaHandler<
   }
 }
 
-export function getCosignerData(request: HardQuoteRequest, quote: QuoteResponse): CosignerData {
-  const decayStartTime = getDecayStartTime(request.tokenInChainId);
+async function validateOrder(validate: () => Promise<void>, metric: IMetric): Promise<void> {
+  try {
+    await validate();
+  } catch (e) {
+    if (e instanceof OrderValidationError) {
+      metric.putMetric(Metric.HARD_QUOTE_400, 1, MetricLoggerUnit.Count);
+    }
+    throw e;
+  }
+}
+
+// idempotency is best effort, so a store outage does not fail the request
+// returns the existing record if the request id is already taken
+async function reserveRequestId(
+  repository: BaseIdempotencyRepository,
+  pending: IdempotencyRecord,
+  log: Logger
+): Promise<IdempotencyRecord | undefined> {
+  try {
+    if (await repository.putRecord(pending)) {
+      return undefined;
+    }
+    return await repository.getRecord(pending.requestId);
+  } catch (e) {
+    log.error({ error: e, requestId: pending.requestId }, 'Error reserving idempotency record');
+    return undefined;
+  }
+}
+
+async function releaseRequestId(
+  repository: BaseIdempotencyRepository,
+  requestId: string,
+  orderHash: string,
+  log: Logger
+): Promise<void> {
+  try {
+    await repository.releaseRecord(requestId, orderHash);
+  } catch (e) {
+    log.error({ error: e, requestId }, 'Error releasing idempotency record');
+  }
+}
+
+async function completeIdempotencyRecord(
+  repository: BaseIdempotencyRepository,
+  record: IdempotencyRecord,
+  log: Logger
+): Promise<void> {
+  try {
+    if (!(await repository.completeRecord(record))) {
+      // the reservation expired and was taken by another order
+      log.warn(
+        { requestId: record.requestId, orderHash: record.orderHash },
+        'Idempotency record held by another order'
+      );
+    }
+  } catch (e) {
+    log.error({ error: e, requestId: record.requestId }, 'Error writing idempotency record');
+  }
+}
+
+async function putHardQuoteOrder(
+  repository: BaseHardQuoteOrderRepository,
+  record: HardQuoteOrderRecord,
+  log: Logger
+): Promise<void> {
+  try {
+    await repository.putOrder(record);
+  } catch (e) {
+    log.error({ error: e, orderHash: record.orderHash }, 'Error writing hard quote order');
+  }
+}
+
+export function toHardQuoteOrderRecord(
+  response: HardQuoteResponseData,
+  order: CosignedV2DutchOrder,
+  quote: QuoteResponse,
+  now = Math.floor(Date.now() / 1000)
+): HardQuoteOrderRecord {
+  const { cosignerData } = order.info;
+  return {
+    orderHash: response.orderHash,
+    chainId: response.chainId,
+    requestId: response.requestId,
+    quoteId: response.quoteId,
+    orderType: response.orderType,
+    cosignerData: {
+      decayStartTime: cosignerData.decayStartTime,
+      decayEndTime: cosignerData.decayEndTime,
+      exclusiveFiller: cosignerData.exclusiveFiller,
+      exclusivityOverrideBps: cosignerData.exclusivityOverrideBps.toString(),
+      inputAmount: cosignerData.inputAmount.toString(),
+      outputAmounts: cosignerData.outputAmounts.map((amount) => amount.toString()),
+    },
+    quote: {
+      quoteId: quote.quoteId,
+      amountIn: quote.amountIn.toString(),
+      amountOut: quote.amountOut.toString(),
+      filler: quote.filler,
+    },
+    createdAt: now,
+    ttl: now + HARD_QUOTE_ORDER_TTL_SECS,
+  };
+}
+
+// each order type has its own cosigner data
+export async function cosignOrder(
+  request: HardQuoteRequest,
+  quote: QuoteResponse,
+  parameters: CosignerParameters,
+  cosigner: Cosigner
+): Promise<CosignedV2DutchOrder> {
+  switch (request.orderType) {
+    case OrderType.Dutch_V2: {
+      const cosignerData = getCosignerData(request, quote, parameters);
+      const cosignature = await cosigner.signDigest(request.order.cosignatureHash(cosignerData));
+      return CosignedV2DutchOrder.fromUnsignedOrder(request.order, cosignerData, cosignature);
+    }
+    default:
+      throw new UnsupportedOrderTypeError(request.orderType);
+  }
+}
+
+export function getCosignerData(
+  request: HardQuoteRequest,
+  quote: QuoteResponse,
+  parameters: CosignerParameters = defaultCosignerParameters(request.tokenInChainId)
+): CosignerData {
+  const decayStartTime = Math.floor(Date.now() / 1000) + parameters.decayStartDelaySecs;
   // default to open order with the original prices
   let filler = ethers.constants.AddressZero;
   let inputAmount = BigNumber.from(0);
-  const outputAmounts = request.order.info.baseOutputs.map(() => BigNumber.from(0));
+  let outputAmounts = request.order.info.baseOutputs.map(() => BigNumber.from(0));
 
   // if the quote is better, then increase amounts by the difference
   if (request.type === TradeType.EXACT_INPUT) {
     if (quote.amountOut.gt(request.totalOutputAmountStart)) {
-      const increase = quote.amountOut.sub(request.totalOutputAmountStart);
-      // give all the increase to the first (swapper) output
-      outputAmounts[0] = request.order.info.baseOutputs[0].startAmount.add(increase);
+      outputAmounts = getImprovedOutputAmounts(request, quote.amountOut, parameters.outputImprovement);
       if (quote.filler) {
         filler = quote.filler;
       }
@@ -132,29 +401,42 @@ export function getCosignerData(request: HardQuoteRequest, quote: QuoteResponse)
 
   return {
     decayStartTime: decayStartTime,
-    decayEndTime: getDecayEndTime(request.tokenInChainId, decayStartTime),
+    decayEndTime: decayStartTime + parameters.decayDurationSecs,
     exclusiveFiller: filler,
-    exclusivityOverrideBps: DEFAULT_EXCLUSIVITY_OVERRIDE_BPS,
+    exclusivityOverrideBps: parameters.exclusivityOverrideBps,
     inputAmount: inputAmount,
     outputAmounts: outputAmounts,
   };
 }
 
-function getDecayStartTime(chainId: number): number {
-  const nowTimestamp = Math.floor(Date.now() / 1000);
-  switch (chainId) {
-    case 1:
-      return nowTimestamp + 24; // 2 blocks
-    default:
-      return nowTimestamp + 10; // 10 seconds
-  }
-}
+// overrides every output paying tokenOut so that together they pay the quoted amount
+// outputs in other tokens are left at zero, which keeps their original amounts
+export function getImprovedOutputAmounts(
+  request: HardQuoteRequest,
+  amountOut: BigNumber,
+  policy: OutputImprovementPolicy
+): BigNumber[] {
+  const outputs = request.order.info.baseOutputs;
+  const paysTokenOut = outputs.map((output) => ethers.utils.getAddress(output.token) === request.tokenOut);
+  const swapperIndex = outputs.findIndex(
+    (output, i) =>
+      paysTokenOut[i] && ethers.utils.getAddress(output.recipient) === ethers.utils.getAddress(request.swapper)
+  );
+  // fall back to the first output, which defines tokenOut
+  const improvedIndex = swapperIndex === -1 ? 0 : swapperIndex;
 
-function getDecayEndTime(chainId: number, startTime: number): number {
-  switch (chainId) {
-    case 1:
-      return startTime + 60; // 5 blocks
-    default:
-      return startTime + 30; // 30 seconds
-  }
+  const totalStart = request.totalOutputAmountStart;
+  const amounts = outputs.map((output, i) => {
+    if (!paysTokenOut[i]) {
+      return BigNumber.from(0);
+    }
+    return policy === OutputImprovementPolicy.PRO_RATA
+      ? output.startAmount.mul(amountOut).div(totalStart)
+      : output.startAmount;
+  });
+
+  // the swapper output takes the rest of the improvement, including any rounding dust
+  const allocated = amounts.reduce((sum, amount) => sum.add(amount), BigNumber.from(0));
+  amounts[improvedIndex] = amounts[improvedIndex].add(amountOut.sub(allocated));
+  return amounts;
 }
@@ -1,15 +1,23 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { KMSClient } from '@aws-sdk/client-kms';
-import { KmsSigner } from '@uniswap/signer';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { IMetric, setGlobalLogger, setGlobalMetric } from '@uniswap/smart-order-router';
 import { MetricsLogger } from 'aws-embedded-metrics';
 import { APIGatewayProxyEvent, Context } from 'aws-lambda';
 import { default as bunyan, default as Logger } from 'bunyan';
 
+import { validateChainRegistry } from '../../config/chains';
+import { getRankingConfig } from '../../config/ranking';
 import {
+  BETA_COMPLIANCE_S3_KEY,
   BETA_S3_KEY,
+  COMPLIANCE_CONFIG_BUCKET,
   FADE_RATE_BUCKET,
   FADE_RATE_S3_KEY,
+  PARAMETER_CONFIG_BUCKET,
+  PARAMETER_S3_KEY,
   PRODUCTION_S3_KEY,
+  PROD_COMPLIANCE_S3_KEY,
   WEBHOOK_CONFIG_BUCKET,
 } from '../../constants';
 import { AWSMetricsLogger, UniswapXParamServiceMetricDimension } from '../../entities/aws-metrics-logger';
@@ -17,22 +25,46 @@ import { checkDefined } from '../../preconditions/preconditions';
 import { OrderServiceProvider, S3WebhookConfigurationProvider, UniswapXServiceProvider } from '../../providers';
 import { FirehoseLogger } from '../../providers/analytics';
 import { S3CircuitBreakerConfigurationProvider } from '../../providers/circuit-breaker/s3';
-import { MockFillerComplianceConfigurationProvider } from '../../providers/compliance';
-import { Quoter, WebhookQuoter } from '../../quoters';
+import { S3FillerComplianceConfigurationProvider } from '../../providers/compliance';
+import {
+  CosignerKeyType,
+  CosignerRegistry,
+  parseCosignerKeyConfigs,
+  validateChainCosigners,
+} from '../../providers/cosigner';
+import { ParameterPolicy, S3ParameterRulesProvider } from '../../providers/parameters';
+import { SwapperScreeningProvider } from '../../providers/screening';
+import { TokenMetadataProvider } from '../../providers/tokens';
+import { getAuctionOptions, getPriceSanityChecker, QuoteCollectorOptions, Quoter, WebhookQuoter } from '../../quoters';
+import { QuoteRankerSelector } from '../../rankers';
+import {
+  BaseHardQuoteOrderRepository,
+  BaseIdempotencyRepository,
+  BaseQuoteAttributionRepository,
+} from '../../repositories/base';
+import { HardQuoteOrderRepository } from '../../repositories/hard-quote-order-repository';
+import { IdempotencyRepository } from '../../repositories/idempotency-repository';
+import { QuoteAttributionRepository } from '../../repositories/quote-attribution-repository';
 import { STAGE } from '../../util/stage';
 import { ApiInjector, ApiRInj } from '../base/api-handler';
+import { getScreeningProvider, getTokenMetadataProvider } from '../quote/injector';
+import { HardQuoteOrderValidator } from './order-validator';
 import { HardQuoteRequestBody } from './schema';
 
-interface Cosigner {
-  signDigest(digest: Buffer | string): Promise<string>;
-}
-
 export interface ContainerInjected {
   quoters: Quoter[];
   firehose: FirehoseLogger;
-  cosigner: Cosigner;
-  cosignerAddress: string;
+  cosignerRegistry: CosignerRegistry;
   orderServiceProvider: OrderServiceProvider;
+  auctionOptions: QuoteCollectorOptions;
+  rankerSelector: QuoteRankerSelector;
+  screeningProvider: SwapperScreeningProvider;
+  parameterPolicy: ParameterPolicy;
+  orderValidator: HardQuoteOrderValidator;
+  idempotencyRepository: BaseIdempotencyRepository;
+  hardQuoteOrderRepository: BaseHardQuoteOrderRepository;
+  quoteAttributionRepository: BaseQuoteAttributionRepository;
+  tokenMetadataProvider: TokenMetadataProvider;
 }
 
 export interface RequestInjected extends ApiRInj {
@@ -47,6 +79,8 @@ export class QuoteInjector extends ApiInjector<ContainerInjected, RequestInjecte
       level: bunyan.INFO,
     });
 
+    validateChainRegistry();
+
     const stage = process.env['stage'];
     const s3Key = stage === STAGE.BETA ? BETA_S3_KEY : PRODUCTION_S3_KEY;
 
@@ -58,36 +92,69 @@ export class QuoteInjector extends ApiInjector<ContainerInjected, RequestInjecte
       FADE_RATE_S3_KEY
     );
 
-    const kmsKeyId = checkDefined(process.env.KMS_KEY_ID, 'KMS_KEY_ID is not defined');
-    const awsRegion = checkDefined(process.env.REGION, 'REGION is not defined');
-    const cosigner = new KmsSigner(new KMSClient({ region: awsRegion }), kmsKeyId);
-    const cosignerAddress = await cosigner.getAddress();
+    const cosignerRegistry = await getCosignerRegistry(log);
 
     const webhookProvider = new S3WebhookConfigurationProvider(log, `${WEBHOOK_CONFIG_BUCKET}-${stage}-1`, s3Key);
     await webhookProvider.fetchEndpoints();
 
     const orderServiceProvider = new UniswapXServiceProvider(log, orderServiceUrl);
 
-    // TODO: decide if we should handle filler compliance differently
-    //const complianceKey = stage === STAGE.BETA ? BETA_COMPLIANCE_S3_KEY : PROD_COMPLIANCE_S3_KEY;
-    //const fillerComplianceProvider = new S3FillerComplianceConfigurationProvider(
-    //  log,
-    //  `${COMPLIANCE_CONFIG_BUCKET}-${stage}-1`,
-    //  complianceKey
-    //);
-    const fillerComplianceProvider = new MockFillerComplianceConfigurationProvider([]);
+    const complianceKey = stage === STAGE.BETA ? BETA_COMPLIANCE_S3_KEY : PROD_COMPLIANCE_S3_KEY;
+    const fillerComplianceProvider = new S3FillerComplianceConfigurationProvider(
+      log,
+      `${COMPLIANCE_CONFIG_BUCKET}-${stage}-1`,
+      complianceKey
+    );
+
+    const parameterRulesProvider = new S3ParameterRulesProvider(
+      log,
+      `${PARAMETER_CONFIG_BUCKET}-${stage}-1`,
+      PARAMETER_S3_KEY
+    );
+
+    const tokenMetadataProvider = getTokenMetadataProvider(log, stage);
+
+    const documentClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: {
+        convertEmptyValues: true,
+      },
+      unmarshallOptions: {
+        wrapNumbers: true,
+      },
+    });
 
     const firehose = new FirehoseLogger(log, process.env.ANALYTICS_STREAM_ARN!);
 
+    const priceChecker = getPriceSanityChecker(log, stage);
     const quoters: Quoter[] = [
-      new WebhookQuoter(log, firehose, webhookProvider, circuitBreakerProvider, fillerComplianceProvider),
+      new WebhookQuoter(
+        log,
+        firehose,
+        webhookProvider,
+        circuitBreakerProvider,
+        fillerComplianceProvider,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        priceChecker
+      ),
     ];
     return {
       quoters: quoters,
       firehose: firehose,
-      cosigner,
-      cosignerAddress,
+      cosignerRegistry,
       orderServiceProvider,
+      auctionOptions: { ...getAuctionOptions(), priceChecker, firehose },
+      rankerSelector: new QuoteRankerSelector(log, circuitBreakerProvider, getRankingConfig()),
+      screeningProvider: getScreeningProvider(log, stage),
+      parameterPolicy: new ParameterPolicy(log, parameterRulesProvider, circuitBreakerProvider),
+      orderValidator: new HardQuoteOrderValidator(log, tokenMetadataProvider),
+      idempotencyRepository: IdempotencyRepository.create(documentClient),
+      hardQuoteOrderRepository: HardQuoteOrderRepository.create(documentClient),
+      quoteAttributionRepository: QuoteAttributionRepository.create(documentClient),
+      tokenMetadataProvider,
     };
   }
 
@@ -121,3 +188,22 @@ export class QuoteInjector extends ApiInjector<ContainerInjected, RequestInjecte
     };
   }
 }
+
+// COSIGNER_KEYS lists every cosigner key with its active window, to rotate keys with an overlap
+// without it, the single KMS_KEY_ID key is always active
+export async function getCosignerRegistry(log: Logger): Promise<CosignerRegistry> {
+  const configs = process.env.COSIGNER_KEYS
+    ? parseCosignerKeyConfigs(process.env.COSIGNER_KEYS, process.env['stage'])
+    : [
+        {
+          type: CosignerKeyType.KMS,
+          keyId: checkDefined(process.env.KMS_KEY_ID, 'KMS_KEY_ID is not defined'),
+        },
+      ];
+  const kmsClient = configs.some((config) => config.type === CosignerKeyType.KMS)
+    ? new KMSClient({ region: checkDefined(process.env.REGION, 'REGION is not defined') })
+    : undefined;
+  const cosignerRegistry = await CosignerRegistry.fromKeyConfigs(log, configs, kmsClient);
+  validateChainCosigners(cosignerRegistry);
+  return cosignerRegistry;
+}
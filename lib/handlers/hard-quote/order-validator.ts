@@ -0,0 +1,120 @@
+import { default as Logger } from 'bunyan';
+import { BigNumber, ethers } from 'ethers';
+
+import { ChainConfiguration, ChainRegistry, ChainRoute, CHAIN_REGISTRY } from '../../config/chains';
+import { HardQuoteRequest } from '../../entities';
+import { TokenMetadataProvider } from '../../providers/tokens';
+import { ErrorCode, OrderValidationError } from '../../util/errors';
+
+// checks a hard quote order can be cosigned and settled before quoting it
+// each check throws an OrderValidationError with its own error code
+export class HardQuoteOrderValidator {
+  private log: Logger;
+
+  constructor(
+    _log: Logger,
+    private tokenMetadataProvider: TokenMetadataProvider,
+    private registry: ChainRegistry = CHAIN_REGISTRY
+  ) {
+    this.log = _log.child({ quoter: 'HardQuoteOrderValidator' });
+  }
+
+  public async validate(request: HardQuoteRequest, now = Math.floor(Date.now() / 1000)): Promise<void> {
+    try {
+      // the nonce is part of the signed permit, so it is checked first
+      this.validateNonce(request);
+      this.validateSignature(request);
+      const config = this.validateChain(request);
+      // the selected parameters may extend the decay, so this is checked again after cosigning
+      this.validateDeadline(request, now + config.decayStartDelaySecs + config.decayDurationSecs);
+      this.validateAmounts(request);
+      await this.validateTokens(request);
+    } catch (e) {
+      if (e instanceof OrderValidationError) {
+        this.log.info(
+          { requestId: request.requestId, errorCode: e.errorCode, detail: e.message },
+          'Hard quote order failed validation'
+        );
+      }
+      throw e;
+    }
+  }
+
+  // the order must not expire before its decay ends
+  public validateDeadline(request: HardQuoteRequest, minDeadline: number): void {
+    const deadline = request.order.info.deadline;
+    if (deadline <= minDeadline) {
+      throw new OrderValidationError(ErrorCode.OrderExpired, `Order deadline ${deadline} is before ${minDeadline}`);
+    }
+  }
+
+  private validateSignature(request: HardQuoteRequest): void {
+    let signer: string;
+    try {
+      signer = request.order.getSigner(request.innerSig);
+    } catch {
+      throw new OrderValidationError(ErrorCode.InvalidSignature, 'Order signature could not be recovered');
+    }
+    if (ethers.utils.getAddress(signer) !== ethers.utils.getAddress(request.swapper)) {
+      throw new OrderValidationError(ErrorCode.InvalidSignature, 'Order signature does not match swapper');
+    }
+  }
+
+  private validateChain(request: HardQuoteRequest): ChainConfiguration {
+    const config = this.registry[request.tokenInChainId as keyof ChainRegistry];
+    if (!config?.routes.includes(ChainRoute.HARD_QUOTE)) {
+      throw new OrderValidationError(
+        ErrorCode.UnsupportedChain,
+        `Hard quotes are not supported on chain ${request.order.chainId}`
+      );
+    }
+    // the order settles on a single chain, so its outputs are paid there too
+    if (request.tokenOutChainId !== request.order.chainId) {
+      throw new OrderValidationError(
+        ErrorCode.UnsupportedChain,
+        `Orders on chain ${request.order.chainId} cannot pay out on chain ${request.tokenOutChainId}`
+      );
+    }
+    const reactor = request.order.info.reactor;
+    if (config.reactor && ethers.utils.getAddress(reactor) !== ethers.utils.getAddress(config.reactor)) {
+      throw new OrderValidationError(ErrorCode.InvalidReactor, `Unknown reactor ${reactor}`);
+    }
+    // a chain with its own cosigner only accepts orders declaring that one, as advertised by GET /cosigner
+    const cosigner = request.order.info.cosigner;
+    if (config.cosigner && ethers.utils.getAddress(cosigner) !== ethers.utils.getAddress(config.cosigner)) {
+      throw new OrderValidationError(
+        ErrorCode.InvalidCosigner,
+        `Orders on chain ${request.order.chainId} must declare cosigner ${config.cosigner}`
+      );
+    }
+    return config;
+  }
+
+  // Permit2 nonces are unordered, so any uint256 is usable
+  private validateNonce(request: HardQuoteRequest): void {
+    const nonce: BigNumber = request.order.info.nonce;
+    if (!BigNumber.isBigNumber(nonce) || nonce.lt(0) || nonce.gt(ethers.constants.MaxUint256)) {
+      throw new OrderValidationError(ErrorCode.InvalidNonce, 'Order nonce is not a valid uint256');
+    }
+  }
+
+  private validateAmounts(request: HardQuoteRequest): void {
+    const { startAmount, endAmount } = request.order.info.baseInput;
+    if (startAmount.isZero() || endAmount.isZero()) {
+      throw new OrderValidationError(ErrorCode.InvalidAmount, 'Order input amounts must be non-zero');
+    }
+  }
+
+  // every token the order moves must be listed for hard quotes on the order's chain
+  private async validateTokens(request: HardQuoteRequest): Promise<void> {
+    const tokens = new Set([request.tokenIn, ...request.order.info.baseOutputs.map((output) => output.token)]);
+    for (const token of tokens) {
+      if (!(await this.tokenMetadataProvider.isAllowedOnRoute(request.order.chainId, token, ChainRoute.HARD_QUOTE))) {
+        throw new OrderValidationError(
+          ErrorCode.TokenNotAllowed,
+          `Token ${token} is not allowed on chain ${request.order.chainId}`
+        );
+      }
+    }
+  }
+}
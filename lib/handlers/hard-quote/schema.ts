@@ -1,15 +1,23 @@
 import Joi from 'joi';
 
+import { DEFAULT_HARD_QUOTE_ORDER_TYPE, SUPPORTED_HARD_QUOTE_ORDER_TYPES } from '../../entities/OrderType';
 import { FieldValidator } from '../../util/validator';
 
+export const OrderTypeJoi = Joi.string()
+  .valid(...SUPPORTED_HARD_QUOTE_ORDER_TYPES)
+  .messages({
+    'any.only': `"orderType" {#value} is not supported, expected one of ${SUPPORTED_HARD_QUOTE_ORDER_TYPES.join(', ')}`,
+  });
+
 /* Hard quote request from user */
 export const HardQuoteRequestBodyJoi = Joi.object({
   requestId: FieldValidator.requestId.required(),
   quoteId: FieldValidator.uuid.optional(),
   encodedInnerOrder: Joi.string().required(),
   innerSig: FieldValidator.rawSignature.required(),
-  tokenInChainId: FieldValidator.chainId.required(),
+  tokenInChainId: FieldValidator.hardQuoteChainId.required(),
   tokenOutChainId: Joi.number().integer().valid(Joi.ref('tokenInChainId')).required(),
+  orderType: OrderTypeJoi.default(DEFAULT_HARD_QUOTE_ORDER_TYPE),
 });
 
 export type HardQuoteRequestBody = {
@@ -19,22 +27,42 @@ export type HardQuoteRequestBody = {
   innerSig: string;
   tokenInChainId: number;
   tokenOutChainId: number;
+  // defaults to Dutch_V2
+  orderType?: string;
 };
 
 export const HardQuoteResponseDataJoi = Joi.object({
   requestId: FieldValidator.uuid.required(),
   quoteId: FieldValidator.uuid,
-  chainId: FieldValidator.chainId.required(),
+  chainId: FieldValidator.hardQuoteChainId.required(),
+  orderType: OrderTypeJoi.required(),
   encodedOrder: Joi.string().required(),
   orderHash: FieldValidator.orderHash.required(),
   filler: FieldValidator.address,
+  parameters: Joi.object({
+    exclusivityOverrideBps: Joi.string().required(),
+    decayStartTime: Joi.number().required(),
+    decayEndTime: Joi.number().required(),
+    outputImprovement: Joi.string(),
+    ruleId: Joi.string(),
+  }),
 });
 
+export type HardQuoteParameters = {
+  exclusivityOverrideBps: string;
+  decayStartTime: number;
+  decayEndTime: number;
+  outputImprovement?: string;
+  ruleId?: string;
+};
+
 export type HardQuoteResponseData = {
   requestId: string;
   quoteId?: string;
   chainId: number;
+  orderType: string;
   encodedOrder: string;
   orderHash: string;
   filler?: string;
+  parameters?: HardQuoteParameters;
 };
@@ -4,7 +4,9 @@ import {
   postOrderProcessor,
   quoteProcessor,
 } from './blueprints/cw-log-firehose-processor';
+import { CosignerHandler, CosignerInjector } from './cosigner';
 import { HardQuoteHandler, HardQuoteInjector } from './hard-quote';
+import { HardQuoteStatusHandler, HardQuoteStatusInjector } from './hard-quote-status';
 import { RfqHandler, RfqInjector } from './integration/rfq';
 import { MockQuoteInjector, QuoteHandler, QuoteInjector } from './quote';
 import { SwitchHandler, SwitchInjector } from './synth-switch';
@@ -15,6 +17,12 @@ const quoteHandler = new QuoteHandler('quoteHandler', quoteInjectorPromise);
 const hardQuoteInjectorPromise = new HardQuoteInjector('hardQuoteInjector').build();
 const hardQuoteHandler = new HardQuoteHandler('hardQuoteHandler', hardQuoteInjectorPromise);
 
+const hardQuoteStatusInjectorPromise = new HardQuoteStatusInjector('hardQuoteStatusInjector').build();
+const hardQuoteStatusHandler = new HardQuoteStatusHandler('hardQuoteStatusHandler', hardQuoteStatusInjectorPromise);
+
+const cosignerInjectorPromise = new CosignerInjector('cosignerInjector').build();
+const cosignerHandler = new CosignerHandler('cosignerHandler', cosignerInjectorPromise);
+
 const switchInjectorPromise = new SwitchInjector('switchInjector').build();
 const switchHandler = new SwitchHandler('SwitchHandler', switchInjectorPromise);
 
@@ -31,6 +39,8 @@ module.exports = {
   botOrderEventsProcessor: botOrderEventsProcessor,
   quoteHandler: quoteHandler.handler,
   hardQuoteHandler: hardQuoteHandler.handler,
+  hardQuoteStatusHandler: hardQuoteStatusHandler.handler,
+  cosignerHandler: cosignerHandler.handler,
   mockQuoteHandler: mockQuoteHandler.handler,
   rfqHandler: rfqHandler.handler,
   switchHandler: switchHandler.handler,
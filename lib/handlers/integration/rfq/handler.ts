@@ -3,6 +3,7 @@ import { ethers } from 'ethers';
 import Joi from 'joi';
 
 import { QuoteRequest } from '../../../entities';
+import { InvalidRequestSignatureError } from '../../../util/errors';
 import { APIGLambdaHandler, APIHandleRequestParams, ApiRInj, ErrorResponse, Response } from '../../base/api-handler';
 import {
   PostQuoteRequestBody,
@@ -25,8 +26,18 @@ export class RfqHandler extends APIGLambdaHandler<
     const {
       requestInjected: { log },
       requestBody,
+      containerInjected: { signatureVerifier },
+      event,
     } = params;
 
+    if (signatureVerifier) {
+      const verification = signatureVerifier.verify(event.body ?? '', event.headers);
+      if (!verification.valid) {
+        log.info({ reason: verification.reason }, 'rfq request signature rejected');
+        throw new InvalidRequestSignatureError(verification.reason);
+      }
+    }
+
     const request = QuoteRequest.fromRequestBody(requestBody);
 
     log.info({ request: request }, 'rfq request received');
@@ -2,14 +2,30 @@ import { setGlobalLogger } from '@uniswap/smart-order-router';
 import { APIGatewayProxyEvent, Context } from 'aws-lambda';
 import { default as bunyan, default as Logger } from 'bunyan';
 
+import { RfqSignatureVerifier, RfqSigningScheme } from '../../../util/rfq-signing';
 import { ApiInjector, ApiRInj } from '../../base';
 import * as schema from '../../quote/schema';
 
-export interface ContainerInjected {}
+export interface ContainerInjected {
+  // if set, requests must carry a valid signature
+  signatureVerifier?: RfqSignatureVerifier;
+}
+
+export function getSignatureVerifier(env: NodeJS.ProcessEnv = process.env): RfqSignatureVerifier | undefined {
+  if (env.RFQ_SIGNER_ADDRESS) {
+    return new RfqSignatureVerifier({ scheme: RfqSigningScheme.EIP191, address: env.RFQ_SIGNER_ADDRESS });
+  }
+  if (env.RFQ_SIGNING_SECRET) {
+    return new RfqSignatureVerifier({ scheme: RfqSigningScheme.HMAC, secret: env.RFQ_SIGNING_SECRET });
+  }
+  return undefined;
+}
 
 export class RfqInjector extends ApiInjector<ContainerInjected, ApiRInj, schema.PostQuoteRequestBody, void> {
   public async buildContainerInjected(): Promise<ContainerInjected> {
-    return {};
+    return {
+      signatureVerifier: getSignatureVerifier(),
+    };
   }
 
   public async getRequestInjected(
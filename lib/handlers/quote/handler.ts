@@ -3,41 +3,57 @@ import { IMetric, MetricLoggerUnit } from '@uniswap/smart-order-router';
 import Logger from 'bunyan';
 import Joi from 'joi';
 
-import { Metric, QuoteRequest, QuoteResponse } from '../../entities';
-import { Quoter } from '../../quoters';
-import { NoQuotesAvailable } from '../../util/errors';
+import { QUOTE_ATTRIBUTION_WRITE_TIMEOUT_MS } from '../../constants';
+import { Metric, QuoteRequest, QuoteRequestData, QuoteResponse } from '../../entities';
+import { SwapperScreeningProvider } from '../../providers/screening';
+import { TokenMetadataProvider, TokenPairMetadata } from '../../providers/tokens';
+import { DEFAULT_AUCTION_DEADLINE_MS, QuoteCollector, QuoteCollectorOptions, Quoter } from '../../quoters';
+import { PriceRanker, QuoteRanker, RankedQuote } from '../../rankers';
+import { BaseQuoteAttributionRepository, QuoteAttribution, QuoteAttributionSource } from '../../repositories';
+import { NoQuotesAvailable, SwapperBlockedError } from '../../util/errors';
 import { timestampInMstoSeconds } from '../../util/time';
+import { tokenLogFields } from '../../util/tokens';
 import { APIGLambdaHandler } from '../base';
 import { APIHandleRequestParams, ErrorResponse, Response } from '../base/api-handler';
 import { ContainerInjected, RequestInjected } from './injector';
-import { PostQuoteRequestBody, PostQuoteRequestBodyJoi, PostQuoteResponse, URAResponseJoi } from './schema';
+import { PostQuoteRankedResponse, PostQuoteRequestBody, PostQuoteRequestBodyJoi, URARankedResponseJoi } from './schema';
 
 export class QuoteHandler extends APIGLambdaHandler<
   ContainerInjected,
   RequestInjected,
   PostQuoteRequestBody,
   void,
-  PostQuoteResponse
+  PostQuoteRankedResponse
 > {
   public async handleRequest(
     params: APIHandleRequestParams<ContainerInjected, RequestInjected, PostQuoteRequestBody, void>
-  ): Promise<ErrorResponse | Response<PostQuoteResponse>> {
+  ): Promise<ErrorResponse | Response<PostQuoteRankedResponse>> {
     const {
       requestInjected: { log, metric },
       requestBody,
-      containerInjected: { quoters },
+      containerInjected: {
+        quoters,
+        auctionOptions,
+        rankerSelector,
+        screeningProvider,
+        quoteAttributionRepository,
+        tokenMetadataProvider,
+      },
     } = params;
     const start = Date.now();
 
     metric.putMetric(Metric.QUOTE_REQUESTED, 1, MetricLoggerUnit.Count);
 
-    const request = QuoteRequest.fromRequestBody(requestBody);
+    const request = QuoteRequest.fromRequestBody(
+      requestBody,
+      await getTokenPairMetadata(tokenMetadataProvider, requestBody)
+    );
     log.info({
       eventType: 'QuoteRequest',
       body: {
         requestId: request.requestId,
         tokenInChainId: request.tokenInChainId,
-        tokenOutChainId: request.tokenInChainId,
+        tokenOutChainId: request.tokenOutChainId,
         offerer: request.swapper,
         tokenIn: request.tokenIn,
         tokenOut: request.tokenOut,
@@ -46,22 +62,48 @@ export class QuoteHandler extends APIGLambdaHandler<
         createdAt: timestampInMstoSeconds(start),
         createdAtMs: start.toString(),
         numOutputs: request.numOutputs,
+        ...tokenLogFields(request.tokens),
+        notionalUsd: request.notionalUsd,
       },
     });
 
-    const bestQuote = await getBestQuote(quoters, request, log, metric);
-    if (!bestQuote) {
+    if (!(await screenAddresses(screeningProvider, request.requestId, [request.swapper], log))) {
+      metric.putMetric(Metric.QUOTE_403, 1, MetricLoggerUnit.Count);
+      throw new SwapperBlockedError();
+    }
+
+    const ranked = await getRankedQuotes(quoters, request, log, metric, auctionOptions, rankerSelector.select(request));
+    if (ranked.length === 0) {
       metric.putMetric(Metric.QUOTE_404, 1, MetricLoggerUnit.Count);
       throw new NoQuotesAvailable();
     }
 
+    const bestQuote = ranked[0].quote;
     log.info({ bestQuote: bestQuote }, 'bestQuote');
+    await putQuoteAttribution(
+      quoteAttributionRepository,
+      toQuoteAttribution(bestQuote, QuoteAttributionSource.QUOTE),
+      log,
+      QUOTE_ATTRIBUTION_WRITE_TIMEOUT_MS
+    );
 
     metric.putMetric(Metric.QUOTE_200, 1, MetricLoggerUnit.Count);
     metric.putMetric(Metric.QUOTE_LATENCY, Date.now() - start, MetricLoggerUnit.Milliseconds);
+
+    // the ranked list is opt-in so existing callers keep the single quote response
+    const { returnAll, maxQuotes } = requestBody;
+    if (!returnAll && maxQuotes === undefined) {
+      return {
+        statusCode: 200,
+        body: bestQuote.toResponseJSON(),
+      };
+    }
     return {
       statusCode: 200,
-      body: bestQuote.toResponseJSON(),
+      body: {
+        ...bestQuote.toResponseJSON(),
+        quotes: ranked.slice(0, returnAll ? ranked.length : maxQuotes).map((r) => r.quote.toRankedResponseJSON()),
+      },
     };
   }
 
@@ -74,18 +116,116 @@ export class QuoteHandler extends APIGLambdaHandler<
   }
 
   protected responseBodySchema(): Joi.ObjectSchema | null {
-    return URAResponseJoi;
+    return URARankedResponseJoi;
   }
 }
 
-// fetch quotes from all quoters and return the best one
+// screen addresses against the blocklist before any webhook fires
+// every decision is logged for audit
+export async function screenAddresses(
+  screeningProvider: SwapperScreeningProvider,
+  requestId: string,
+  addresses: string[],
+  log: Logger
+): Promise<boolean> {
+  const blocked = await screeningProvider.getBlockedAddresses(addresses);
+  const allowed = blocked.length === 0;
+  log.info({
+    eventType: 'SwapperScreening',
+    body: {
+      requestId,
+      addresses,
+      blocked,
+      decision: allowed ? 'ALLOWED' : 'BLOCKED',
+    },
+  });
+  return allowed;
+}
+
+type TokenPair = Pick<QuoteRequestData, 'tokenInChainId' | 'tokenIn' | 'tokenOutChainId' | 'tokenOut'>;
+
+// token list metadata for both sides of a request, unset for unlisted tokens
+export async function getTokenPairMetadata(
+  tokenMetadataProvider: TokenMetadataProvider,
+  pair: TokenPair
+): Promise<TokenPairMetadata> {
+  const [tokenIn, tokenOut] = await Promise.all([
+    tokenMetadataProvider.getToken(pair.tokenInChainId, pair.tokenIn),
+    tokenMetadataProvider.getToken(pair.tokenOutChainId, pair.tokenOut),
+  ]);
+  return { tokenIn, tokenOut };
+}
+
+export function toQuoteAttribution(
+  quote: QuoteResponse,
+  source: QuoteAttributionSource,
+  now = Math.floor(Date.now() / 1000)
+): QuoteAttribution {
+  return {
+    quoteId: quote.quoteId,
+    requestId: quote.requestId,
+    source,
+    chainId: quote.chainId,
+    swapper: quote.swapper,
+    filler: quote.filler,
+    fillerHash: quote.fillerHash,
+    tokenIn: quote.tokenIn,
+    tokenOut: quote.tokenOut,
+    amountIn: quote.amountIn.toString(),
+    amountOut: quote.amountOut.toString(),
+    quotedAt: now,
+  };
+}
+
+// attribution is best effort, a failed write never fails the quote
+// with a timeout, a slow write is given up on rather than delaying the response
+export async function putQuoteAttribution(
+  repository: BaseQuoteAttributionRepository,
+  attribution: QuoteAttribution,
+  log: Logger,
+  timeoutMs?: number
+): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<'timeout'>((resolve) => {
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => resolve('timeout'), timeoutMs);
+    }
+  });
+  try {
+    if ((await Promise.race([repository.putQuote(attribution), timeout])) === 'timeout') {
+      log.error({ quoteId: attribution.quoteId, timeoutMs }, 'Timed out writing quote attribution');
+    }
+  } catch (e) {
+    log.error({ error: e, quoteId: attribution.quoteId }, 'Error writing quote attribution');
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// run an auction across all quoters and return the top ranked quote received before it closes
 export async function getBestQuote(
   quoters: Quoter[],
   quoteRequest: QuoteRequest,
   log: Logger,
-  metric: IMetric
+  metric: IMetric,
+  auctionOptions: QuoteCollectorOptions = { deadlineMs: DEFAULT_AUCTION_DEADLINE_MS },
+  ranker: QuoteRanker = new PriceRanker()
 ): Promise<QuoteResponse | null> {
-  const responses: QuoteResponse[] = (await Promise.all(quoters.map((q) => q.quote(quoteRequest)))).flat();
+  const ranked = await getRankedQuotes(quoters, quoteRequest, log, metric, auctionOptions, ranker);
+  return ranked.length > 0 ? ranked[0].quote : null;
+}
+
+// run an auction across all quoters and return every quote received before it closes, best first
+export async function getRankedQuotes(
+  quoters: Quoter[],
+  quoteRequest: QuoteRequest,
+  log: Logger,
+  metric: IMetric,
+  auctionOptions: QuoteCollectorOptions = { deadlineMs: DEFAULT_AUCTION_DEADLINE_MS },
+  ranker: QuoteRanker = new PriceRanker()
+): Promise<RankedQuote[]> {
+  const collector = new QuoteCollector(log, quoteRequest, auctionOptions);
+  const { quotes: responses } = await collector.collect(quoters);
   switch (responses.length) {
     case 0:
       metric.putMetric(Metric.RFQ_COUNT_0, 1, MetricLoggerUnit.Count);
@@ -104,20 +244,17 @@ export async function getBestQuote(
       break;
   }
 
-  // return the response with the highest amountOut value
-  return responses.reduce((bestQuote: QuoteResponse | null, quote: QuoteResponse) => {
+  responses.forEach((quote) => {
     log.info({
       eventType: 'QuoteResponse',
-      body: { ...quote.toLog(), offerer: quote.swapper },
+      body: { ...quote.toLog(quoteRequest.tokens), offerer: quote.swapper },
     });
+  });
 
-    if (
-      !bestQuote ||
-      (quoteRequest.type == TradeType.EXACT_INPUT && quote.amountOut.gt(bestQuote.amountOut)) ||
-      (quoteRequest.type == TradeType.EXACT_OUTPUT && quote.amountIn.lt(bestQuote.amountIn))
-    ) {
-      return quote;
-    }
-    return bestQuote;
-  }, null);
+  const ranked = await ranker.rank(quoteRequest, responses);
+  log.info(
+    { ranker: ranker.type(), ranked: ranked.map((r) => ({ quoteId: r.quote.quoteId, score: r.score.toString() })) },
+    'Ranked quotes'
+  );
+  return ranked;
 }
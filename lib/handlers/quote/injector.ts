@@ -1,8 +1,12 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { IMetric, setGlobalLogger, setGlobalMetric } from '@uniswap/smart-order-router';
 import { MetricsLogger } from 'aws-embedded-metrics';
 import { APIGatewayProxyEvent, Context } from 'aws-lambda';
 import { default as bunyan, default as Logger } from 'bunyan';
 
+import { validateChainRegistry } from '../../config/chains';
+import { getRankingConfig } from '../../config/ranking';
 import {
   BETA_COMPLIANCE_S3_KEY,
   BETA_S3_KEY,
@@ -12,6 +16,10 @@ import {
   INTEGRATION_S3_KEY,
   PROD_COMPLIANCE_S3_KEY,
   PRODUCTION_S3_KEY,
+  SCREENING_CONFIG_BUCKET,
+  SCREENING_S3_KEY,
+  TOKEN_CONFIG_BUCKET,
+  TOKEN_LIST_S3_KEY,
   WEBHOOK_CONFIG_BUCKET,
 } from '../../constants';
 import {
@@ -23,7 +31,19 @@ import { S3WebhookConfigurationProvider } from '../../providers';
 import { FirehoseLogger } from '../../providers/analytics';
 import { S3CircuitBreakerConfigurationProvider } from '../../providers/circuit-breaker/s3';
 import { S3FillerComplianceConfigurationProvider } from '../../providers/compliance/s3';
-import { Quoter, WebhookQuoter } from '../../quoters';
+import {
+  FileSwapperScreeningProvider,
+  S3SwapperScreeningProvider,
+  SwapperScreeningProvider,
+} from '../../providers/screening';
+import { MockTokenMetadataProvider, S3TokenMetadataProvider, TokenMetadataProvider } from '../../providers/tokens';
+import { getAuctionOptions, getPriceSanityChecker, QuoteCollectorOptions, Quoter, WebhookQuoter } from '../../quoters';
+import { QuoteRankerSelector } from '../../rankers';
+import { BaseQuoteAttributionRepository } from '../../repositories/base';
+import {
+  MockQuoteAttributionRepository,
+  QuoteAttributionRepository,
+} from '../../repositories/quote-attribution-repository';
 import { STAGE } from '../../util/stage';
 import { ApiInjector, ApiRInj } from '../base/api-handler';
 import { PostQuoteRequestBody } from './schema';
@@ -31,6 +51,27 @@ import { PostQuoteRequestBody } from './schema';
 export interface ContainerInjected {
   quoters: Quoter[];
   firehose: FirehoseLogger;
+  auctionOptions: QuoteCollectorOptions;
+  rankerSelector: QuoteRankerSelector;
+  screeningProvider: SwapperScreeningProvider;
+  quoteAttributionRepository: BaseQuoteAttributionRepository;
+  tokenMetadataProvider: TokenMetadataProvider;
+}
+
+// a local blocklist file takes precedence over the S3 blocklist
+export function getScreeningProvider(
+  log: Logger,
+  stage: string | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): SwapperScreeningProvider {
+  if (env.SWAPPER_BLOCKLIST_PATH) {
+    return new FileSwapperScreeningProvider(log, env.SWAPPER_BLOCKLIST_PATH);
+  }
+  return new S3SwapperScreeningProvider(log, `${SCREENING_CONFIG_BUCKET}-${stage}-1`, SCREENING_S3_KEY);
+}
+
+export function getTokenMetadataProvider(log: Logger, stage: string | undefined): TokenMetadataProvider {
+  return new S3TokenMetadataProvider(log, `${TOKEN_CONFIG_BUCKET}-${stage}-1`, TOKEN_LIST_S3_KEY);
 }
 
 export interface RequestInjected extends ApiRInj {
@@ -45,6 +86,8 @@ export class QuoteInjector extends ApiInjector<ContainerInjected, RequestInjecte
       level: bunyan.INFO,
     });
 
+    validateChainRegistry();
+
     const stage = process.env['stage'];
     const s3Key = stage === STAGE.BETA ? BETA_S3_KEY : PRODUCTION_S3_KEY;
     const webhookProvider = new S3WebhookConfigurationProvider(log, `${WEBHOOK_CONFIG_BUCKET}-${stage}-1`, s3Key);
@@ -62,14 +105,42 @@ export class QuoteInjector extends ApiInjector<ContainerInjected, RequestInjecte
       complianceKey
     );
 
+    const documentClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: {
+        convertEmptyValues: true,
+      },
+      unmarshallOptions: {
+        wrapNumbers: true,
+      },
+    });
+
     const firehose = new FirehoseLogger(log, process.env.ANALYTICS_STREAM_ARN!);
 
+    // shared so quotes are checked as they arrive and again once the auction closes
+    const priceChecker = getPriceSanityChecker(log, stage);
     const quoters: Quoter[] = [
-      new WebhookQuoter(log, firehose, webhookProvider, circuitBreakerProvider, fillerComplianceProvider),
+      new WebhookQuoter(
+        log,
+        firehose,
+        webhookProvider,
+        circuitBreakerProvider,
+        fillerComplianceProvider,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        priceChecker
+      ),
     ];
     return {
       quoters: quoters,
       firehose: firehose,
+      auctionOptions: { ...getAuctionOptions(), priceChecker, firehose },
+      rankerSelector: new QuoteRankerSelector(log, circuitBreakerProvider, getRankingConfig()),
+      screeningProvider: getScreeningProvider(log, stage),
+      quoteAttributionRepository: QuoteAttributionRepository.create(documentClient),
+      tokenMetadataProvider: getTokenMetadataProvider(log, stage),
     };
   }
 
@@ -136,6 +207,11 @@ export class MockQuoteInjector extends ApiInjector<ContainerInjected, RequestInj
     return {
       quoters: quoters,
       firehose: firehose,
+      auctionOptions: getAuctionOptions(),
+      rankerSelector: new QuoteRankerSelector(log, circuitBreakerProvider, getRankingConfig()),
+      screeningProvider: getScreeningProvider(log, stage),
+      quoteAttributionRepository: new MockQuoteAttributionRepository(),
+      tokenMetadataProvider: new MockTokenMetadataProvider(),
     };
   }
 
@@ -5,13 +5,16 @@ import { FieldValidator } from '../../util/validator';
 export const PostQuoteRequestBodyJoi = Joi.object({
   requestId: FieldValidator.requestId.required(),
   tokenInChainId: FieldValidator.chainId.required(),
-  tokenOutChainId: Joi.number().integer().valid(Joi.ref('tokenInChainId')).required(),
+  tokenOutChainId: FieldValidator.chainId.required(),
   swapper: FieldValidator.address.required(),
   tokenIn: FieldValidator.address.required(),
   tokenOut: FieldValidator.address.required(),
   amount: FieldValidator.amount.required(),
   type: FieldValidator.tradeType.required(),
   numOutputs: Joi.number().integer().min(1).required(),
+  // opt-in to the ranked list of quotes alongside the best quote
+  returnAll: Joi.boolean().optional(),
+  maxQuotes: Joi.number().integer().min(1).optional(),
 });
 
 export type PostQuoteRequestBody = {
@@ -24,10 +27,14 @@ export type PostQuoteRequestBody = {
   amount: string;
   type: string;
   numOutputs: number;
+  returnAll?: boolean;
+  maxQuotes?: number;
 };
 
 export const PostQuoteResponseJoi = Joi.object({
   chainId: FieldValidator.chainId.required(),
+  // only set for cross-chain quotes
+  tokenOutChainId: FieldValidator.chainId.optional(),
   requestId: FieldValidator.uuid.required(),
   tokenIn: Joi.string().required(),
   amountIn: FieldValidator.amount.required(),
@@ -40,6 +47,7 @@ export const PostQuoteResponseJoi = Joi.object({
 
 export type PostQuoteResponse = {
   chainId: number;
+  tokenOutChainId?: number;
   requestId: string;
   tokenIn: string;
   amountIn: string;
@@ -52,6 +60,8 @@ export type PostQuoteResponse = {
 
 export const URAResponseJoi = Joi.object({
   chainId: FieldValidator.chainId.required(),
+  // only set for cross-chain quotes
+  tokenOutChainId: FieldValidator.chainId.optional(),
   requestId: FieldValidator.uuid.required(),
   tokenIn: Joi.string().required(),
   amountIn: FieldValidator.amount.required(),
@@ -62,6 +72,31 @@ export const URAResponseJoi = Joi.object({
   quoteId: FieldValidator.uuid,
 });
 
+export const RankedQuoteResponseJoi = Joi.object({
+  quoteId: FieldValidator.uuid.required(),
+  filler: FieldValidator.address,
+  amountIn: FieldValidator.amount.required(),
+  amountOut: FieldValidator.amount.required(),
+  latencyMs: Joi.number().integer().min(0),
+});
+
+export type RankedQuoteResponse = {
+  quoteId: string;
+  filler?: string;
+  amountIn: string;
+  amountOut: string;
+  latencyMs?: number;
+};
+
+// the default response, plus the ranked quotes (best first) only if the request opted in
+export const URARankedResponseJoi = URAResponseJoi.keys({
+  quotes: Joi.array().items(RankedQuoteResponseJoi).optional(),
+});
+
+export type PostQuoteRankedResponse = PostQuoteResponse & {
+  quotes?: RankedQuoteResponse[];
+};
+
 export const RfqResponseJoi = Joi.object({
   chainId: FieldValidator.chainId.required(),
   requestId: FieldValidator.uuid.required(),
@@ -71,6 +106,8 @@ export const RfqResponseJoi = Joi.object({
   amountOut: FieldValidator.amount.required(),
   filler: FieldValidator.address.optional(),
   quoteId: FieldValidator.uuid,
+  // eip-191 signature over the quote by one of the filler's registered addresses
+  signature: Joi.string().optional(),
 });
 
 export type RfqResponse = {
@@ -82,4 +119,5 @@ export type RfqResponse = {
   amountOut: string;
   quoteId: string;
   filler?: string;
+  signature?: string;
 };
@@ -6,6 +6,7 @@ export interface FillerComplianceConfiguration {
 export interface FillerComplianceConfigurationProvider {
   getConfigs(): Promise<FillerComplianceConfiguration[]>;
   // getExcludedAddrToEndpointsMap(): Promise<Map<string, Set<string>>>;
+  // excluded addresses are lowercased
   getEndpointToExcludedAddrsMap(): Promise<Map<string, Set<string>>>;
 }
 
@@ -15,7 +15,7 @@ export class MockFillerComplianceConfigurationProvider implements FillerComplian
           map.set(endpoint, new Set<string>());
         }
         config.addresses.forEach((address) => {
-          map.get(endpoint)?.add(address);
+          map.get(endpoint)?.add(address.toLowerCase());
         });
       });
     });
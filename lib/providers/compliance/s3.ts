@@ -8,40 +8,39 @@ export class S3FillerComplianceConfigurationProvider implements FillerCompliance
   private log: Logger;
   private configs: FillerComplianceConfiguration[];
   private endpointToExcludedAddrsMap: Map<string, Set<string>>;
+  private lastUpdatedTimestamp: number;
+
+  // try to refetch configs every 5 mins
+  private static UPDATE_PERIOD_MS = 5 * 60000;
 
   constructor(_log: Logger, private bucket: string, private key: string) {
     this.configs = [];
     this.log = _log.child({ quoter: 'S3FillerComplianceConfigurationProvider' });
     this.endpointToExcludedAddrsMap = new Map<string, Set<string>>();
+    this.lastUpdatedTimestamp = 0;
   }
+
   async getEndpointToExcludedAddrsMap(): Promise<Map<string, Set<string>>> {
-    if (this.configs.length === 0) {
-      await this.fetchConfigs();
-    }
-    if (this.endpointToExcludedAddrsMap.size > 0) {
-      return this.endpointToExcludedAddrsMap;
-    }
-    this.configs.forEach((config) => {
-      config.endpoints.forEach((endpoint) => {
-        if (!this.endpointToExcludedAddrsMap.has(endpoint)) {
-          this.endpointToExcludedAddrsMap.set(endpoint, new Set<string>());
-        }
-        config.addresses.forEach((address) => {
-          this.endpointToExcludedAddrsMap.get(endpoint)?.add(address);
-        });
-      });
-    });
+    await this.refreshConfigs();
     return this.endpointToExcludedAddrsMap;
   }
 
   async getConfigs(): Promise<FillerComplianceConfiguration[]> {
-    if (this.configs.length === 0) {
-      await this.fetchConfigs();
-    }
+    await this.refreshConfigs();
     return this.configs;
   }
 
-  async fetchConfigs(): Promise<void> {
+  // a failed fetch is retried on the next call rather than after the update period
+  private async refreshConfigs(): Promise<void> {
+    if (Date.now() - this.lastUpdatedTimestamp > S3FillerComplianceConfigurationProvider.UPDATE_PERIOD_MS) {
+      if (await this.fetchConfigs()) {
+        this.lastUpdatedTimestamp = Date.now();
+      }
+    }
+  }
+
+  // keeps the last fetched configs if the fetch fails, returns whether it succeeded
+  async fetchConfigs(): Promise<boolean> {
     const s3Client = new S3Client({});
     try {
       const s3Res = await s3Client.send(
@@ -52,12 +51,25 @@ export class S3FillerComplianceConfigurationProvider implements FillerCompliance
       );
       const s3Body = checkDefined(s3Res.Body, 's3Res.Body is undefined');
       this.configs = JSON.parse(await s3Body.transformToString()) as FillerComplianceConfiguration[];
+      this.endpointToExcludedAddrsMap = new Map<string, Set<string>>();
+      this.configs.forEach((config) => {
+        config.endpoints.forEach((endpoint) => {
+          if (!this.endpointToExcludedAddrsMap.has(endpoint)) {
+            this.endpointToExcludedAddrsMap.set(endpoint, new Set<string>());
+          }
+          config.addresses.forEach((address) => {
+            this.endpointToExcludedAddrsMap.get(endpoint)?.add(address.toLowerCase());
+          });
+        });
+      });
       this.log.info({ configsLength: this.configs.map((c) => c.addresses.length) }, `Fetched configs`);
+      return true;
     } catch (e: any) {
       this.log.info(
         { name: e.name, message: e.message },
         'Error fetching compliance s3 config. Default to allowing all'
       );
+      return false;
     }
   }
 }
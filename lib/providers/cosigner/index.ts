@@ -0,0 +1,19 @@
+import { CosignerKeyType } from './registry';
+
+export interface Cosigner {
+  getAddress(): Promise<string>;
+  signDigest(digest: Buffer | string): Promise<string>;
+}
+
+// a cosigner key and the window, in epoch seconds, in which it signs orders
+// rotations overlap the old key's activeUntil with the new key's activeFrom
+export interface CosignerKeyConfig {
+  type: CosignerKeyType;
+  keyId?: string;
+  privateKey?: string;
+  activeFrom?: number;
+  activeUntil?: number;
+}
+
+export * from './local';
+export * from './registry';
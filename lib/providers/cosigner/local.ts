@@ -0,0 +1,19 @@
+import { ethers, Wallet } from 'ethers';
+
+import { Cosigner } from '.';
+
+export class LocalCosigner implements Cosigner {
+  private wallet: Wallet;
+
+  constructor(privateKey: string) {
+    this.wallet = new Wallet(privateKey);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  async signDigest(digest: Buffer | string): Promise<string> {
+    return ethers.utils.joinSignature(this.wallet._signingKey().signDigest(digest));
+  }
+}
@@ -0,0 +1,138 @@
+import { KMSClient } from '@aws-sdk/client-kms';
+import { KmsSigner } from '@uniswap/signer';
+import { default as Logger } from 'bunyan';
+import { ethers } from 'ethers';
+import Joi from 'joi';
+
+import { Cosigner, CosignerKeyConfig } from '.';
+import { ChainRegistry, CHAIN_REGISTRY } from '../../config/chains';
+import { STAGE } from '../../util/stage';
+import { LocalCosigner } from './local';
+
+export enum CosignerKeyType {
+  KMS = 'kms',
+  // a raw private key, for tests and dev only
+  LOCAL = 'local',
+}
+
+export interface RegisteredCosigner {
+  address: string;
+  signer: Cosigner;
+  // epoch seconds, unbounded if unset
+  activeFrom?: number;
+  activeUntil?: number;
+}
+
+const CosignerKeyConfigsJoi = Joi.array()
+  .items(
+    Joi.object({
+      type: Joi.string()
+        .valid(...Object.values(CosignerKeyType))
+        .required(),
+      keyId: Joi.string().when('type', { is: CosignerKeyType.KMS, then: Joi.required() }),
+      privateKey: Joi.string().when('type', { is: CosignerKeyType.LOCAL, then: Joi.required() }),
+      activeFrom: Joi.number().integer().min(0),
+      activeUntil: Joi.number().integer().min(0),
+    }).custom((config: CosignerKeyConfig) => {
+      if (
+        config.activeFrom !== undefined &&
+        config.activeUntil !== undefined &&
+        config.activeUntil <= config.activeFrom
+      ) {
+        throw new Error('activeUntil must be after activeFrom');
+      }
+      return config;
+    })
+  )
+  .min(1);
+
+export function parseCosignerKeyConfigs(json: string, stage?: string): CosignerKeyConfig[] {
+  const { error, value } = CosignerKeyConfigsJoi.validate(JSON.parse(json));
+  if (error) {
+    throw new Error(`Invalid cosigner keys: ${error.message}`);
+  }
+  if (stage === STAGE.PROD && value.some((config: CosignerKeyConfig) => config.type === CosignerKeyType.LOCAL)) {
+    throw new Error('Invalid cosigner keys: local keys are not allowed in prod');
+  }
+  return value;
+}
+
+const nowInSeconds = (): number => Math.floor(Date.now() / 1000);
+
+// the cosigner keys an order may declare, each active for its own window
+export class CosignerRegistry {
+  private log: Logger;
+
+  constructor(_log: Logger, private cosigners: RegisteredCosigner[]) {
+    this.log = _log.child({ quoter: 'CosignerRegistry' });
+  }
+
+  static async fromKeyConfigs(
+    log: Logger,
+    configs: CosignerKeyConfig[],
+    kmsClient?: KMSClient
+  ): Promise<CosignerRegistry> {
+    const cosigners = await Promise.all(
+      configs.map(async (config) => {
+        const signer = createSigner(config, kmsClient);
+        return {
+          address: await signer.getAddress(),
+          signer,
+          activeFrom: config.activeFrom,
+          activeUntil: config.activeUntil,
+        };
+      })
+    );
+    const registry = new CosignerRegistry(log, cosigners);
+    if (registry.getActiveCosigners().length === 0) {
+      registry.log.error({ cosigners: registry.cosigners.map((c) => c.address) }, 'No active cosigner');
+    }
+    return registry;
+  }
+
+  public getActiveCosigners(now = nowInSeconds()): RegisteredCosigner[] {
+    return this.cosigners.filter(
+      (c) => (c.activeFrom === undefined || c.activeFrom <= now) && (c.activeUntil === undefined || now < c.activeUntil)
+    );
+  }
+
+  public getActiveAddresses(now = nowInSeconds()): string[] {
+    return [...new Set(this.getActiveCosigners(now).map((c) => c.address))];
+  }
+
+  // the signer for the cosigner an order declares, if that key is active
+  public getSigner(address: string, now = nowInSeconds()): Cosigner | undefined {
+    if (!ethers.utils.isAddress(address)) {
+      return undefined;
+    }
+    const checksummed = ethers.utils.getAddress(address);
+    return this.getActiveCosigners(now).find((c) => ethers.utils.getAddress(c.address) === checksummed)?.signer;
+  }
+}
+
+// a chain's own cosigner must be an active key, or none of its orders could be cosigned
+export function validateChainCosigners(
+  cosignerRegistry: CosignerRegistry,
+  chains: ChainRegistry = CHAIN_REGISTRY,
+  now = nowInSeconds()
+): void {
+  const active = cosignerRegistry.getActiveAddresses(now).map((address) => ethers.utils.getAddress(address));
+  const errors = Object.entries(chains)
+    .filter(([, config]) => config.cosigner && !active.includes(ethers.utils.getAddress(config.cosigner)))
+    .map(([chainId, config]) => `chain ${chainId}: cosigner ${config.cosigner} is not an active cosigner key`);
+  if (errors.length > 0) {
+    throw new Error(`Invalid chain registry: ${errors.join('; ')}`);
+  }
+}
+
+function createSigner(config: CosignerKeyConfig, kmsClient?: KMSClient): Cosigner {
+  switch (config.type) {
+    case CosignerKeyType.KMS:
+      if (!kmsClient) {
+        throw new Error('A KMS client is needed for KMS cosigner keys');
+      }
+      return new KmsSigner(kmsClient, config.keyId!);
+    case CosignerKeyType.LOCAL:
+      return new LocalCosigner(config.privateKey!);
+  }
+}
@@ -1,7 +1,46 @@
 import { Order } from '@uniswap/uniswapx-sdk';
 
+export enum OrderPostStatus {
+  POSTED = 'POSTED',
+  // the order service refused the order, e.g. a 4xx
+  REJECTED = 'REJECTED',
+  // the order service could not be reached or failed, e.g. a 5xx or timeout
+  FAILED = 'FAILED',
+}
+
+export interface OrderPostResult {
+  status: OrderPostStatus;
+  // http status of the last attempt, if a response was received
+  statusCode?: number;
+  // error code returned by the order service, if any
+  errorCode?: string;
+  detail?: string;
+  retryable: boolean;
+  attempts: number;
+}
+
+// order statuses reported by the order service
+export enum OrderStatus {
+  OPEN = 'open',
+  FILLED = 'filled',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
+  ERROR = 'error',
+  INSUFFICIENT_FUNDS = 'insufficient-funds',
+  // the order service could not be reached or does not know the order
+  UNKNOWN = 'unknown',
+}
+
+export interface OrderStatusResult {
+  orderHash: string;
+  status: OrderStatus;
+  // the fill transaction, once filled
+  txHash?: string;
+}
+
 export interface OrderServiceProvider {
-  postOrder(order: Order, signature: string, quoteId?: string): Promise<void>;
+  postOrder(order: Order, signature: string, quoteId?: string): Promise<OrderPostResult>;
+  getOrderStatus(orderHash: string): Promise<OrderStatusResult>;
 }
 
 export * from './mock';
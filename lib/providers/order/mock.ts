@@ -1,13 +1,22 @@
 import { Order } from '@uniswap/uniswapx-sdk';
 
-import { OrderServiceProvider } from '.';
+import { OrderPostResult, OrderPostStatus, OrderServiceProvider, OrderStatus, OrderStatusResult } from '.';
 
 export class MockOrderServiceProvider implements OrderServiceProvider {
   public orders: string[] = [];
+  public statuses: { [orderHash: string]: OrderStatus } = {};
 
-  constructor() {}
+  constructor(private result: OrderPostResult = { status: OrderPostStatus.POSTED, retryable: false, attempts: 1 }) {}
 
-  async postOrder(order: Order, _signature: string, _quoteId?: string): Promise<void> {
-    this.orders.push(order.serialize());
+  async postOrder(order: Order, _signature: string, _quoteId?: string): Promise<OrderPostResult> {
+    if (this.result.status === OrderPostStatus.POSTED) {
+      this.orders.push(order.serialize());
+      this.statuses[order.hash()] = OrderStatus.OPEN;
+    }
+    return this.result;
+  }
+
+  async getOrderStatus(orderHash: string): Promise<OrderStatusResult> {
+    return { orderHash, status: this.statuses[orderHash] ?? OrderStatus.UNKNOWN };
   }
 }
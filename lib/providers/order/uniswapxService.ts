@@ -1,39 +1,125 @@
 import { Order } from '@uniswap/uniswapx-sdk';
-import axios from 'axios';
+import axios, { AxiosError } from 'axios';
 import Logger from 'bunyan';
 
-import { OrderServiceProvider } from '.';
+import { OrderPostResult, OrderPostStatus, OrderServiceProvider, OrderStatus, OrderStatusResult } from '.';
+import { sleep } from '../../util/time';
 
 const ORDER_SERVICE_TIMEOUT_MS = 500;
 
+export interface OrderPostRetryOptions {
+  maxAttempts: number;
+  // delay before the first retry, doubled for each later one
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_ORDER_POST_RETRY_OPTIONS: OrderPostRetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 50,
+  maxDelayMs: 200,
+};
+
 export class UniswapXServiceProvider implements OrderServiceProvider {
   private log: Logger;
 
-  constructor(_log: Logger, private uniswapxServiceUrl: string) {
-    this.log = _log.child({ quoter: 'WebhookQuoter' });
+  constructor(
+    _log: Logger,
+    private uniswapxServiceUrl: string,
+    private retryOptions: OrderPostRetryOptions = DEFAULT_ORDER_POST_RETRY_OPTIONS
+  ) {
+    this.log = _log.child({ quoter: 'UniswapXServiceProvider' });
   }
 
-  async postOrder(order: Order, signature: string, quoteId?: string): Promise<void> {
-    this.log.info({ orderHash: order.hash() }, 'Posting order to UniswapX Service');
+  async postOrder(order: Order, signature: string, quoteId?: string): Promise<OrderPostResult> {
+    const orderHash = order.hash();
+    this.log.info({ orderHash }, 'Posting order to UniswapX Service');
 
     const axiosConfig = {
       timeout: ORDER_SERVICE_TIMEOUT_MS,
     };
+    const body = {
+      encodedOrder: order.serialize(),
+      signature: signature,
+      chainId: order.chainId,
+      quoteId: quoteId,
+    };
+
+    let result: OrderPostResult;
+    // set once an attempt fails in a way which may still have stored the order, e.g. a timeout
+    let mayHavePosted = false;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await axios.post(this.uniswapxServiceUrl, body, axiosConfig);
+        this.log.info({ orderHash, attempt }, 'Order posted to UniswapX Service');
+        return { status: OrderPostStatus.POSTED, statusCode: response.status, retryable: false, attempts: attempt };
+      } catch (e) {
+        result = toFailedResult(e, attempt);
+        this.log.error({ orderHash, error: e, result }, 'Error posting order to UniswapX Service');
+      }
+
+      if (result.status === OrderPostStatus.FAILED && result.statusCode !== 429) {
+        mayHavePosted = true;
+      }
+
+      if (!result.retryable || attempt >= this.retryOptions.maxAttempts) {
+        // e.g. a retry rejected as a duplicate, or a last attempt timing out after the order was stored
+        if (mayHavePosted && (await this.isKnownOrder(orderHash))) {
+          this.log.info({ orderHash, attempt }, 'Order was posted by an earlier attempt');
+          return { status: OrderPostStatus.POSTED, retryable: false, attempts: attempt };
+        }
+        return result;
+      }
+      await sleep(Math.min(this.retryOptions.baseDelayMs * 2 ** (attempt - 1), this.retryOptions.maxDelayMs));
+    }
+  }
 
+  async getOrderStatus(orderHash: string): Promise<OrderStatusResult> {
+    const ordersUrl = toOrdersUrl(this.uniswapxServiceUrl);
     try {
-      await axios.post(
-        this.uniswapxServiceUrl,
-        {
-          encodedOrder: order.serialize(),
-          signature: signature,
-          chainId: order.chainId,
-          quoteId: quoteId,
-        },
-        axiosConfig
-      );
-      this.log.info({ orderHash: order.hash() }, 'Order posted to UniswapX Service');
+      const response = await axios.get(ordersUrl, {
+        params: { orderHash },
+        timeout: ORDER_SERVICE_TIMEOUT_MS,
+      });
+      const order = response.data?.orders?.[0];
+      if (!order) {
+        this.log.info({ orderHash }, 'Order not found in UniswapX Service');
+        return { orderHash, status: OrderStatus.UNKNOWN };
+      }
+      const status = Object.values(OrderStatus).includes(order.orderStatus) ? order.orderStatus : OrderStatus.UNKNOWN;
+      return { orderHash, status, txHash: order.txHash };
     } catch (e) {
-      this.log.error({ error: e }, 'Error posting order to UniswapX Service');
+      this.log.error({ orderHash, error: e }, 'Error getting order status from UniswapX Service');
+      return { orderHash, status: OrderStatus.UNKNOWN };
     }
   }
+
+  private async isKnownOrder(orderHash: string): Promise<boolean> {
+    const { status } = await this.getOrderStatus(orderHash);
+    return status !== OrderStatus.UNKNOWN;
+  }
+}
+
+// orders are posted to .../order and listed at .../orders, with or without a trailing slash
+export function toOrdersUrl(orderServiceUrl: string): string {
+  const url = new URL(orderServiceUrl);
+  const path = url.pathname.replace(/\/+$/, '');
+  url.pathname = path.endsWith('/order') ? `${path}s` : `${path}/orders`;
+  return url.toString();
+}
+
+// timeouts, network errors, throttling and 5xx responses are retryable, other 4xx responses are not
+function toFailedResult(e: unknown, attempts: number): OrderPostResult {
+  if (!(e instanceof AxiosError)) {
+    return { status: OrderPostStatus.FAILED, detail: `${e}`, retryable: false, attempts };
+  }
+  const statusCode = e.response?.status;
+  const data = e.response?.data;
+  const errorCode = typeof data?.errorCode === 'string' ? data.errorCode : undefined;
+  const detail = typeof data?.detail === 'string' ? data.detail : e.message;
+
+  if (statusCode !== undefined && statusCode >= 400 && statusCode < 500 && statusCode !== 429) {
+    return { status: OrderPostStatus.REJECTED, statusCode, errorCode, detail, retryable: false, attempts };
+  }
+  return { status: OrderPostStatus.FAILED, statusCode, errorCode, detail, retryable: true, attempts };
 }
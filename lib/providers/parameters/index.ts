@@ -0,0 +1,31 @@
+import { OutputImprovementPolicy } from './policy';
+
+// Overrides for the cosigner parameters of hard quotes. All match fields are optional;
+// an unset field matches anything
+export interface ParameterRule {
+  // included in logs and responses to attribute each decision
+  id: string;
+  chainId?: number;
+  tokenIn?: string;
+  tokenOut?: string;
+  // size bucket on the winning quote's amountIn, in tokenIn base units: [minAmountIn, maxAmountIn)
+  minAmountIn?: string;
+  maxAmountIn?: string;
+  // bucket on the winning filler's fade rate: [minFadeRate, maxFadeRate)
+  minFadeRate?: number;
+  maxFadeRate?: number;
+  // unset parameters fall back to the chain defaults
+  exclusivityOverrideBps?: number;
+  decayStartDelaySecs?: number;
+  decayDurationSecs?: number;
+  outputImprovement?: OutputImprovementPolicy;
+}
+
+export interface ParameterRulesProvider {
+  // rules in priority order, the first match wins
+  getRules(): Promise<ParameterRule[]>;
+}
+
+export * from './mock';
+export * from './policy';
+export * from './s3';
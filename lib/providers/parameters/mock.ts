@@ -0,0 +1,9 @@
+import { ParameterRule, ParameterRulesProvider } from '.';
+
+export class MockParameterRulesProvider implements ParameterRulesProvider {
+  constructor(private rules: ParameterRule[]) {}
+
+  async getRules(): Promise<ParameterRule[]> {
+    return this.rules;
+  }
+}
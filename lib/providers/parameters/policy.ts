@@ -0,0 +1,133 @@
+import { default as Logger } from 'bunyan';
+import { BigNumber } from 'ethers';
+
+import { ParameterRule, ParameterRulesProvider } from '.';
+import { getChainConfiguration } from '../../config/chains';
+import { QuoteRequest, QuoteResponse } from '../../entities';
+import { CircuitBreakerConfigurationProvider } from '../circuit-breaker';
+
+export enum OutputImprovementPolicy {
+  // every output paying tokenOut, including fees, scales with the quote
+  PRO_RATA = 'pro-rata',
+  // the swapper's output takes the whole improvement
+  SWAPPER_ONLY = 'swapper-only',
+}
+
+export const DEFAULT_OUTPUT_IMPROVEMENT_POLICY = OutputImprovementPolicy.SWAPPER_ONLY;
+
+export interface CosignerParameters {
+  exclusivityOverrideBps: number;
+  decayStartDelaySecs: number;
+  decayDurationSecs: number;
+  outputImprovement: OutputImprovementPolicy;
+  // the matching rule, if any; otherwise the chain defaults were used
+  ruleId?: string;
+  fillerFadeRate?: number;
+}
+
+export interface ParameterRuleContext {
+  chainId: number;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: BigNumber;
+  fadeRate?: number;
+}
+
+export function defaultCosignerParameters(chainId: number): CosignerParameters {
+  const { exclusivityOverrideBps, decayStartDelaySecs, decayDurationSecs } = getChainConfiguration(chainId);
+  return {
+    exclusivityOverrideBps,
+    decayStartDelaySecs,
+    decayDurationSecs,
+    outputImprovement: DEFAULT_OUTPUT_IMPROVEMENT_POLICY,
+  };
+}
+
+export function ruleMatches(rule: ParameterRule, context: ParameterRuleContext): boolean {
+  if (rule.chainId !== undefined && rule.chainId !== context.chainId) {
+    return false;
+  }
+  if (rule.tokenIn && rule.tokenIn.toLowerCase() !== context.tokenIn.toLowerCase()) {
+    return false;
+  }
+  if (rule.tokenOut && rule.tokenOut.toLowerCase() !== context.tokenOut.toLowerCase()) {
+    return false;
+  }
+  if (rule.minAmountIn && context.amountIn.lt(rule.minAmountIn)) {
+    return false;
+  }
+  if (rule.maxAmountIn && context.amountIn.gte(rule.maxAmountIn)) {
+    return false;
+  }
+  if (rule.minFadeRate !== undefined || rule.maxFadeRate !== undefined) {
+    // fade rate buckets never match fillers without a known fade rate
+    if (context.fadeRate === undefined) {
+      return false;
+    }
+    if (rule.minFadeRate !== undefined && context.fadeRate < rule.minFadeRate) {
+      return false;
+    }
+    if (rule.maxFadeRate !== undefined && context.fadeRate >= rule.maxFadeRate) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// picks the cosigner parameters for a hard quote from the first matching rule, falling back to the chain defaults
+export class ParameterPolicy {
+  private log: Logger;
+
+  constructor(
+    _log: Logger,
+    private rulesProvider: ParameterRulesProvider,
+    private circuitBreakerProvider: CircuitBreakerConfigurationProvider
+  ) {
+    this.log = _log.child({ quoter: 'ParameterPolicy' });
+  }
+
+  public async select(request: QuoteRequest, quote: QuoteResponse): Promise<CosignerParameters> {
+    const defaults = defaultCosignerParameters(request.tokenInChainId);
+    const fadeRate = await this.getFadeRate(quote.fillerHash);
+    const context: ParameterRuleContext = {
+      chainId: request.tokenInChainId,
+      tokenIn: request.tokenIn,
+      tokenOut: request.tokenOut,
+      amountIn: quote.amountIn,
+      fadeRate,
+    };
+
+    let rules: ParameterRule[] = [];
+    try {
+      rules = await this.rulesProvider.getRules();
+    } catch (e) {
+      this.log.error({ error: e }, 'Error getting parameter rules, using chain defaults');
+    }
+
+    const rule = rules.find((r) => ruleMatches(r, context));
+    if (!rule) {
+      return { ...defaults, fillerFadeRate: fadeRate };
+    }
+    return {
+      exclusivityOverrideBps: rule.exclusivityOverrideBps ?? defaults.exclusivityOverrideBps,
+      decayStartDelaySecs: rule.decayStartDelaySecs ?? defaults.decayStartDelaySecs,
+      decayDurationSecs: rule.decayDurationSecs ?? defaults.decayDurationSecs,
+      outputImprovement: rule.outputImprovement ?? defaults.outputImprovement,
+      ruleId: rule.id,
+      fillerFadeRate: fadeRate,
+    };
+  }
+
+  private async getFadeRate(fillerHash?: string): Promise<number | undefined> {
+    if (!fillerHash) {
+      return undefined;
+    }
+    try {
+      const configs = await this.circuitBreakerProvider.getConfigurations();
+      return configs.find((c) => c.hash === fillerHash)?.fadeRate;
+    } catch (e) {
+      this.log.error({ error: e }, 'Error getting fade rates, matching without them');
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { default as Logger } from 'bunyan';
+import Joi from 'joi';
+
+import { OutputImprovementPolicy, ParameterRule, ParameterRulesProvider } from '.';
+import { checkDefined } from '../../preconditions/preconditions';
+import { FieldValidator } from '../../util/validator';
+
+const ParameterRuleJoi = Joi.object({
+  id: Joi.string().required(),
+  chainId: Joi.number().integer(),
+  tokenIn: FieldValidator.address,
+  tokenOut: FieldValidator.address,
+  minAmountIn: FieldValidator.amount,
+  maxAmountIn: FieldValidator.amount,
+  minFadeRate: Joi.number().min(0).max(1),
+  maxFadeRate: Joi.number().min(0).max(1),
+  exclusivityOverrideBps: Joi.number().integer().min(0).max(10000),
+  decayStartDelaySecs: Joi.number().integer().min(0),
+  decayDurationSecs: Joi.number().integer().min(1),
+  outputImprovement: Joi.string().valid(...Object.values(OutputImprovementPolicy)),
+});
+
+const ParameterRulesJoi = Joi.array().items(ParameterRuleJoi);
+
+export class S3ParameterRulesProvider implements ParameterRulesProvider {
+  private log: Logger;
+  private rules: ParameterRule[];
+  private lastUpdatedTimestamp: number;
+  private client: S3Client;
+
+  // try to refetch rules every 5 mins
+  private static UPDATE_PERIOD_MS = 5 * 60000;
+
+  constructor(_log: Logger, private bucket: string, private key: string) {
+    this.log = _log.child({ quoter: 'S3ParameterRulesProvider' });
+    this.rules = [];
+    this.lastUpdatedTimestamp = 0;
+    this.client = new S3Client({});
+  }
+
+  async getRules(): Promise<ParameterRule[]> {
+    if (Date.now() - this.lastUpdatedTimestamp > S3ParameterRulesProvider.UPDATE_PERIOD_MS) {
+      if (await this.fetchRules()) {
+        this.lastUpdatedTimestamp = Date.now();
+      }
+    }
+    return this.rules;
+  }
+
+  // keeps the last fetched rules if the fetch fails or the rules are invalid, returns whether it succeeded
+  async fetchRules(): Promise<boolean> {
+    try {
+      const s3Res = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: this.key,
+        })
+      );
+      const s3Body = checkDefined(s3Res.Body, 's3Res.Body is undefined');
+      const validated = ParameterRulesJoi.validate(JSON.parse(await s3Body.transformToString()));
+      if (validated.error) {
+        throw validated.error;
+      }
+      this.rules = validated.value as ParameterRule[];
+      this.log.info({ rules: this.rules }, 'Fetched parameter rules');
+      return true;
+    } catch (e: any) {
+      this.log.error(
+        { name: e.name, message: e.message },
+        'Error fetching parameter rules from S3; keeping the last rules'
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { BigNumber } from 'ethers';
+
+// a static price for a token pair, in base units of tokenOut per base unit of tokenIn
+// so no token decimals are needed, e.g. "0.00000000185" for 1850 USDC per WETH
+export type ReferencePrice = {
+  chainId: number;
+  tokenIn: string;
+  tokenOut: string;
+  price: string;
+};
+
+export interface ReferencePriceProvider {
+  // base units of tokenOut per base unit of tokenIn, scaled by 1e18
+  // pairs only listed the other way round are inverted
+  getPrice(chainId: number, tokenIn: string, tokenOut: string): Promise<BigNumber | undefined>;
+}
+
+export * from './mock';
+export * from './price-table';
+export * from './s3';
@@ -0,0 +1,16 @@
+import { BigNumber } from 'ethers';
+
+import { ReferencePrice, ReferencePriceProvider } from '.';
+import { ReferencePriceTable } from './price-table';
+
+export class MockReferencePriceProvider implements ReferencePriceProvider {
+  private table: ReferencePriceTable;
+
+  constructor(prices: ReferencePrice[] = []) {
+    this.table = new ReferencePriceTable(prices);
+  }
+
+  async getPrice(chainId: number, tokenIn: string, tokenOut: string): Promise<BigNumber | undefined> {
+    return this.table.getPrice(chainId, tokenIn, tokenOut);
+  }
+}
@@ -0,0 +1,38 @@
+import { BigNumber, ethers } from 'ethers';
+
+import { ReferencePrice } from '.';
+
+export const PRICE_SCALE = ethers.constants.WeiPerEther;
+
+// reference prices keyed by chain and lowercased pair
+export class ReferencePriceTable {
+  private prices = new Map<string, BigNumber>();
+
+  // throws if a price is not a positive decimal with at most 18 places
+  constructor(entries: ReferencePrice[]) {
+    entries.forEach((entry) => {
+      const price = ethers.utils.parseUnits(entry.price, 18);
+      if (price.lte(0)) {
+        throw new Error(`Reference price for ${entry.tokenIn}/${entry.tokenOut} must be positive`);
+      }
+      this.prices.set(pairKey(entry.chainId, entry.tokenIn, entry.tokenOut), price);
+    });
+  }
+
+  public getPrice(chainId: number, tokenIn: string, tokenOut: string): BigNumber | undefined {
+    const price = this.prices.get(pairKey(chainId, tokenIn, tokenOut));
+    if (price) {
+      return price;
+    }
+    const inverse = this.prices.get(pairKey(chainId, tokenOut, tokenIn));
+    return inverse ? PRICE_SCALE.mul(PRICE_SCALE).div(inverse) : undefined;
+  }
+
+  public get size(): number {
+    return this.prices.size;
+  }
+}
+
+function pairKey(chainId: number, tokenIn: string, tokenOut: string): string {
+  return `${chainId}-${tokenIn.toLowerCase()}-${tokenOut.toLowerCase()}`;
+}
@@ -0,0 +1,68 @@
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { default as Logger } from 'bunyan';
+import { BigNumber } from 'ethers';
+
+import { ReferencePrice, ReferencePriceProvider } from '.';
+import { checkDefined } from '../../preconditions/preconditions';
+import { ReferencePriceTable } from './price-table';
+
+// Loads reference prices, a JSON list of pair prices, from S3
+export class S3ReferencePriceProvider implements ReferencePriceProvider {
+  private log: Logger;
+  private table: ReferencePriceTable;
+  private lastUpdatedTimestamp: number;
+  private pendingFetch: Promise<boolean> | undefined;
+  private client: S3Client;
+
+  // try to refetch the prices every 5 mins
+  private static UPDATE_PERIOD_MS = 5 * 60000;
+
+  constructor(_log: Logger, private bucket: string, private key: string) {
+    this.log = _log.child({ quoter: 'S3ReferencePriceProvider' });
+    this.table = new ReferencePriceTable([]);
+    this.lastUpdatedTimestamp = 0;
+    this.client = new S3Client({});
+  }
+
+  async getPrice(chainId: number, tokenIn: string, tokenOut: string): Promise<BigNumber | undefined> {
+    if (Date.now() - this.lastUpdatedTimestamp > S3ReferencePriceProvider.UPDATE_PERIOD_MS) {
+      await this.refresh();
+    }
+    return this.table.getPrice(chainId, tokenIn, tokenOut);
+  }
+
+  // prices are checked on the quote path, so concurrent quotes share one fetch
+  // and a failed fetch is not retried until the next update period
+  private refresh(): Promise<boolean> {
+    if (!this.pendingFetch) {
+      this.pendingFetch = this.fetchPrices().finally(() => {
+        this.lastUpdatedTimestamp = Date.now();
+        this.pendingFetch = undefined;
+      });
+    }
+    return this.pendingFetch;
+  }
+
+  // keeps the last fetched prices if the fetch fails or the file is invalid, returns whether it succeeded
+  async fetchPrices(): Promise<boolean> {
+    try {
+      const s3Res = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: this.key,
+        })
+      );
+      const s3Body = checkDefined(s3Res.Body, 's3Res.Body is undefined');
+      const prices = JSON.parse(await s3Body.transformToString()) as ReferencePrice[];
+      this.table = new ReferencePriceTable(prices);
+      this.log.info({ pairs: this.table.size }, 'Fetched reference prices');
+      return true;
+    } catch (e: any) {
+      this.log.error(
+        { name: e.name, message: e.message },
+        'Error fetching reference prices from S3; keeping the last prices'
+      );
+      return false;
+    }
+  }
+}
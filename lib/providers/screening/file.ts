@@ -0,0 +1,37 @@
+import { default as Logger } from 'bunyan';
+import { readFile } from 'fs/promises';
+
+import { SwapperScreeningProvider } from '.';
+import { ScreeningUnavailableError } from '../../util/errors';
+
+// Loads the blocklist, a JSON array of addresses, from a local file once
+// a failed read is retried on the next request
+export class FileSwapperScreeningProvider implements SwapperScreeningProvider {
+  private log: Logger;
+  private blocklist: Promise<Set<string>> | undefined;
+
+  constructor(_log: Logger, private path: string) {
+    this.log = _log.child({ quoter: 'FileSwapperScreeningProvider' });
+  }
+
+  async getBlockedAddresses(addresses: string[]): Promise<string[]> {
+    if (!this.blocklist) {
+      this.blocklist = this.readBlocklist();
+    }
+    let blocklist: Set<string>;
+    try {
+      blocklist = await this.blocklist;
+    } catch (e: any) {
+      this.blocklist = undefined;
+      this.log.error({ path: this.path, name: e.name, message: e.message }, 'Error reading swapper blocklist file');
+      throw new ScreeningUnavailableError();
+    }
+    return addresses.filter((address) => blocklist.has(address.toLowerCase()));
+  }
+
+  private async readBlocklist(): Promise<Set<string>> {
+    const addresses = JSON.parse(await readFile(this.path, 'utf8')) as string[];
+    this.log.info({ path: this.path, size: addresses.length }, 'Loaded swapper blocklist from file');
+    return new Set(addresses.map((address) => address.toLowerCase()));
+  }
+}
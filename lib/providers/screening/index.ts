@@ -0,0 +1,8 @@
+export interface SwapperScreeningProvider {
+  // returns the given addresses which are on the blocklist
+  getBlockedAddresses(addresses: string[]): Promise<string[]>;
+}
+
+export * from './file';
+export * from './mock';
+export * from './s3';
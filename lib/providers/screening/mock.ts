@@ -0,0 +1,13 @@
+import { SwapperScreeningProvider } from '.';
+
+export class MockSwapperScreeningProvider implements SwapperScreeningProvider {
+  private blocklist: Set<string>;
+
+  constructor(blocklist: string[]) {
+    this.blocklist = new Set(blocklist.map((address) => address.toLowerCase()));
+  }
+
+  async getBlockedAddresses(addresses: string[]): Promise<string[]> {
+    return addresses.filter((address) => this.blocklist.has(address.toLowerCase()));
+  }
+}
@@ -0,0 +1,60 @@
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { default as Logger } from 'bunyan';
+
+import { SwapperScreeningProvider } from '.';
+import { checkDefined } from '../../preconditions/preconditions';
+import { ScreeningUnavailableError } from '../../util/errors';
+
+// Loads the blocklist, a JSON array of addresses, from S3
+// requests are refused until the blocklist has loaded once
+export class S3SwapperScreeningProvider implements SwapperScreeningProvider {
+  private log: Logger;
+  private blocklist: Set<string> | undefined;
+  private lastUpdatedTimestamp: number;
+  private client: S3Client;
+
+  // try to refetch the blocklist every 5 mins
+  private static UPDATE_PERIOD_MS = 5 * 60000;
+
+  constructor(_log: Logger, private bucket: string, private key: string) {
+    this.log = _log.child({ quoter: 'S3SwapperScreeningProvider' });
+    this.lastUpdatedTimestamp = 0;
+    this.client = new S3Client({});
+  }
+
+  async getBlockedAddresses(addresses: string[]): Promise<string[]> {
+    if (Date.now() - this.lastUpdatedTimestamp > S3SwapperScreeningProvider.UPDATE_PERIOD_MS) {
+      if (await this.fetchBlocklist()) {
+        this.lastUpdatedTimestamp = Date.now();
+      }
+    }
+    const blocklist = this.blocklist;
+    if (!blocklist) {
+      throw new ScreeningUnavailableError();
+    }
+    return addresses.filter((address) => blocklist.has(address.toLowerCase()));
+  }
+
+  // keeps the last fetched blocklist if the fetch fails, returns whether it succeeded
+  async fetchBlocklist(): Promise<boolean> {
+    try {
+      const s3Res = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: this.key,
+        })
+      );
+      const s3Body = checkDefined(s3Res.Body, 's3Res.Body is undefined');
+      const addresses = JSON.parse(await s3Body.transformToString()) as string[];
+      this.blocklist = new Set(addresses.map((address) => address.toLowerCase()));
+      this.log.info({ size: this.blocklist.size }, 'Fetched swapper blocklist from S3');
+      return true;
+    } catch (e: any) {
+      this.log.error(
+        { name: e.name, message: e.message, size: this.blocklist?.size },
+        'Error fetching swapper blocklist from S3; using the last fetched blocklist'
+      );
+      return false;
+    }
+  }
+}
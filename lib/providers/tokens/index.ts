@@ -0,0 +1,28 @@
+import { ChainRoute } from '../../config/chains';
+
+export interface TokenMetadata {
+  chainId: number;
+  address: string;
+  symbol: string;
+  decimals: number;
+  // USD price of one whole token, for notional sizing
+  priceUsd?: number;
+  // routes the token may be quoted on, all routes if unset
+  routes?: ChainRoute[];
+}
+
+// metadata for both sides of a request, unset for unlisted tokens
+export interface TokenPairMetadata {
+  tokenIn?: TokenMetadata;
+  tokenOut?: TokenMetadata;
+}
+
+export interface TokenMetadataProvider {
+  getToken(chainId: number, address: string): Promise<TokenMetadata | undefined>;
+  // chains without listed tokens are unrestricted for quotes but allow no hard quotes
+  isAllowedOnRoute(chainId: number, address: string, route: ChainRoute): Promise<boolean>;
+}
+
+export * from './mock';
+export * from './s3';
+export * from './token-list';
@@ -0,0 +1,19 @@
+import { TokenMetadata, TokenMetadataProvider } from '.';
+import { ChainRoute } from '../../config/chains';
+import { TokenList } from './token-list';
+
+export class MockTokenMetadataProvider implements TokenMetadataProvider {
+  private list: TokenList;
+
+  constructor(tokens: TokenMetadata[] = []) {
+    this.list = new TokenList(tokens);
+  }
+
+  async getToken(chainId: number, address: string): Promise<TokenMetadata | undefined> {
+    return this.list.getToken(chainId, address);
+  }
+
+  async isAllowedOnRoute(chainId: number, address: string, route: ChainRoute): Promise<boolean> {
+    return this.list.isAllowedOnRoute(chainId, address, route);
+  }
+}
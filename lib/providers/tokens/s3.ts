@@ -0,0 +1,67 @@
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { default as Logger } from 'bunyan';
+
+import { TokenMetadata, TokenMetadataProvider } from '.';
+import { ChainRoute } from '../../config/chains';
+import { checkDefined } from '../../preconditions/preconditions';
+import { TokenList } from './token-list';
+
+// Loads the token list, a JSON list of token metadata, from S3
+export class S3TokenMetadataProvider implements TokenMetadataProvider {
+  private log: Logger;
+  private list: TokenList;
+  private lastUpdatedTimestamp: number;
+  private client: S3Client;
+
+  // try to refetch the token list every 5 mins
+  private static UPDATE_PERIOD_MS = 5 * 60000;
+
+  constructor(_log: Logger, private bucket: string, private key: string) {
+    this.log = _log.child({ quoter: 'S3TokenMetadataProvider' });
+    this.list = new TokenList([]);
+    this.lastUpdatedTimestamp = 0;
+    this.client = new S3Client({});
+  }
+
+  async getToken(chainId: number, address: string): Promise<TokenMetadata | undefined> {
+    await this.refresh();
+    return this.list.getToken(chainId, address);
+  }
+
+  async isAllowedOnRoute(chainId: number, address: string, route: ChainRoute): Promise<boolean> {
+    await this.refresh();
+    return this.list.isAllowedOnRoute(chainId, address, route);
+  }
+
+  // keeps the last fetched list if the fetch fails or the file is not a list, returns whether it succeeded
+  async fetchTokenList(): Promise<boolean> {
+    try {
+      const s3Res = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: this.key,
+        })
+      );
+      const s3Body = checkDefined(s3Res.Body, 's3Res.Body is undefined');
+      const tokens = JSON.parse(await s3Body.transformToString());
+      if (!Array.isArray(tokens)) {
+        throw new Error('Token list is not a list');
+      }
+      this.list = new TokenList(tokens as TokenMetadata[], this.log);
+      this.log.info({ tokens: this.list.size }, 'Fetched token list');
+      return true;
+    } catch (e: any) {
+      this.log.error({ name: e.name, message: e.message }, 'Error fetching token list from S3; keeping the last list');
+      return false;
+    }
+  }
+
+  // a failed fetch is retried on the next call rather than after the update period
+  private async refresh(): Promise<void> {
+    if (Date.now() - this.lastUpdatedTimestamp > S3TokenMetadataProvider.UPDATE_PERIOD_MS) {
+      if (await this.fetchTokenList()) {
+        this.lastUpdatedTimestamp = Date.now();
+      }
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { default as Logger } from 'bunyan';
+import { ethers } from 'ethers';
+
+import { TokenMetadata } from '.';
+import { ChainRoute } from '../../config/chains';
+
+// token metadata keyed by chain and lowercased address
+export class TokenList {
+  private tokens = new Map<string, TokenMetadata>();
+  private chains = new Set<number>();
+
+  // tokens with an invalid chain, address, decimals or price are skipped, so one bad entry does not drop the whole list
+  constructor(entries: TokenMetadata[], log?: Logger) {
+    entries.forEach((entry) => {
+      const error = validateEntry(entry);
+      if (error) {
+        log?.error({ token: entry }, `Skipping token list entry: ${error}`);
+        return;
+      }
+      this.tokens.set(tokenKey(entry.chainId, entry.address), entry);
+      this.chains.add(entry.chainId);
+    });
+  }
+
+  public getToken(chainId: number, address: string): TokenMetadata | undefined {
+    return this.tokens.get(tokenKey(chainId, address));
+  }
+
+  public isAllowedOnRoute(chainId: number, address: string, route: ChainRoute): boolean {
+    if (!this.chains.has(chainId)) {
+      // hard quotes are cosigned, so they fail closed
+      return route !== ChainRoute.HARD_QUOTE;
+    }
+    const token = this.getToken(chainId, address);
+    return !!token && (!token.routes || token.routes.includes(route));
+  }
+
+  public get size(): number {
+    return this.tokens.size;
+  }
+}
+
+function validateEntry(entry: TokenMetadata): string | undefined {
+  if (!Number.isInteger(entry.chainId) || entry.chainId <= 0) {
+    return `invalid chain id ${entry.chainId}`;
+  }
+  if (typeof entry.address !== 'string' || !ethers.utils.isAddress(entry.address)) {
+    return `invalid address ${entry.address}`;
+  }
+  if (!Number.isInteger(entry.decimals) || entry.decimals < 0 || entry.decimals > 255) {
+    return `invalid decimals ${entry.decimals}`;
+  }
+  if (entry.priceUsd !== undefined && !(entry.priceUsd >= 0)) {
+    return `invalid USD price ${entry.priceUsd}`;
+  }
+  return undefined;
+}
+
+function tokenKey(chainId: number, address: string): string {
+  return `${chainId}-${address.toLowerCase()}`;
+}
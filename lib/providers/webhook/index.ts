@@ -1,3 +1,6 @@
+import { WebhookTransport } from '../../transports';
+import { ResponseSignatureMode, RfqSigningConfiguration } from '../../util/rfq-signing';
+
 export * from './mock';
 export * from './s3';
 
@@ -5,16 +8,40 @@ type WebhookOverrides = {
   timeout: number;
 };
 
+type CrossChainRoute = {
+  tokenInChainId: number;
+  tokenOutChainId: number;
+};
+
+type OpposingQuoteConfiguration = {
+  enabled: boolean;
+  // if set, only request opposing quotes on these chains
+  chainIds?: number[];
+};
+
 export interface WebhookConfiguration {
   name: string;
   hash: string;
   endpoint: string;
+  // defaults to http; websocket endpoints keep a persistent connection
+  transport?: WebhookTransport;
   headers?: { [key: string]: string };
   overrides?: WebhookOverrides;
   // the chainids the endpoint should receive webhooks for
   // if null, send for all chains
   chainIds?: number[];
+  // the cross-chain pairs the endpoint quotes, in the direction of the trade
+  // if undefined, the endpoint receives no cross-chain requests
+  crossChainRoutes?: CrossChainRoute[];
   addresses?: string[];
+  // whether to also request the other side of each trade to measure spread
+  // if undefined, opposing quotes are requested on every chain
+  opposingQuotes?: OpposingQuoteConfiguration;
+  // if set, every request to the endpoint is signed with the referenced secret
+  signing?: RfqSigningConfiguration;
+  // if set, quotes must be signed by one of `addresses`
+  // if undefined, response signatures are not checked
+  responseSignature?: ResponseSignatureMode;
 }
 
 export interface WebhookConfigurationProvider {
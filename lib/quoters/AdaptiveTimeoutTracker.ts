@@ -0,0 +1,97 @@
+export interface AdaptiveTimeoutOptions {
+  // used until a filler has enough samples
+  defaultTimeoutMs: number;
+  minTimeoutMs: number;
+  maxTimeoutMs: number;
+  // the timeout is this percentile of recent latencies plus the margin
+  percentile: number;
+  marginMs: number;
+  // number of recent requests kept per filler
+  windowSize: number;
+  minSamples: number;
+  // after this many consecutive timeouts the filler is skipped,
+  // for a period doubling with each further timeout
+  backoffAfterTimeouts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+}
+
+export const DEFAULT_ADAPTIVE_TIMEOUT_OPTIONS: AdaptiveTimeoutOptions = {
+  defaultTimeoutMs: 500,
+  minTimeoutMs: 150,
+  maxTimeoutMs: 1000,
+  percentile: 0.95,
+  marginMs: 50,
+  windowSize: 100,
+  minSamples: 20,
+  backoffAfterTimeouts: 3,
+  backoffBaseMs: 5_000,
+  backoffMaxMs: 5 * 60_000,
+};
+
+type FillerLatency = {
+  samples: number[];
+  consecutiveTimeouts: number;
+  backoffUntil: number;
+};
+
+// Tracks a rolling latency distribution per filler hash
+// and derives each filler's webhook timeout from it
+export class AdaptiveTimeoutTracker {
+  private fillers = new Map<string, FillerLatency>();
+
+  constructor(private options: AdaptiveTimeoutOptions = DEFAULT_ADAPTIVE_TIMEOUT_OPTIONS) {}
+
+  public getTimeout(hash: string): number {
+    const samples = this.fillers.get(hash)?.samples ?? [];
+    if (samples.length < this.options.minSamples) {
+      return this.options.defaultTimeoutMs;
+    }
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil(this.options.percentile * sorted.length) - 1);
+    const timeout = sorted[index] + this.options.marginMs;
+    return Math.round(Math.min(this.options.maxTimeoutMs, Math.max(this.options.minTimeoutMs, timeout)));
+  }
+
+  public recordLatency(hash: string, latencyMs: number): void {
+    const filler = this.getFiller(hash);
+    this.addSample(filler, latencyMs);
+    filler.consecutiveTimeouts = 0;
+  }
+
+  // a timeout counts as a sample at the timeout, so the timeout creeps up for fillers that are slow but not dead
+  public recordTimeout(hash: string, timeoutMs: number, now = Date.now()): void {
+    const filler = this.getFiller(hash);
+    this.addSample(filler, timeoutMs);
+    filler.consecutiveTimeouts++;
+
+    const excess = filler.consecutiveTimeouts - this.options.backoffAfterTimeouts;
+    if (excess >= 0) {
+      const backoffMs = Math.min(this.options.backoffMaxMs, this.options.backoffBaseMs * 2 ** excess);
+      filler.backoffUntil = now + backoffMs;
+    }
+  }
+
+  // returns 0 if the filler is not backed off
+  public backoffRemainingMs(hash: string, now = Date.now()): number {
+    const filler = this.fillers.get(hash);
+    return filler ? Math.max(0, filler.backoffUntil - now) : 0;
+  }
+
+  private getFiller(hash: string): FillerLatency {
+    let filler = this.fillers.get(hash);
+    if (!filler) {
+      filler = { samples: [], consecutiveTimeouts: 0, backoffUntil: 0 };
+      this.fillers.set(hash, filler);
+    }
+    return filler;
+  }
+
+  private addSample(filler: FillerLatency, latencyMs: number): void {
+    filler.samples.push(latencyMs);
+    if (filler.samples.length > this.options.windowSize) {
+      filler.samples.shift();
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { metric, MetricLoggerUnit } from '@uniswap/smart-order-router';
+import Logger from 'bunyan';
+
+import { Metric, metricContext, WebhookResponseType } from '../entities';
+import { WebhookConfiguration } from '../providers';
+
+export enum CircuitState {
+  // requests flow normally
+  CLOSED = 'closed',
+  // requests are skipped until the open period ends
+  OPEN = 'open',
+  // a limited number of probe requests decide whether to close or reopen
+  HALF_OPEN = 'half-open',
+}
+
+export interface FillerCircuitBreakerOptions {
+  // consecutive failures which trip the breaker
+  failureThreshold: number;
+  openDurationMs: number;
+  // concurrent probe requests allowed while half-open
+  maxProbes: number;
+}
+
+export const DEFAULT_FILLER_CIRCUIT_BREAKER_OPTIONS: FillerCircuitBreakerOptions = {
+  failureThreshold: 5,
+  openDurationMs: 30_000,
+  maxProbes: 1,
+};
+
+// outcomes which show the filler is unhealthy
+const FAILURE_RESPONSE_TYPES = new Set([
+  WebhookResponseType.HTTP_ERROR,
+  WebhookResponseType.TIMEOUT,
+  WebhookResponseType.VALIDATION_ERROR,
+]);
+
+// outcomes which show the filler is responding properly
+const SUCCESS_RESPONSE_TYPES = new Set([WebhookResponseType.OK, WebhookResponseType.NON_QUOTE]);
+
+type TransitionMetric = Metric.RFQ_CIRCUIT_CLOSED | Metric.RFQ_CIRCUIT_OPENED | Metric.RFQ_CIRCUIT_HALF_OPENED;
+
+const TRANSITION_METRICS: { [state in CircuitState]: TransitionMetric } = {
+  [CircuitState.CLOSED]: Metric.RFQ_CIRCUIT_CLOSED,
+  [CircuitState.OPEN]: Metric.RFQ_CIRCUIT_OPENED,
+  [CircuitState.HALF_OPEN]: Metric.RFQ_CIRCUIT_HALF_OPENED,
+};
+
+type FillerCircuit = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openUntil: number;
+  probesInFlight: number;
+};
+
+// Real-time circuit breaker on live webhook outcomes, keyed by filler hash
+// complements the fade rate breaker, which only updates every few minutes
+export class FillerCircuitBreaker {
+  private log: Logger;
+  private circuits = new Map<string, FillerCircuit>();
+
+  constructor(_log: Logger, private options: FillerCircuitBreakerOptions = DEFAULT_FILLER_CIRCUIT_BREAKER_OPTIONS) {
+    this.log = _log.child({ quoter: 'FillerCircuitBreaker' });
+  }
+
+  public getState(hash: string): CircuitState {
+    return this.circuits.get(hash)?.state ?? CircuitState.CLOSED;
+  }
+
+  // every allowed request must be followed by recordOutcome, to release any probe it holds
+  public allowRequest(config: WebhookConfiguration, now = Date.now()): boolean {
+    const circuit = this.getCircuit(config.hash);
+    if (circuit.state === CircuitState.OPEN) {
+      if (now < circuit.openUntil) {
+        return false;
+      }
+      this.transition(config, circuit, CircuitState.HALF_OPEN);
+    }
+
+    if (circuit.state === CircuitState.HALF_OPEN) {
+      if (circuit.probesInFlight >= this.options.maxProbes) {
+        return false;
+      }
+      circuit.probesInFlight++;
+    }
+    return true;
+  }
+
+  public recordOutcome(config: WebhookConfiguration, responseType: WebhookResponseType, now = Date.now()): void {
+    const circuit = this.getCircuit(config.hash);
+    if (circuit.state === CircuitState.HALF_OPEN) {
+      circuit.probesInFlight = Math.max(0, circuit.probesInFlight - 1);
+    }
+
+    if (SUCCESS_RESPONSE_TYPES.has(responseType)) {
+      circuit.consecutiveFailures = 0;
+      if (circuit.state === CircuitState.HALF_OPEN) {
+        this.transition(config, circuit, CircuitState.CLOSED);
+      }
+    } else if (FAILURE_RESPONSE_TYPES.has(responseType)) {
+      circuit.consecutiveFailures++;
+      if (
+        circuit.state === CircuitState.HALF_OPEN ||
+        (circuit.state === CircuitState.CLOSED && circuit.consecutiveFailures >= this.options.failureThreshold)
+      ) {
+        circuit.openUntil = now + this.options.openDurationMs;
+        this.transition(config, circuit, CircuitState.OPEN);
+      }
+    }
+  }
+
+  private transition(config: WebhookConfiguration, circuit: FillerCircuit, state: CircuitState): void {
+    this.log.info(
+      { hash: config.hash, from: circuit.state, to: state, consecutiveFailures: circuit.consecutiveFailures },
+      `Circuit for ${config.endpoint} is ${state}`
+    );
+    circuit.state = state;
+    if (state !== CircuitState.HALF_OPEN) {
+      circuit.probesInFlight = 0;
+    }
+    metric.putMetric(TRANSITION_METRICS[state], 1, MetricLoggerUnit.Count);
+    metric.putMetric(metricContext(TRANSITION_METRICS[state], config.name), 1, MetricLoggerUnit.Count);
+  }
+
+  private getCircuit(hash: string): FillerCircuit {
+    let circuit = this.circuits.get(hash);
+    if (!circuit) {
+      circuit = { state: CircuitState.CLOSED, consecutiveFailures: 0, openUntil: 0, probesInFlight: 0 };
+      this.circuits.set(hash, circuit);
+    }
+    return circuit;
+  }
+}
@@ -0,0 +1,213 @@
+import { TradeType } from '@uniswap/sdk-core';
+import Logger from 'bunyan';
+import { BigNumber } from 'ethers';
+
+import { parsePositiveInteger } from '.';
+import { REFERENCE_PRICES_S3_KEY, TOKEN_CONFIG_BUCKET } from '../constants';
+import { QuoteRequest, QuoteResponse } from '../entities';
+import { ReferencePriceProvider, S3ReferencePriceProvider } from '../providers/prices';
+import { PRICE_SCALE } from '../providers/prices/price-table';
+
+const BPS = 10_000;
+// deviations are capped so wildly wrong quotes still fit in a number
+const MAX_DEVIATION_BPS = 1_000_000_000;
+
+export const DEFAULT_PRICE_OUTLIER_TOLERANCE_BPS = 5_000;
+
+export enum ReferencePriceSourceType {
+  STATIC = 'STATIC',
+  AUCTION_MEDIAN = 'AUCTION_MEDIAN',
+  OPPOSING_QUOTE = 'OPPOSING_QUOTE',
+}
+
+export interface PriceCheckContext {
+  // the rest of the auction, only known once it has closed
+  auctionQuotes?: QuoteResponse[];
+  // the same filler's valid quote for the other side, if one was requested and has arrived
+  opposingQuote?: QuoteResponse;
+}
+
+export interface ReferencePriceSource {
+  type(): ReferencePriceSourceType;
+  // the expected quoted amount for the request, or undefined if the source has no reference
+  getReferenceAmount(request: QuoteRequest, context: PriceCheckContext): Promise<BigNumber | undefined>;
+}
+
+export interface PriceCheckResult {
+  outlier: boolean;
+  // unset if no source had a reference
+  source?: ReferencePriceSourceType;
+  referenceAmount?: BigNumber;
+  deviationBps?: number;
+}
+
+// the amount the filler set, as opposed to the amount the swapper asked for
+export function quotedAmount(type: TradeType, quote: QuoteResponse): BigNumber {
+  return type === TradeType.EXACT_INPUT ? quote.amountOut : quote.amountIn;
+}
+
+// a static price per pair, for pairs with a known price
+export class StaticReferencePriceSource implements ReferencePriceSource {
+  constructor(private priceProvider: ReferencePriceProvider) {}
+
+  public type(): ReferencePriceSourceType {
+    return ReferencePriceSourceType.STATIC;
+  }
+
+  public async getReferenceAmount(request: QuoteRequest): Promise<BigNumber | undefined> {
+    // the same token has a different address on each chain
+    if (request.tokenInChainId !== request.tokenOutChainId) {
+      return undefined;
+    }
+    const price = await this.priceProvider.getPrice(request.tokenInChainId, request.tokenIn, request.tokenOut);
+    if (!price) {
+      return undefined;
+    }
+    return request.type === TradeType.EXACT_INPUT
+      ? request.amount.mul(price).div(PRICE_SCALE)
+      : request.amount.mul(PRICE_SCALE).div(price);
+  }
+}
+
+// the median of the other quotes in the auction
+// needs a few other quotes so a single outlier cannot move the median
+export class AuctionMedianReferencePriceSource implements ReferencePriceSource {
+  constructor(private minQuotes = 3) {}
+
+  public type(): ReferencePriceSourceType {
+    return ReferencePriceSourceType.AUCTION_MEDIAN;
+  }
+
+  public async getReferenceAmount(request: QuoteRequest, context: PriceCheckContext): Promise<BigNumber | undefined> {
+    const auctionQuotes = context.auctionQuotes ?? [];
+    if (auctionQuotes.length < this.minQuotes) {
+      return undefined;
+    }
+    const amounts = auctionQuotes
+      .map((quote) => quotedAmount(request.type, quote))
+      .sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+    const mid = Math.floor(amounts.length / 2);
+    return amounts.length % 2 === 1 ? amounts[mid] : amounts[mid - 1].add(amounts[mid]).div(2);
+  }
+}
+
+// the same filler's quote for the other side, which catches a fat finger on one side only
+export class OpposingQuoteReferencePriceSource implements ReferencePriceSource {
+  public type(): ReferencePriceSourceType {
+    return ReferencePriceSourceType.OPPOSING_QUOTE;
+  }
+
+  public async getReferenceAmount(request: QuoteRequest, context: PriceCheckContext): Promise<BigNumber | undefined> {
+    const { opposingQuote } = context;
+    if (!opposingQuote) {
+      return undefined;
+    }
+    // the opposing side is denominated in the same token as the quoted amount
+    return request.type === TradeType.EXACT_INPUT ? opposingQuote.amountIn : opposingQuote.amountOut;
+  }
+}
+
+// Flags quotes which deviate from a reference price by more than the tolerance, in either direction
+// sources are tried in order and the first with a reference is used
+// quotes without any reference are never flagged
+// the auction median is checked once the auction closes, every other source as each quote arrives
+export class PriceSanityChecker {
+  private log: Logger;
+
+  constructor(_log: Logger, private sources: ReferencePriceSource[], private toleranceBps: number) {
+    this.log = _log.child({ quoter: 'PriceSanityChecker' });
+  }
+
+  public get usesOpposingQuote(): boolean {
+    return this.sources.some((source) => source.type() === ReferencePriceSourceType.OPPOSING_QUOTE);
+  }
+
+  public async check(
+    request: QuoteRequest,
+    quote: QuoteResponse,
+    context: PriceCheckContext
+  ): Promise<PriceCheckResult> {
+    return this.checkSources(
+      this.sources.filter((source) => source.type() !== ReferencePriceSourceType.AUCTION_MEDIAN),
+      request,
+      quote,
+      context
+    );
+  }
+
+  // checks each quote of a closed auction against the rest of it, so arrival order does not matter
+  // results are in the same order as the quotes
+  public async checkAuction(request: QuoteRequest, quotes: QuoteResponse[]): Promise<PriceCheckResult[]> {
+    const sources = this.sources.filter((source) => source.type() === ReferencePriceSourceType.AUCTION_MEDIAN);
+    return Promise.all(
+      quotes.map((quote) =>
+        this.checkSources(sources, request, quote, { auctionQuotes: quotes.filter((other) => other !== quote) })
+      )
+    );
+  }
+
+  private async checkSources(
+    sources: ReferencePriceSource[],
+    request: QuoteRequest,
+    quote: QuoteResponse,
+    context: PriceCheckContext
+  ): Promise<PriceCheckResult> {
+    const quoted = quotedAmount(request.type, quote);
+    for (const source of sources) {
+      let referenceAmount: BigNumber | undefined;
+      try {
+        referenceAmount = await source.getReferenceAmount(request, context);
+      } catch (e) {
+        this.log.error({ error: e, source: source.type() }, 'Error getting reference price');
+        continue;
+      }
+      if (!referenceAmount || referenceAmount.isZero()) {
+        continue;
+      }
+
+      const deviation = quoted.sub(referenceAmount).abs().mul(BPS).div(referenceAmount);
+      const deviationBps = deviation.gt(MAX_DEVIATION_BPS) ? MAX_DEVIATION_BPS : deviation.toNumber();
+      return {
+        outlier: deviationBps > this.toleranceBps,
+        source: source.type(),
+        referenceAmount,
+        deviationBps,
+      };
+    }
+    return { outlier: false };
+  }
+}
+
+// sources are a comma separated list in order of preference, and an empty list disables the check
+export function getPriceSanityChecker(
+  log: Logger,
+  stage: string | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): PriceSanityChecker | undefined {
+  const sourceTypes = (env.PRICE_REFERENCE_SOURCES ?? 'STATIC,AUCTION_MEDIAN')
+    .split(',')
+    .map((type) => type.trim())
+    .filter((type) => type.length > 0);
+  if (sourceTypes.length === 0) {
+    return undefined;
+  }
+
+  const sources = sourceTypes.map((type): ReferencePriceSource => {
+    switch (type) {
+      case ReferencePriceSourceType.STATIC:
+        return new StaticReferencePriceSource(
+          new S3ReferencePriceProvider(log, `${TOKEN_CONFIG_BUCKET}-${stage}-1`, REFERENCE_PRICES_S3_KEY)
+        );
+      case ReferencePriceSourceType.AUCTION_MEDIAN:
+        return new AuctionMedianReferencePriceSource();
+      case ReferencePriceSourceType.OPPOSING_QUOTE:
+        return new OpposingQuoteReferencePriceSource();
+      default:
+        throw new Error(`Unknown reference price source: ${type}`);
+    }
+  });
+  const toleranceBps = env.PRICE_OUTLIER_TOLERANCE_BPS
+    ? parsePositiveInteger('PRICE_OUTLIER_TOLERANCE_BPS', env.PRICE_OUTLIER_TOLERANCE_BPS)
+    : DEFAULT_PRICE_OUTLIER_TOLERANCE_BPS;
+  return new PriceSanityChecker(log, sources, toleranceBps);
+}
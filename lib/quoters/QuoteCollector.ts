@@ -0,0 +1,191 @@
+import { metric, MetricLoggerUnit } from '@uniswap/smart-order-router';
+import Logger from 'bunyan';
+
+import { PriceSanityChecker, Quoter } from '.';
+import {
+  AnalyticsEvent,
+  AnalyticsEventType,
+  Metric,
+  QuoteRequest,
+  QuoteResponse,
+  WebhookResponseType,
+} from '../entities';
+import { FirehoseLogger } from '../providers/analytics';
+
+// slightly above the per-filler webhook timeout so on-time fillers are never cut off
+export const DEFAULT_AUCTION_DEADLINE_MS = 600;
+
+export interface QuoteCollectorOptions {
+  // the auction ends this long after it starts, regardless of outstanding quoters
+  deadlineMs: number;
+  // end the auction early once this many valid quotes are in
+  // if undefined, wait for every quoter or the deadline
+  maxQuotes?: number;
+  // if set, quotes far from the rest of the closed auction are dropped before ranking
+  priceChecker?: PriceSanityChecker;
+  // if set, each dropped quote is also reported as a PRICE_OUTLIER webhook response
+  firehose?: FirehoseLogger;
+}
+
+export interface LateQuote {
+  quoteId: string;
+  filler?: string;
+  latencyMs: number;
+}
+
+export interface CollectedQuotes {
+  quotes: QuoteResponse[];
+  // true if the auction ended on the deadline rather than on completion or maxQuotes
+  timedOut: boolean;
+  latencyMs: number;
+}
+
+// throws on invalid values so a misconfigured lambda fails at build rather than running unbounded auctions
+export function getAuctionOptions(env: NodeJS.ProcessEnv = process.env): QuoteCollectorOptions {
+  return {
+    deadlineMs: env.AUCTION_DEADLINE_MS
+      ? parsePositiveInteger('AUCTION_DEADLINE_MS', env.AUCTION_DEADLINE_MS)
+      : DEFAULT_AUCTION_DEADLINE_MS,
+    ...(env.AUCTION_MAX_QUOTES && { maxQuotes: parsePositiveInteger('AUCTION_MAX_QUOTES', env.AUCTION_MAX_QUOTES) }),
+  };
+}
+
+export function parsePositiveInteger(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got ${value}`);
+  }
+  return parsed;
+}
+
+// Runs a single auction over a set of quoters
+// quoters may stream quotes through the listener as they arrive, or simply return them
+// quotes submitted after the auction closes are recorded as late and not returned
+export class QuoteCollector {
+  private log: Logger;
+  private quotes: QuoteResponse[] = [];
+  private seen = new Set<QuoteResponse>();
+  private lateQuotes: LateQuote[] = [];
+  private closed = false;
+  private startTime = 0;
+  private onFull: (() => void) | undefined;
+
+  constructor(_log: Logger, private request: QuoteRequest, private options: QuoteCollectorOptions) {
+    this.log = _log.child({ component: 'QuoteCollector' });
+  }
+
+  public async collect(quoters: Quoter[]): Promise<CollectedQuotes> {
+    this.startTime = Date.now();
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const deadline = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        resolve();
+      }, this.options.deadlineMs);
+    });
+    const full = new Promise<void>((resolve) => {
+      this.onFull = resolve;
+    });
+    const completed = Promise.all(
+      quoters.map(async (quoter) => {
+        try {
+          const quotes = await quoter.quote(this.request, (quote) => this.submit(quote));
+          quotes.forEach((quote) => this.submit(quote));
+        } catch (e) {
+          this.log.error({ error: e, quoter: quoter.type() }, 'Quoter failed during auction');
+        }
+      })
+    );
+
+    await Promise.race([completed, deadline, full]);
+    clearTimeout(timer);
+    this.closed = true;
+
+    const quotes = await this.dropPriceOutliers([...this.quotes]);
+    const latencyMs = Date.now() - this.startTime;
+    this.log.info(
+      {
+        requestId: this.request.requestId,
+        quoteCount: quotes.length,
+        timedOut,
+        latencyMs,
+        deadlineMs: this.options.deadlineMs,
+        maxQuotes: this.options.maxQuotes,
+      },
+      'Auction closed'
+    );
+    if (timedOut) {
+      metric.putMetric(Metric.AUCTION_DEADLINE_REACHED, 1, MetricLoggerUnit.Count);
+    }
+
+    return { quotes, timedOut, latencyMs };
+  }
+
+  private async dropPriceOutliers(quotes: QuoteResponse[]): Promise<QuoteResponse[]> {
+    const { priceChecker, firehose } = this.options;
+    if (!priceChecker) {
+      return quotes;
+    }
+    const results = await priceChecker.checkAuction(this.request, quotes);
+    return quotes.filter((quote, i) => {
+      const { outlier, source, referenceAmount, deviationBps } = results[i];
+      if (outlier) {
+        metric.putMetric(Metric.RFQ_PRICE_OUTLIER, 1, MetricLoggerUnit.Count);
+        this.log.error(
+          {
+            requestId: this.request.requestId,
+            quoteId: quote.quoteId,
+            filler: quote.filler,
+            referenceSource: source,
+            referenceAmount: referenceAmount?.toString(),
+            deviationBps,
+          },
+          'Quote deviates from the rest of the auction'
+        );
+        // the quoter already reported the quote as OK when it arrived
+        firehose?.sendAnalyticsEvent(
+          new AnalyticsEvent(AnalyticsEventType.WEBHOOK_RESPONSE, {
+            ...quote.toLog(this.request.tokens),
+            responseType: WebhookResponseType.PRICE_OUTLIER,
+            referenceSource: source,
+            referenceAmount: referenceAmount?.toString(),
+            deviationBps,
+          })
+        );
+      }
+      return !outlier;
+    });
+  }
+
+  // returns true if the quote was accepted into the auction, false if it arrived after the cutoff
+  public submit(quote: QuoteResponse): boolean {
+    if (this.seen.has(quote)) {
+      return this.quotes.includes(quote);
+    }
+    this.seen.add(quote);
+
+    if (this.closed) {
+      const lateQuote = { quoteId: quote.quoteId, filler: quote.filler, latencyMs: Date.now() - this.startTime };
+      this.lateQuotes.push(lateQuote);
+      metric.putMetric(Metric.RFQ_LATE_QUOTE, 1, MetricLoggerUnit.Count);
+      this.log.info({ requestId: this.request.requestId, ...lateQuote }, 'Quote arrived after auction cutoff');
+      return false;
+    }
+
+    this.quotes.push(quote);
+    if (this.options.maxQuotes !== undefined && this.quotes.length >= this.options.maxQuotes) {
+      this.onFull?.();
+    }
+    return true;
+  }
+
+  public get isClosed(): boolean {
+    return this.closed;
+  }
+
+  public get late(): LateQuote[] {
+    return [...this.lateQuotes];
+  }
+}
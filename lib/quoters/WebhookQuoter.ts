@@ -1,27 +1,30 @@
 import { TradeType } from '@uniswap/sdk-core';
 import { metric, MetricLoggerUnit } from '@uniswap/smart-order-router';
-import axios, { AxiosError, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
 import Logger from 'bunyan';
 import { v4 as uuidv4 } from 'uuid';
 
-import { Quoter, QuoterType } from '.';
+import { AdaptiveTimeoutTracker, FillerCircuitBreaker, PriceSanityChecker, QuoteListener, Quoter, QuoterType } from '.';
 import {
   AnalyticsEvent,
   AnalyticsEventType,
   Metric,
   metricContext,
   QuoteRequest,
+  QuoteRequestDataJSON,
   QuoteResponse,
   WebhookResponseType,
 } from '../entities';
+import { checkDefined } from '../preconditions/preconditions';
 import { WebhookConfiguration, WebhookConfigurationProvider } from '../providers';
 import { FirehoseLogger } from '../providers/analytics';
 import { CircuitBreakerConfigurationProvider } from '../providers/circuit-breaker';
 import { FillerComplianceConfigurationProvider } from '../providers/compliance';
+import { RfqTransportError, RfqTransportResponse, WebhookTransport, WebSocketConnectionPool } from '../transports';
+import { recoverRfqResponseSigner, ResponseSignatureMode, RfqRequestSigner } from '../util/rfq-signing';
+import { getQuoteSpread } from '../util/spread';
 import { timestampInMstoISOString } from '../util/time';
-
-// TODO: shorten, maybe take from env config
-const WEBHOOK_TIMEOUT_MS = 500;
+import { tokenLogFields } from '../util/tokens';
 
 // Quoter which fetches quotes from http endpoints
 // endpoints must return well-formed QuoteResponse JSON
@@ -38,23 +41,33 @@ export class WebhookQuoter implements Quoter {
     _allow_list: Set<string> = new Set<string>([
       '22a23abb38e0612e58ebdd15756b18110e6aac078645210afe0c60f8220307b0',
       '1ed189c4b20479e36acf74e2bc87e03bfdce765ecba6696970caee8299fc005f',
-    ])
+    ]),
+    private signer: RfqRequestSigner = new RfqRequestSigner(),
+    private connections: WebSocketConnectionPool = new WebSocketConnectionPool(_log),
+    private timeouts: AdaptiveTimeoutTracker = new AdaptiveTimeoutTracker(),
+    private breaker: FillerCircuitBreaker = new FillerCircuitBreaker(_log),
+    // if unset, quotes are not checked against a reference price
+    private priceChecker?: PriceSanityChecker
   ) {
     this.log = _log.child({ quoter: 'WebhookQuoter' });
     this.ALLOW_LIST = _allow_list;
   }
 
-  public async quote(request: QuoteRequest): Promise<QuoteResponse[]> {
+  public async quote(request: QuoteRequest, onQuote?: QuoteListener): Promise<QuoteResponse[]> {
     const endpoints = await this.getEligibleEndpoints();
     const endpointToAddrsMap = await this.complianceProvider.getEndpointToExcludedAddrsMap();
-    endpoints.filter((e) => {
-      return (
-        endpointToAddrsMap.get(e.endpoint) === undefined || !endpointToAddrsMap.get(e.endpoint)?.has(request.swapper)
-      );
+    const swapper = request.swapper.toLowerCase();
+    const compliantEndpoints: WebhookConfiguration[] = [];
+    endpoints.forEach((e) => {
+      if (endpointToAddrsMap.get(e.endpoint)?.has(swapper)) {
+        this.logComplianceExclusion(e, request);
+      } else {
+        compliantEndpoints.push(e);
+      }
     });
 
-    this.log.info({ endpoints }, `Fetching quotes from ${endpoints.length} endpoints`);
-    const quotes = await Promise.all(endpoints.map((e) => this.fetchQuote(e, request)));
+    this.log.info({ endpoints: compliantEndpoints }, `Fetching quotes from ${compliantEndpoints.length} endpoints`);
+    const quotes = await Promise.all(compliantEndpoints.map((e) => this.fetchQuote(e, request, onQuote)));
     return quotes.filter((q) => q !== null) as QuoteResponse[];
   }
 
@@ -93,32 +106,53 @@ export class WebhookQuoter implements Quoter {
     }
   }
 
-  private async fetchQuote(config: WebhookConfiguration, request: QuoteRequest): Promise<QuoteResponse | null> {
+  private async fetchQuote(
+    config: WebhookConfiguration,
+    request: QuoteRequest,
+    onQuote?: QuoteListener
+  ): Promise<QuoteResponse | null> {
     const { name, endpoint, headers } = config;
-    if (config.chainIds !== undefined && !config.chainIds.includes(request.tokenInChainId)) {
+    if (!supportsChains(config, request.tokenInChainId, request.tokenOutChainId)) {
       this.log.debug(
-        { configuredChainIds: config.chainIds, chainId: request.tokenInChainId },
+        {
+          configuredChainIds: config.chainIds,
+          crossChainRoutes: config.crossChainRoutes,
+          tokenInChainId: request.tokenInChainId,
+          tokenOutChainId: request.tokenOutChainId,
+        },
         `chainId not configured for ${endpoint}`
       );
       return null;
     }
 
+    const backoffMs = this.timeouts.backoffRemainingMs(config.hash);
+    if (backoffMs > 0) {
+      metric.putMetric(Metric.RFQ_TIMEOUT_BACKOFF, 1, MetricLoggerUnit.Count);
+      metric.putMetric(metricContext(Metric.RFQ_TIMEOUT_BACKOFF, name), 1, MetricLoggerUnit.Count);
+      this.log.info({ backoffMs }, `Skipping ${endpoint} while backing off after repeated timeouts`);
+      return null;
+    }
+
+    if (!this.breaker.allowRequest(config)) {
+      metric.putMetric(Metric.RFQ_CIRCUIT_REJECTED, 1, MetricLoggerUnit.Count);
+      metric.putMetric(metricContext(Metric.RFQ_CIRCUIT_REJECTED, name), 1, MetricLoggerUnit.Count);
+      this.log.info({ state: this.breaker.getState(config.hash) }, `Skipping ${endpoint} while its circuit is open`);
+      return null;
+    }
+
     metric.putMetric(Metric.RFQ_REQUESTED, 1, MetricLoggerUnit.Count);
     metric.putMetric(metricContext(Metric.RFQ_REQUESTED, name), 1, MetricLoggerUnit.Count);
 
     const cleanRequest = request.toCleanJSON();
     cleanRequest.quoteId = uuidv4();
-    const opposingCleanRequest = request.toOpposingCleanJSON();
-    opposingCleanRequest.quoteId = uuidv4();
-
     this.log.info({ request: cleanRequest, headers }, `Webhook request to: ${endpoint}`);
-    this.log.info({ request: opposingCleanRequest, headers }, `Webhook request to: ${endpoint}`);
 
     const before = Date.now();
     const timeoutOverride = config.overrides?.timeout;
 
     const axiosConfig = {
-      timeout: timeoutOverride ? Number(timeoutOverride) : WEBHOOK_TIMEOUT_MS,
+      // a hand-set override pins the timeout, otherwise it adapts to the filler's latency
+      timeout: timeoutOverride ? Number(timeoutOverride) : this.timeouts.getTimeout(config.hash),
       ...(!!headers && { headers }),
     };
 
@@ -127,15 +161,22 @@ export class WebhookQuoter implements Quoter {
       quoteId: cleanRequest.quoteId,
       name: name,
       endpoint: endpoint,
+      tokenInChainId: request.tokenInChainId,
+      tokenOutChainId: request.tokenOutChainId,
       requestTime: timestampInMstoISOString(before),
       timeoutSettingMs: axiosConfig.timeout,
+      ...tokenLogFields(request.tokens),
+      notionalUsd: request.notionalUsd,
     };
 
+    const pendingResponse = this.send(config, cleanRequest, axiosConfig);
+    // the opposing request runs alongside, and its failure never affects the quote
+    const opposing = requestsOpposingQuote(config, request)
+      ? this.fetchOpposingQuote(config, request, axiosConfig)
+      : undefined;
+
     try {
-      const [hookResponse, opposite] = await Promise.all([
-        axios.post(endpoint, cleanRequest, axiosConfig),
-        axios.post(endpoint, opposingCleanRequest, axiosConfig),
-      ]);
+      const hookResponse = await pendingResponse;
 
       metric.putMetric(Metric.RFQ_RESPONSE_TIME, Date.now() - before, MetricLoggerUnit.Milliseconds);
       metric.putMetric(
@@ -154,8 +195,12 @@ export class WebhookQuoter implements Quoter {
         responseTime: timestampInMstoISOString(Date.now()),
         latencyMs: Date.now() - before,
       };
+      this.timeouts.recordLatency(config.hash, rawResponse.latencyMs);
 
-      const { response, validationError } = QuoteResponse.fromRFQ(request, hookResponse.data, request.type);
+      const { response, validationError } = QuoteResponse.fromRFQ(request, hookResponse.data, request.type, {
+        fillerHash: config.hash,
+        latencyMs: rawResponse.latencyMs,
+      });
 
       // RFQ provider explicitly elected not to quote
       if (isNonQuote(request, hookResponse, response)) {
@@ -168,6 +213,7 @@ export class WebhookQuoter implements Quoter {
           },
           `Webhook elected not to quote: ${endpoint}`
         );
+        this.breaker.recordOutcome(config, WebhookResponseType.NON_QUOTE);
         this.firehose.sendAnalyticsEvent(
           new AnalyticsEvent(AnalyticsEventType.WEBHOOK_RESPONSE, {
             ...requestContext,
@@ -190,6 +236,7 @@ export class WebhookQuoter implements Quoter {
           },
           `Webhook Response failed validation. Webhook: ${endpoint}.`
         );
+        this.breaker.recordOutcome(config, WebhookResponseType.VALIDATION_ERROR);
         this.firehose.sendAnalyticsEvent(
           new AnalyticsEvent(AnalyticsEventType.WEBHOOK_RESPONSE, {
             ...requestContext,
@@ -211,6 +258,7 @@ export class WebhookQuoter implements Quoter {
           },
           `Webhook ResponseId does not match request`
         );
+        this.breaker.recordOutcome(config, WebhookResponseType.REQUEST_ID_MISMATCH);
         this.firehose.sendAnalyticsEvent(
           new AnalyticsEvent(AnalyticsEventType.WEBHOOK_RESPONSE, {
             ...requestContext,
@@ -222,13 +270,76 @@ export class WebhookQuoter implements Quoter {
         return null;
       }
 
+      let signatureInvalid = false;
+      if (config.responseSignature && !hasValidSignature(config, response, hookResponse.data?.signature)) {
+        metric.putMetric(Metric.RFQ_FAIL_SIGNATURE, 1, MetricLoggerUnit.Count);
+        metric.putMetric(metricContext(Metric.RFQ_FAIL_SIGNATURE, name), 1, MetricLoggerUnit.Count);
+        this.log.error(
+          {
+            response: response.toLog(request.tokens),
+            signature: hookResponse.data?.signature,
+            addresses: config.addresses,
+            mode: config.responseSignature,
+          },
+          `Webhook response signature invalid. Webhook: ${endpoint}.`
+        );
+
+        if (config.responseSignature === ResponseSignatureMode.ENFORCE) {
+          this.breaker.recordOutcome(config, WebhookResponseType.SIGNATURE_INVALID);
+          this.firehose.sendAnalyticsEvent(
+            new AnalyticsEvent(AnalyticsEventType.WEBHOOK_RESPONSE, {
+              ...requestContext,
+              ...rawResponse,
+              responseType: WebhookResponseType.SIGNATURE_INVALID,
+            })
+          );
+          return null;
+        }
+        signatureInvalid = true;
+      }
+
+      if (this.priceChecker) {
+        // the opposing quote runs alongside, so waiting for it adds little
+        const opposingQuote =
+          this.priceChecker.usesOpposingQuote && opposing ? toOpposingQuote(request, await opposing) : undefined;
+        const priceCheck = await this.priceChecker.check(request, response, { opposingQuote });
+        if (priceCheck.outlier) {
+          metric.putMetric(Metric.RFQ_PRICE_OUTLIER, 1, MetricLoggerUnit.Count);
+          metric.putMetric(metricContext(Metric.RFQ_PRICE_OUTLIER, name), 1, MetricLoggerUnit.Count);
+          this.log.error(
+            {
+              response: response.toLog(request.tokens),
+              referenceSource: priceCheck.source,
+              referenceAmount: priceCheck.referenceAmount?.toString(),
+              deviationBps: priceCheck.deviationBps,
+            },
+            `Webhook quote deviates from the reference price. Webhook: ${endpoint}.`
+          );
+          this.breaker.recordOutcome(config, WebhookResponseType.PRICE_OUTLIER);
+          this.firehose.sendAnalyticsEvent(
+            new AnalyticsEvent(AnalyticsEventType.WEBHOOK_RESPONSE, {
+              ...requestContext,
+              ...rawResponse,
+              responseType: WebhookResponseType.PRICE_OUTLIER,
+              referenceSource: priceCheck.source,
+              referenceAmount: priceCheck.referenceAmount?.toString(),
+              deviationBps: priceCheck.deviationBps,
+            })
+          );
+          return null;
+        }
+      }
+
       const quote = request.type === TradeType.EXACT_INPUT ? response.amountOut : response.amountIn;
+      // stream the quote to the auction as soon as it is validated
+      const arrivedAfterCutoff = onQuote ? !onQuote(response) : false;
 
+      this.breaker.recordOutcome(config, WebhookResponseType.OK);
       metric.putMetric(Metric.RFQ_SUCCESS, 1, MetricLoggerUnit.Count);
       metric.putMetric(metricContext(Metric.RFQ_SUCCESS, name), 1, MetricLoggerUnit.Count);
       this.log.info(
         {
-          response: response.toLog(),
+          response: response.toLog(request.tokens),
           endpoint: endpoint,
         },
         `WebhookQuoter: request ${
@@ -240,21 +351,13 @@ export class WebhookQuoter implements Quoter {
           ...requestContext,
           ...rawResponse,
           responseType: WebhookResponseType.OK,
+          ...(arrivedAfterCutoff && { arrivedAfterCutoff }),
+          ...(signatureInvalid && { signatureInvalid }),
         })
       );
 
-      //if valid quote, log the opposing side as well
-      const opposingRequest = request.toOpposingRequest();
-      const opposingResponse = QuoteResponse.fromRFQ(opposingRequest, opposite.data, opposingRequest.type);
-      if (
-        opposingResponse &&
-        !isNonQuote(opposingRequest, opposite, opposingResponse.response) &&
-        !opposingResponse.validationError
-      ) {
-        this.log.info({
-          eventType: 'QuoteResponse',
-          body: { ...opposingResponse.response.toLog(), offerer: opposingResponse.response.swapper },
-        });
+      if (opposing) {
+        this.logOpposingQuote(request, response, await opposing, requestContext);
       }
 
       return response;
@@ -272,6 +375,10 @@ export class WebhookQuoter implements Quoter {
         );
         const axiosResponseType =
           e.code === 'ECONNABORTED' ? WebhookResponseType.TIMEOUT : WebhookResponseType.HTTP_ERROR;
+        if (axiosResponseType === WebhookResponseType.TIMEOUT) {
+          this.timeouts.recordTimeout(config.hash, axiosConfig.timeout);
+        }
+        this.breaker.recordOutcome(config, axiosResponseType);
         this.firehose.sendAnalyticsEvent(
           new AnalyticsEvent(AnalyticsEventType.WEBHOOK_RESPONSE, {
             ...requestContext,
@@ -282,8 +389,23 @@ export class WebhookQuoter implements Quoter {
             axiosError: `${e}`,
           })
         );
+      } else if (e instanceof RfqTransportError) {
+        this.log.error({ endpoint }, `WebSocket error fetching quote from ${endpoint}: ${e.message}`);
+        if (e.timeout) {
+          this.timeouts.recordTimeout(config.hash, axiosConfig.timeout);
+        }
+        this.breaker.recordOutcome(config, e.timeout ? WebhookResponseType.TIMEOUT : WebhookResponseType.HTTP_ERROR);
+        this.firehose.sendAnalyticsEvent(
+          new AnalyticsEvent(AnalyticsEventType.WEBHOOK_RESPONSE, {
+            ...requestContext,
+            ...errorLatency,
+            responseType: e.timeout ? WebhookResponseType.TIMEOUT : WebhookResponseType.HTTP_ERROR,
+            transportError: e.message,
+          })
+        );
       } else {
         this.log.error({ endpoint }, `Error fetching quote from ${endpoint}: ${e}`);
+        this.breaker.recordOutcome(config, WebhookResponseType.OTHER_ERROR);
         this.firehose.sendAnalyticsEvent(
           new AnalyticsEvent(AnalyticsEventType.WEBHOOK_RESPONSE, {
             ...requestContext,
@@ -296,6 +418,177 @@ export class WebhookQuoter implements Quoter {
       return null;
     }
   }
+
+  private logComplianceExclusion(config: WebhookConfiguration, request: QuoteRequest): void {
+    const { name, endpoint } = config;
+    metric.putMetric(Metric.RFQ_COMPLIANCE_EXCLUDED, 1, MetricLoggerUnit.Count);
+    metric.putMetric(metricContext(Metric.RFQ_COMPLIANCE_EXCLUDED, name), 1, MetricLoggerUnit.Count);
+    this.log.info({ endpoint, swapper: request.swapper }, `Swapper excluded from ${endpoint} by compliance config`);
+    this.firehose.sendAnalyticsEvent(
+      new AnalyticsEvent(AnalyticsEventType.WEBHOOK_RESPONSE, {
+        requestId: request.requestId,
+        name: name,
+        endpoint: endpoint,
+        requestTime: timestampInMstoISOString(Date.now()),
+        responseType: WebhookResponseType.COMPLIANCE_EXCLUDED,
+      })
+    );
+  }
+
+  private async fetchOpposingQuote(
+    config: WebhookConfiguration,
+    request: QuoteRequest,
+    axiosConfig: AxiosRequestConfig & { timeout: number }
+  ): Promise<OpposingQuote | undefined> {
+    const { name, endpoint, headers } = config;
+    const opposingCleanRequest = request.toOpposingCleanJSON();
+    opposingCleanRequest.quoteId = uuidv4();
+    this.log.info({ request: opposingCleanRequest, headers }, `Webhook request to: ${endpoint}`);
+    metric.putMetric(Metric.RFQ_OPPOSING_REQUESTED, 1, MetricLoggerUnit.Count);
+    metric.putMetric(metricContext(Metric.RFQ_OPPOSING_REQUESTED, name), 1, MetricLoggerUnit.Count);
+
+    const before = Date.now();
+    try {
+      const response = await this.send(config, opposingCleanRequest, axiosConfig);
+      return { quoteId: opposingCleanRequest.quoteId, response, latencyMs: Date.now() - before };
+    } catch (e) {
+      this.log.info(
+        { endpoint, quoteId: opposingCleanRequest.quoteId },
+        `Opposing quote failed from ${endpoint}: ${e}`
+      );
+      return undefined;
+    }
+  }
+
+  // records the opposing side of a valid quote, and the spread between the two
+  private logOpposingQuote(
+    request: QuoteRequest,
+    response: QuoteResponse,
+    opposing: OpposingQuote | undefined,
+    requestContext: { [key: string]: unknown }
+  ): void {
+    if (!opposing) {
+      return;
+    }
+
+    const opposingRequest = request.toOpposingRequest();
+    const { response: opposingResponse, validationError } = QuoteResponse.fromRFQ(
+      opposingRequest,
+      opposing.response.data,
+      opposingRequest.type
+    );
+    const nonQuote = isNonQuote(opposingRequest, opposing.response, opposingResponse);
+    const spread = !nonQuote && !validationError ? getQuoteSpread(request.type, response, opposingResponse) : undefined;
+
+    if (!nonQuote && !validationError) {
+      this.log.info({
+        eventType: 'QuoteResponse',
+        body: { ...opposingResponse.toLog(opposingRequest.tokens), offerer: opposingResponse.swapper },
+      });
+    }
+    if (spread) {
+      const pair = `${request.tokenInChainId}_${request.tokenIn}_${request.tokenOut}`;
+      metric.putMetric(metricContext(Metric.RFQ_SPREAD_BPS, pair), spread.spreadBps, MetricLoggerUnit.None);
+    }
+
+    this.firehose.sendAnalyticsEvent(
+      new AnalyticsEvent(AnalyticsEventType.OPPOSING_WEBHOOK_RESPONSE, {
+        ...requestContext,
+        quoteId: opposing.quoteId,
+        originalQuoteId: response.quoteId,
+        status: opposing.response.status,
+        data: opposing.response.data,
+        latencyMs: opposing.latencyMs,
+        responseType: nonQuote
+          ? WebhookResponseType.NON_QUOTE
+          : validationError
+          ? WebhookResponseType.VALIDATION_ERROR
+          : WebhookResponseType.OK,
+        ...(spread && { spreadBps: spread.spreadBps, midAmount: spread.midAmount.toString() }),
+      })
+    );
+  }
+
+  private async send(
+    config: WebhookConfiguration,
+    body: QuoteRequestDataJSON,
+    axiosConfig: AxiosRequestConfig & { timeout: number }
+  ): Promise<RfqTransportResponse> {
+    if (config.transport === WebhookTransport.WS) {
+      const signatureHeaders = config.signing
+        ? await this.signer.sign(config.signing, JSON.stringify(body))
+        : undefined;
+      const quoteId = checkDefined(body.quoteId, 'quoteId is not defined');
+      return this.connections.get(config).request(quoteId, body, axiosConfig.timeout, signatureHeaders);
+    }
+
+    const { data, config: signedConfig } = await this.signRequest(config, body, axiosConfig);
+    return axios.post(config.endpoint, data, signedConfig);
+  }
+
+  // signed bodies are sent pre-serialized so the filler can verify exactly the bytes that were signed
+  private async signRequest<T>(
+    config: WebhookConfiguration,
+    body: T,
+    axiosConfig: AxiosRequestConfig
+  ): Promise<{ data: T | string; config: AxiosRequestConfig }> {
+    if (!config.signing) {
+      return { data: body, config: axiosConfig };
+    }
+
+    const data = JSON.stringify(body);
+    const signatureHeaders = await this.signer.sign(config.signing, data);
+    return {
+      data,
+      config: {
+        ...axiosConfig,
+        headers: { ...axiosConfig.headers, 'Content-Type': 'application/json', ...signatureHeaders },
+      },
+    };
+  }
+}
+
+type OpposingQuote = {
+  quoteId?: string;
+  response: RfqTransportResponse;
+  latencyMs: number;
+};
+
+// same-chain requests go to endpoints configured for the chain,
+// cross-chain requests only to endpoints declaring the chain pair
+function supportsChains(config: WebhookConfiguration, tokenInChainId: number, tokenOutChainId: number): boolean {
+  if (tokenInChainId === tokenOutChainId) {
+    return config.chainIds === undefined || config.chainIds.includes(tokenInChainId);
+  }
+  return !!config.crossChainRoutes?.some(
+    (route) => route.tokenInChainId === tokenInChainId && route.tokenOutChainId === tokenOutChainId
+  );
+}
+
+function requestsOpposingQuote(config: WebhookConfiguration, request: QuoteRequest): boolean {
+  // the opposing request runs the other way, so the endpoint must support the reverse chain pair
+  if (!supportsChains(config, request.tokenOutChainId, request.tokenInChainId)) {
+    return false;
+  }
+  if (!config.opposingQuotes) {
+    return true;
+  }
+  const { enabled, chainIds } = config.opposingQuotes;
+  return enabled && (chainIds === undefined || chainIds.includes(request.tokenInChainId));
+}
+
+// the filler's opposing quote, if it was a valid quote
+function toOpposingQuote(request: QuoteRequest, opposing: OpposingQuote | undefined): QuoteResponse | undefined {
+  if (!opposing) {
+    return undefined;
+  }
+  const opposingRequest = request.toOpposingRequest();
+  const { response, validationError } = QuoteResponse.fromRFQ(
+    opposingRequest,
+    opposing.response.data,
+    opposingRequest.type
+  );
+  return validationError || isNonQuote(opposingRequest, opposing.response, response) ? undefined : response;
 }
 
 // returns true if the given hook response is an explicit non-quote
@@ -303,7 +596,7 @@ export class WebhookQuoter implements Quoter {
 // valid non-quote responses:
 // - 404
 // - 0 amount quote
-function isNonQuote(request: QuoteRequest, hookResponse: AxiosResponse, parsedResponse: QuoteResponse): boolean {
+function isNonQuote(request: QuoteRequest, hookResponse: RfqTransportResponse, parsedResponse: QuoteResponse): boolean {
   if (hookResponse.status === 404) {
     return true;
   }
@@ -315,3 +608,25 @@ function isNonQuote(request: QuoteRequest, hookResponse: AxiosResponse, parsedRe
 
   return false;
 }
+
+// returns true if the quote was signed by one of the filler's registered addresses
+function hasValidSignature(config: WebhookConfiguration, response: QuoteResponse, signature?: string): boolean {
+  if (!signature || !config.addresses?.length) {
+    return false;
+  }
+
+  const signer = recoverRfqResponseSigner(
+    {
+      chainId: response.chainId,
+      requestId: response.requestId,
+      quoteId: response.quoteId,
+      tokenIn: response.tokenIn,
+      tokenOut: response.tokenOut,
+      amountIn: response.amountIn.toString(),
+      amountOut: response.amountOut.toString(),
+      filler: response.filler,
+    },
+    signature
+  );
+  return !!signer && config.addresses.some((address) => address.toLowerCase() === signer.toLowerCase());
+}
@@ -6,10 +6,18 @@ export enum QuoterType {
   RFQ = 'RFQ',
 }
 
+// called by streaming quoters as each quote arrives
+// returns false if the auction has already closed and the quote will not be considered
+export type QuoteListener = (quote: QuoteResponse) => boolean;
+
 export interface Quoter {
-  quote(request: QuoteRequest): Promise<QuoteResponse[]>;
+  quote(request: QuoteRequest, onQuote?: QuoteListener): Promise<QuoteResponse[]>;
   type(): QuoterType;
 }
 
+export * from './AdaptiveTimeoutTracker';
+export * from './FillerCircuitBreaker';
 export * from './MockQuoter';
+export * from './PriceSanityChecker';
+export * from './QuoteCollector';
 export * from './WebhookQuoter';
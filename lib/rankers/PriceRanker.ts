@@ -0,0 +1,26 @@
+import { TradeType } from '@uniswap/sdk-core';
+import { BigNumber } from 'ethers';
+
+import { QuoteRanker, RankedQuote, RankerType } from '.';
+import { QuoteRequest, QuoteResponse } from '../entities';
+
+// scores a quote by the raw amount the swapper receives or pays
+export function priceScore(request: QuoteRequest, quote: QuoteResponse): BigNumber {
+  return request.type === TradeType.EXACT_INPUT ? quote.amountOut : quote.amountIn.mul(-1);
+}
+
+// sorts best first, keeping the original order between equal scores
+export function sortByScore(ranked: RankedQuote[]): RankedQuote[] {
+  return [...ranked].sort((a, b) => (a.score.eq(b.score) ? 0 : a.score.gt(b.score) ? -1 : 1));
+}
+
+// ranks purely on price: highest amountOut for EXACT_INPUT, lowest amountIn for EXACT_OUTPUT
+export class PriceRanker implements QuoteRanker {
+  public async rank(request: QuoteRequest, quotes: QuoteResponse[]): Promise<RankedQuote[]> {
+    return sortByScore(quotes.map((quote) => ({ quote, score: priceScore(request, quote) })));
+  }
+
+  public type(): RankerType {
+    return RankerType.PRICE_ONLY;
+  }
+}
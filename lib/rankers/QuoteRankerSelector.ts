@@ -0,0 +1,48 @@
+import Logger from 'bunyan';
+
+import { QuoteRanker, RankerType } from '.';
+import { RankerConfig, RankingConfig } from '../config/ranking';
+import { QuoteRequest } from '../entities';
+import { CircuitBreakerConfigurationProvider } from '../providers/circuit-breaker';
+import { PriceRanker } from './PriceRanker';
+import { RiskAdjustedRanker } from './RiskAdjustedRanker';
+
+export const rankingPairKey = (chainId: number, tokenIn: string, tokenOut: string): string =>
+  `${chainId}:${tokenIn.toLowerCase()}:${tokenOut.toLowerCase()}`;
+
+// picks the ranking strategy for a request, preferring pair overrides, then chain overrides, then the default
+export class QuoteRankerSelector {
+  private log: Logger;
+  private rankers = new Map<RankerConfig, QuoteRanker>();
+
+  constructor(
+    _log: Logger,
+    private circuitBreakerProvider: CircuitBreakerConfigurationProvider,
+    private config: RankingConfig
+  ) {
+    this.log = _log.child({ component: 'QuoteRankerSelector' });
+  }
+
+  public select(request: QuoteRequest): QuoteRanker {
+    const pair = rankingPairKey(request.tokenInChainId, request.tokenIn, request.tokenOut);
+    const rankerConfig =
+      this.config.pairs?.[pair] ?? this.config.chains?.[request.tokenInChainId] ?? this.config.default;
+
+    let ranker = this.rankers.get(rankerConfig);
+    if (!ranker) {
+      ranker = this.build(rankerConfig);
+      this.rankers.set(rankerConfig, ranker);
+    }
+    this.log.info({ pair, ranker: ranker.type() }, 'Selected quote ranker');
+    return ranker;
+  }
+
+  private build(rankerConfig: RankerConfig): QuoteRanker {
+    switch (rankerConfig.strategy) {
+      case RankerType.RISK_ADJUSTED:
+        return new RiskAdjustedRanker(this.log, this.circuitBreakerProvider, rankerConfig);
+      case RankerType.PRICE_ONLY:
+        return new PriceRanker();
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { TradeType } from '@uniswap/sdk-core';
+import Logger from 'bunyan';
+
+import { QuoteRanker, RankedQuote, RankerType } from '.';
+import { QuoteRequest, QuoteResponse } from '../entities';
+import { CircuitBreakerConfigurationProvider } from '../providers/circuit-breaker';
+import { sortByScore } from './PriceRanker';
+
+const BPS = 10000;
+
+export interface RiskAdjustedRankerOptions {
+  // discount applied to a filler with a 100% fade rate, scaled linearly by its actual fade rate
+  fadeRatePenaltyBps: number;
+  // discount applied per second of filler response latency
+  latencyPenaltyBpsPerSecond?: number;
+  // extra discount per filler hash to account for fills that cost the swapper more gas
+  gasPenaltyBps?: { [fillerHash: string]: number };
+  // the total discount is clamped to this value
+  maxPenaltyBps?: number;
+}
+
+// ranks on price discounted by how likely the filler is to fade, how slow it is to respond
+// and how expensive its fills are
+export class RiskAdjustedRanker implements QuoteRanker {
+  private log: Logger;
+
+  constructor(
+    _log: Logger,
+    private circuitBreakerProvider: CircuitBreakerConfigurationProvider,
+    private options: RiskAdjustedRankerOptions
+  ) {
+    this.log = _log.child({ ranker: 'RiskAdjustedRanker' });
+  }
+
+  public async rank(request: QuoteRequest, quotes: QuoteResponse[]): Promise<RankedQuote[]> {
+    const fadeRates = await this.getFadeRates();
+    const ranked = quotes.map((quote) => {
+      const penaltyBps = this.penaltyBps(quote, fadeRates);
+      // a worse filler must offer proportionally more output, or ask for proportionally less input
+      const score =
+        request.type === TradeType.EXACT_INPUT
+          ? quote.amountOut.mul(BPS - penaltyBps).div(BPS)
+          : quote.amountIn
+              .mul(BPS + penaltyBps)
+              .div(BPS)
+              .mul(-1);
+      this.log.debug({ quoteId: quote.quoteId, fillerHash: quote.fillerHash, penaltyBps }, 'Risk adjusted quote');
+      return { quote, score };
+    });
+    return sortByScore(ranked);
+  }
+
+  public type(): RankerType {
+    return RankerType.RISK_ADJUSTED;
+  }
+
+  private penaltyBps(quote: QuoteResponse, fadeRates: Map<string, number>): number {
+    const { fadeRatePenaltyBps, latencyPenaltyBpsPerSecond, gasPenaltyBps, maxPenaltyBps } = this.options;
+    let penalty = 0;
+    if (quote.fillerHash) {
+      penalty += (fadeRates.get(quote.fillerHash) ?? 0) * fadeRatePenaltyBps;
+      penalty += gasPenaltyBps?.[quote.fillerHash] ?? 0;
+    }
+    if (latencyPenaltyBpsPerSecond && quote.latencyMs) {
+      penalty += (quote.latencyMs / 1000) * latencyPenaltyBpsPerSecond;
+    }
+    return Math.round(Math.min(Math.max(penalty, 0), maxPenaltyBps ?? BPS));
+  }
+
+  private async getFadeRates(): Promise<Map<string, number>> {
+    try {
+      const configs = await this.circuitBreakerProvider.getConfigurations();
+      return new Map(configs.map((c) => [c.hash, c.fadeRate]));
+    } catch (e) {
+      this.log.error({ error: e }, 'Error getting fade rates, ranking without them');
+      return new Map();
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { BigNumber } from 'ethers';
+
+import { QuoteRequest, QuoteResponse } from '../entities';
+
+export enum RankerType {
+  PRICE_ONLY = 'PRICE_ONLY',
+  RISK_ADJUSTED = 'RISK_ADJUSTED',
+}
+
+export interface RankedQuote {
+  quote: QuoteResponse;
+  // higher is better; only comparable between quotes ranked by the same ranker for the same request
+  score: BigNumber;
+}
+
+export interface QuoteRanker {
+  // returns the quotes sorted best first
+  rank(request: QuoteRequest, quotes: QuoteResponse[]): Promise<RankedQuote[]>;
+  type(): RankerType;
+}
+
+export * from './PriceRanker';
+export * from './QuoteRankerSelector';
+export * from './RiskAdjustedRanker';
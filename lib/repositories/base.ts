@@ -6,6 +6,8 @@ import {
 } from '@aws-sdk/client-redshift-data';
 import Logger from 'bunyan';
 
+import { HardQuoteCosignerData, HardQuoteStatusQuote } from '../handlers/hard-quote-status/schema';
+import { HardQuoteResponseData } from '../handlers/hard-quote/schema';
 import { SynthSwitchQueryParams, SynthSwitchTrade } from '../handlers/synth-switch';
 import { checkDefined } from '../preconditions/preconditions';
 import { sleep } from '../util/time';
@@ -65,3 +67,91 @@ export interface BaseSwitchRepository {
   putSynthSwitch(trade: SynthSwitchTrade, lower: string, enabled: boolean): Promise<void>;
   syntheticQuoteForTradeEnabled(trade: SynthSwitchQueryParams): Promise<boolean>;
 }
+
+export interface IdempotencyRecord {
+  requestId: string;
+  // hash of the unsigned order, so a retry can be told apart from a new order reusing the request id
+  orderHash: string;
+  // unset while the request is still being quoted
+  response?: HardQuoteResponseData;
+  // epoch seconds after which the record is ignored
+  ttl: number;
+}
+
+export interface BaseIdempotencyRepository {
+  // returns the unexpired record for the request id, if any
+  getRecord(requestId: string, now?: number): Promise<IdempotencyRecord | undefined>;
+  // returns false if an unexpired record already exists for the request id
+  putRecord(record: IdempotencyRecord, now?: number): Promise<boolean>;
+  // stores the response on a pending record, returns false if the request id is held by a different order
+  completeRecord(record: IdempotencyRecord): Promise<boolean>;
+  // removes a pending record so the request can be retried, completed records are kept
+  releaseRecord(requestId: string, orderHash: string): Promise<void>;
+}
+
+// a posted hard quote order, for GET /hard-quote/{orderHash}
+export interface HardQuoteOrderRecord {
+  // hash of the cosigned order
+  orderHash: string;
+  chainId: number;
+  requestId: string;
+  quoteId?: string;
+  orderType: string;
+  cosignerData: HardQuoteCosignerData;
+  quote: HardQuoteStatusQuote;
+  // epoch seconds
+  createdAt: number;
+  ttl: number;
+}
+
+export interface BaseHardQuoteOrderRepository {
+  putOrder(record: HardQuoteOrderRecord): Promise<void>;
+  getOrder(orderHash: string): Promise<HardQuoteOrderRecord | undefined>;
+}
+
+export enum QuoteAttributionSource {
+  QUOTE = 'quote',
+  HARD_QUOTE = 'hard-quote',
+}
+
+// a winning quote as returned, keyed by quote id so fills can be linked to it without redshift
+export interface QuoteAttribution {
+  quoteId: string;
+  requestId: string;
+  source: QuoteAttributionSource;
+  chainId: number;
+  swapper: string;
+  filler?: string;
+  fillerHash?: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  // hard quotes only
+  orderHash?: string;
+  cosignerData?: HardQuoteCosignerData;
+  // epoch seconds
+  quotedAt: number;
+}
+
+export interface QuoteFill {
+  orderHash?: string;
+  txHash: string;
+  filler: string;
+  amountIn?: string;
+  amountOut?: string;
+  // epoch seconds
+  filledAt: number;
+}
+
+export interface QuoteAttributionRecord extends QuoteAttribution {
+  fill?: QuoteFill;
+}
+
+export interface BaseQuoteAttributionRepository {
+  putQuote(quote: QuoteAttribution): Promise<void>;
+  // merged into the quote's record, whichever is written first
+  putFill(quoteId: string, fill: QuoteFill): Promise<void>;
+  // undefined until the quote itself is recorded
+  getAttribution(quoteId: string): Promise<QuoteAttributionRecord | undefined>;
+}
@@ -0,0 +1,77 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import Logger from 'bunyan';
+import { Entity, Table } from 'dynamodb-toolbox';
+
+import { DYNAMO_TABLE_KEY, DYNAMO_TABLE_NAME } from '../constants';
+import { BaseHardQuoteOrderRepository, HardQuoteOrderRecord } from './base';
+
+export class HardQuoteOrderRepository implements BaseHardQuoteOrderRepository {
+  static log: Logger;
+
+  static create(documentClient: DynamoDBDocumentClient): BaseHardQuoteOrderRepository {
+    this.log = Logger.createLogger({
+      name: 'DynamoHardQuoteOrderRepository',
+      serializers: Logger.stdSerializers,
+    });
+
+    const ordersTable = new Table({
+      name: DYNAMO_TABLE_NAME.HARD_QUOTE_ORDERS,
+      partitionKey: DYNAMO_TABLE_KEY.ORDER_HASH,
+      DocumentClient: documentClient,
+    });
+
+    const orderEntity = new Entity({
+      name: 'HardQuoteOrderEntity',
+      attributes: {
+        [DYNAMO_TABLE_KEY.ORDER_HASH]: { partitionKey: true },
+        // stored as a string so amounts are not read back as wrapped numbers
+        record: { type: 'string' },
+        [DYNAMO_TABLE_KEY.TTL]: { type: 'number' },
+      },
+      table: ordersTable,
+      autoExecute: true,
+    } as const);
+
+    return new HardQuoteOrderRepository(ordersTable, orderEntity);
+  }
+
+  private constructor(
+    // eslint-disable-next-line
+    // @ts-expect-error
+    private readonly _ordersTable: Table<'HardQuoteOrders', 'orderHash', null>,
+    private readonly orderEntity: Entity
+  ) {}
+
+  public async putOrder(record: HardQuoteOrderRecord): Promise<void> {
+    await this.orderEntity.put(
+      {
+        [DYNAMO_TABLE_KEY.ORDER_HASH]: record.orderHash,
+        record: JSON.stringify(record),
+        [DYNAMO_TABLE_KEY.TTL]: record.ttl,
+      },
+      { execute: true }
+    );
+  }
+
+  public async getOrder(orderHash: string): Promise<HardQuoteOrderRecord | undefined> {
+    const result = await this.orderEntity.get({ [DYNAMO_TABLE_KEY.ORDER_HASH]: orderHash }, { execute: true });
+    if (!result.Item) {
+      HardQuoteOrderRepository.log.info({ orderHash }, 'No hard quote order found');
+      return undefined;
+    }
+    return JSON.parse(result.Item.record);
+  }
+}
+
+// in-memory stand-in, for tests and local runs without dynamo
+export class MockHardQuoteOrderRepository implements BaseHardQuoteOrderRepository {
+  private orders = new Map<string, HardQuoteOrderRecord>();
+
+  public async putOrder(record: HardQuoteOrderRecord): Promise<void> {
+    this.orders.set(record.orderHash, record);
+  }
+
+  public async getOrder(orderHash: string): Promise<HardQuoteOrderRecord | undefined> {
+    return this.orders.get(orderHash);
+  }
+}
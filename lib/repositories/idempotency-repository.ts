@@ -0,0 +1,173 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import Logger from 'bunyan';
+import { Entity, Table } from 'dynamodb-toolbox';
+
+import { DYNAMO_TABLE_KEY, DYNAMO_TABLE_NAME } from '../constants';
+import { BaseIdempotencyRepository, IdempotencyRecord } from './base';
+
+const nowInSeconds = (): number => Math.floor(Date.now() / 1000);
+
+export class IdempotencyRepository implements BaseIdempotencyRepository {
+  static log: Logger;
+
+  static create(documentClient: DynamoDBDocumentClient): BaseIdempotencyRepository {
+    this.log = Logger.createLogger({
+      name: 'DynamoIdempotencyRepository',
+      serializers: Logger.stdSerializers,
+    });
+
+    const idempotencyTable = new Table({
+      name: DYNAMO_TABLE_NAME.HARD_QUOTE_IDEMPOTENCY,
+      partitionKey: DYNAMO_TABLE_KEY.REQUEST_ID,
+      DocumentClient: documentClient,
+    });
+
+    const idempotencyEntity = new Entity({
+      name: 'HardQuoteIdempotencyEntity',
+      attributes: {
+        [DYNAMO_TABLE_KEY.REQUEST_ID]: { partitionKey: true },
+        orderHash: { type: 'string' },
+        // stored as a string so amounts are not read back as wrapped numbers
+        response: { type: 'string' },
+        [DYNAMO_TABLE_KEY.TTL]: { type: 'number' },
+      },
+      table: idempotencyTable,
+      autoExecute: true,
+    } as const);
+
+    return new IdempotencyRepository(idempotencyTable, idempotencyEntity);
+  }
+
+  private constructor(
+    // eslint-disable-next-line
+    // @ts-expect-error
+    private readonly _idempotencyTable: Table<'HardQuoteIdempotency', 'requestId', null>,
+    private readonly idempotencyEntity: Entity
+  ) {}
+
+  public async getRecord(requestId: string, now = nowInSeconds()): Promise<IdempotencyRecord | undefined> {
+    const result = await this.idempotencyEntity.get(
+      { [DYNAMO_TABLE_KEY.REQUEST_ID]: requestId },
+      { execute: true, consistent: true }
+    );
+    if (!result.Item) {
+      return undefined;
+    }
+    // dynamo removes expired items lazily, so they can still be read for a while
+    const ttl = Number(result.Item.ttl);
+    if (ttl <= now) {
+      IdempotencyRepository.log.info({ requestId, ttl }, 'Ignoring expired idempotency record');
+      return undefined;
+    }
+    return {
+      requestId,
+      orderHash: result.Item.orderHash,
+      ...(result.Item.response && { response: JSON.parse(result.Item.response) }),
+      ttl,
+    };
+  }
+
+  public async putRecord(record: IdempotencyRecord, now = nowInSeconds()): Promise<boolean> {
+    try {
+      await this.idempotencyEntity.put(
+        {
+          [DYNAMO_TABLE_KEY.REQUEST_ID]: record.requestId,
+          orderHash: record.orderHash,
+          ...(record.response && { response: JSON.stringify(record.response) }),
+          [DYNAMO_TABLE_KEY.TTL]: record.ttl,
+        },
+        {
+          execute: true,
+          // only overwrite records which have expired
+          conditions: [
+            { attr: DYNAMO_TABLE_KEY.REQUEST_ID, exists: false },
+            { or: true, attr: DYNAMO_TABLE_KEY.TTL, lte: now },
+          ],
+        }
+      );
+      return true;
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  public async completeRecord(record: IdempotencyRecord): Promise<boolean> {
+    try {
+      await this.idempotencyEntity.put(
+        {
+          [DYNAMO_TABLE_KEY.REQUEST_ID]: record.requestId,
+          orderHash: record.orderHash,
+          response: JSON.stringify(record.response),
+          [DYNAMO_TABLE_KEY.TTL]: record.ttl,
+        },
+        {
+          execute: true,
+          conditions: [{ attr: DYNAMO_TABLE_KEY.ORDER_HASH, eq: record.orderHash }],
+        }
+      );
+      return true;
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  public async releaseRecord(requestId: string, orderHash: string): Promise<void> {
+    try {
+      await this.idempotencyEntity.delete(
+        { [DYNAMO_TABLE_KEY.REQUEST_ID]: requestId },
+        {
+          execute: true,
+          conditions: [
+            { attr: DYNAMO_TABLE_KEY.ORDER_HASH, eq: orderHash },
+            { attr: 'response', exists: false },
+          ],
+        }
+      );
+    } catch (e) {
+      // the record was completed, or taken over by another order after expiring
+      if (e instanceof Error && e.name === 'ConditionalCheckFailedException') {
+        return;
+      }
+      throw e;
+    }
+  }
+}
+
+// in-memory stand-in, for tests and local runs without dynamo
+export class MockIdempotencyRepository implements BaseIdempotencyRepository {
+  private records = new Map<string, IdempotencyRecord>();
+
+  public async getRecord(requestId: string, now = nowInSeconds()): Promise<IdempotencyRecord | undefined> {
+    const record = this.records.get(requestId);
+    return record && record.ttl > now ? record : undefined;
+  }
+
+  public async putRecord(record: IdempotencyRecord, now = nowInSeconds()): Promise<boolean> {
+    if (await this.getRecord(record.requestId, now)) {
+      return false;
+    }
+    this.records.set(record.requestId, record);
+    return true;
+  }
+
+  public async completeRecord(record: IdempotencyRecord): Promise<boolean> {
+    if (this.records.get(record.requestId)?.orderHash !== record.orderHash) {
+      return false;
+    }
+    this.records.set(record.requestId, record);
+    return true;
+  }
+
+  public async releaseRecord(requestId: string, orderHash: string): Promise<void> {
+    const record = this.records.get(requestId);
+    if (record && record.orderHash === orderHash && !record.response) {
+      this.records.delete(requestId);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import Logger from 'bunyan';
+import { Entity, Table } from 'dynamodb-toolbox';
+
+import { DYNAMO_TABLE_KEY, DYNAMO_TABLE_NAME, QUOTE_ATTRIBUTION_TTL_SECS } from '../constants';
+import { BaseQuoteAttributionRepository, QuoteAttribution, QuoteAttributionRecord, QuoteFill } from './base';
+
+export class QuoteAttributionRepository implements BaseQuoteAttributionRepository {
+  static log: Logger;
+
+  static create(documentClient: DynamoDBDocumentClient): BaseQuoteAttributionRepository {
+    this.log = Logger.createLogger({
+      name: 'DynamoQuoteAttributionRepository',
+      serializers: Logger.stdSerializers,
+    });
+
+    const attributionTable = new Table({
+      name: DYNAMO_TABLE_NAME.QUOTE_ATTRIBUTION,
+      partitionKey: DYNAMO_TABLE_KEY.QUOTE_ID,
+      DocumentClient: documentClient,
+    });
+
+    const attributionEntity = new Entity({
+      name: 'QuoteAttributionEntity',
+      attributes: {
+        [DYNAMO_TABLE_KEY.QUOTE_ID]: { partitionKey: true },
+        // the quote and its fill are separate attributes so either can be written first
+        // both stored as strings so amounts are not read back as wrapped numbers
+        quote: { type: 'string' },
+        fill: { type: 'string' },
+        [DYNAMO_TABLE_KEY.TTL]: { type: 'number' },
+      },
+      table: attributionTable,
+      autoExecute: true,
+    } as const);
+
+    return new QuoteAttributionRepository(attributionTable, attributionEntity);
+  }
+
+  private constructor(
+    // eslint-disable-next-line
+    // @ts-expect-error
+    private readonly _attributionTable: Table<'QuoteAttribution', 'quoteId', null>,
+    private readonly attributionEntity: Entity
+  ) {}
+
+  public async putQuote(quote: QuoteAttribution): Promise<void> {
+    await this.attributionEntity.update(
+      {
+        [DYNAMO_TABLE_KEY.QUOTE_ID]: quote.quoteId,
+        quote: JSON.stringify(quote),
+        [DYNAMO_TABLE_KEY.TTL]: quote.quotedAt + QUOTE_ATTRIBUTION_TTL_SECS,
+      },
+      { execute: true }
+    );
+  }
+
+  public async putFill(quoteId: string, fill: QuoteFill): Promise<void> {
+    await this.attributionEntity.update(
+      {
+        [DYNAMO_TABLE_KEY.QUOTE_ID]: quoteId,
+        fill: JSON.stringify(fill),
+        // overwritten by the quote's own expiry if the quote is written later
+        [DYNAMO_TABLE_KEY.TTL]: fill.filledAt + QUOTE_ATTRIBUTION_TTL_SECS,
+      },
+      { execute: true }
+    );
+  }
+
+  public async getAttribution(quoteId: string): Promise<QuoteAttributionRecord | undefined> {
+    const result = await this.attributionEntity.get({ [DYNAMO_TABLE_KEY.QUOTE_ID]: quoteId }, { execute: true });
+    if (!result.Item?.quote) {
+      QuoteAttributionRepository.log.info({ quoteId, hasFill: !!result.Item?.fill }, 'No quote attribution found');
+      return undefined;
+    }
+    return {
+      ...JSON.parse(result.Item.quote),
+      ...(result.Item.fill && { fill: JSON.parse(result.Item.fill) }),
+    };
+  }
+}
+
+// in-memory stand-in, for tests and local runs without dynamo
+export class MockQuoteAttributionRepository implements BaseQuoteAttributionRepository {
+  private quotes = new Map<string, QuoteAttribution>();
+  private fills = new Map<string, QuoteFill>();
+
+  public async putQuote(quote: QuoteAttribution): Promise<void> {
+    this.quotes.set(quote.quoteId, quote);
+  }
+
+  public async putFill(quoteId: string, fill: QuoteFill): Promise<void> {
+    this.fills.set(quoteId, fill);
+  }
+
+  public async getAttribution(quoteId: string): Promise<QuoteAttributionRecord | undefined> {
+    const quote = this.quotes.get(quoteId);
+    if (!quote) {
+      return undefined;
+    }
+    const fill = this.fills.get(quoteId);
+    return { ...quote, ...(fill && { fill }) };
+  }
+}
@@ -0,0 +1,39 @@
+export enum WebhookTransport {
+  HTTP = 'http',
+  WS = 'ws',
+}
+
+// sent to websocket fillers for each rfq
+// body is the same json posted to http fillers, and any signature headers cover JSON.stringify(body)
+export type WebSocketRfqRequest = {
+  type: 'rfq';
+  quoteId: string;
+  body: object;
+  headers?: { [key: string]: string };
+};
+
+// sent back by websocket fillers, matched to the request by quoteId
+// status mirrors http semantics, so 404 is an explicit non-quote
+export type WebSocketRfqResponse = {
+  type: 'rfq_response';
+  quoteId: string;
+  status?: number;
+  data: unknown;
+};
+
+export type RfqTransportResponse = {
+  status: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  data: any;
+};
+
+export class RfqTransportError extends Error {
+  constructor(message: string, public readonly timeout: boolean) {
+    super(message);
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, RfqTransportError.prototype);
+  }
+}
+
+export * from './mock';
+export * from './websocket';
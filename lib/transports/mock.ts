@@ -0,0 +1,56 @@
+import { IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+
+import { WebSocketRfqRequest, WebSocketRfqResponse } from '.';
+
+export type MockWebSocketResponder = (
+  request: WebSocketRfqRequest
+) => WebSocketRfqResponse | undefined | Promise<WebSocketRfqResponse | undefined>;
+
+// In-process websocket filler for tests
+// returning undefined from the responder leaves the request unanswered
+export class MockWebSocketFiller {
+  public requests: WebSocketRfqRequest[] = [];
+  public handshakeHeaders: IncomingHttpHeaders[] = [];
+
+  private constructor(private server: WebSocketServer, private responder: MockWebSocketResponder) {
+    this.server.on('connection', (socket, request) => {
+      this.handshakeHeaders.push(request.headers);
+      socket.on('message', async (data) => {
+        const rfq: WebSocketRfqRequest = JSON.parse(data.toString());
+        this.requests.push(rfq);
+        const response = await this.responder(rfq);
+        if (response && socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify(response));
+        }
+      });
+    });
+  }
+
+  public static start(responder: MockWebSocketResponder): Promise<MockWebSocketFiller> {
+    return new Promise((resolve) => {
+      const server: WebSocketServer = new WebSocketServer({ host: '127.0.0.1', port: 0 }, () =>
+        resolve(new MockWebSocketFiller(server, responder))
+      );
+    });
+  }
+
+  public get endpoint(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  public get connectionCount(): number {
+    return this.handshakeHeaders.length;
+  }
+
+  // simulate a dropped connection
+  public dropConnections(): void {
+    this.server.clients.forEach((client) => client.terminate());
+  }
+
+  public stop(): Promise<void> {
+    this.dropConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,230 @@
+import { metric, MetricLoggerUnit } from '@uniswap/smart-order-router';
+import Logger from 'bunyan';
+import WebSocket from 'ws';
+
+import { RfqTransportError, RfqTransportResponse, WebSocketRfqRequest, WebSocketRfqResponse } from '.';
+import { Metric, metricContext } from '../entities';
+import { WebhookConfiguration } from '../providers';
+
+export interface WebSocketConnectionOptions {
+  // a ping is sent this often, and the connection is dropped if the previous one was not answered
+  heartbeatIntervalMs: number;
+  // reconnects back off exponentially between these bounds
+  reconnectMinDelayMs: number;
+  reconnectMaxDelayMs: number;
+}
+
+export const DEFAULT_WEBSOCKET_OPTIONS: WebSocketConnectionOptions = {
+  heartbeatIntervalMs: 10_000,
+  reconnectMinDelayMs: 100,
+  reconnectMaxDelayMs: 5_000,
+};
+
+type PendingRequest = {
+  resolve: (response: RfqTransportResponse) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
+// A long-lived connection to a single websocket filler
+// requests are multiplexed over the connection and matched to responses by quoteId
+export class WebSocketConnection {
+  private log: Logger;
+  private socket: WebSocket | undefined;
+  private opening: Promise<WebSocket> | undefined;
+  private pending = new Map<string, PendingRequest>();
+  private heartbeat: NodeJS.Timeout | undefined;
+  private reconnectTimer: NodeJS.Timeout | undefined;
+  private awaitingPong = false;
+  private reconnectAttempts = 0;
+  private closed = false;
+
+  constructor(
+    _log: Logger,
+    private name: string,
+    public readonly endpoint: string,
+    // sent on the handshake to authenticate the connection
+    private headers: { [key: string]: string } = {},
+    private options: WebSocketConnectionOptions = DEFAULT_WEBSOCKET_OPTIONS
+  ) {
+    this.log = _log.child({ component: 'WebSocketConnection', endpoint });
+  }
+
+  public request(
+    quoteId: string,
+    body: object,
+    timeoutMs: number,
+    headers?: { [key: string]: string }
+  ): Promise<RfqTransportResponse> {
+    return new Promise((resolve, reject) => {
+      // the timeout covers (re)connecting as well as the filler's response
+      const timer = setTimeout(
+        () => this.fail(quoteId, new RfqTransportError(`timeout of ${timeoutMs}ms exceeded`, true)),
+        timeoutMs
+      );
+      this.pending.set(quoteId, { resolve, reject, timer });
+
+      const request: WebSocketRfqRequest = { type: 'rfq', quoteId, body, ...(headers && { headers }) };
+      this.connect()
+        .then((socket) => socket.send(JSON.stringify(request)))
+        .catch((e) => this.fail(quoteId, e));
+    });
+  }
+
+  public close(): void {
+    this.closed = true;
+    this.stopHeartbeat();
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.failAll(new RfqTransportError('connection closed', false));
+  }
+
+  public get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (this.closed) {
+      return Promise.reject(new RfqTransportError('connection closed', false));
+    }
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.opening) {
+      this.opening = new Promise((resolve, reject) => {
+        const socket = new WebSocket(this.endpoint, { headers: this.headers });
+        socket.on('open', () => {
+          this.socket = socket;
+          this.opening = undefined;
+          this.reconnectAttempts = 0;
+          this.startHeartbeat(socket);
+          this.log.info('WebSocket connected');
+          resolve(socket);
+        });
+        socket.on('error', (e) => {
+          this.log.error({ error: e }, 'WebSocket error');
+          reject(new RfqTransportError(`connection failed: ${e.message}`, false));
+        });
+        socket.on('message', (data) => this.onMessage(data.toString()));
+        socket.on('pong', () => {
+          this.awaitingPong = false;
+        });
+        socket.on('close', () => this.onClose(socket));
+      });
+    }
+    return this.opening;
+  }
+
+  private onMessage(raw: string): void {
+    let message: WebSocketRfqResponse;
+    try {
+      message = JSON.parse(raw);
+    } catch (e) {
+      this.log.error({ raw }, 'Unparseable WebSocket message');
+      return;
+    }
+
+    const pending = this.pending.get(message.quoteId);
+    if (message.type !== 'rfq_response' || !pending) {
+      this.log.debug({ message }, 'Unmatched WebSocket message');
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.pending.delete(message.quoteId);
+    pending.resolve({ status: message.status ?? 200, data: message.data });
+  }
+
+  private onClose(socket: WebSocket): void {
+    if (this.socket === socket) {
+      this.socket = undefined;
+    }
+    this.opening = undefined;
+    this.stopHeartbeat();
+    this.failAll(new RfqTransportError('connection closed', false));
+
+    if (!this.closed) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    clearTimeout(this.reconnectTimer);
+    const delay = Math.min(
+      this.options.reconnectMaxDelayMs,
+      this.options.reconnectMinDelayMs * 2 ** this.reconnectAttempts
+    );
+    this.reconnectAttempts++;
+    this.log.info({ delay, attempt: this.reconnectAttempts }, 'WebSocket reconnecting');
+    metric.putMetric(Metric.RFQ_WS_RECONNECT, 1, MetricLoggerUnit.Count);
+    metric.putMetric(metricContext(Metric.RFQ_WS_RECONNECT, this.name), 1, MetricLoggerUnit.Count);
+
+    this.reconnectTimer = setTimeout(() => {
+      // failures schedule the next attempt through onClose
+      this.connect().catch(() => undefined);
+    }, delay);
+    this.reconnectTimer.unref();
+  }
+
+  private startHeartbeat(socket: WebSocket): void {
+    this.stopHeartbeat();
+    this.awaitingPong = false;
+    this.heartbeat = setInterval(() => {
+      if (this.awaitingPong) {
+        this.log.error('WebSocket heartbeat missed, dropping connection');
+        socket.terminate();
+        return;
+      }
+      this.awaitingPong = true;
+      socket.ping();
+    }, this.options.heartbeatIntervalMs);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+  }
+
+  private fail(quoteId: string, error: Error): void {
+    const pending = this.pending.get(quoteId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending.delete(quoteId);
+      pending.reject(error);
+    }
+  }
+
+  private failAll(error: Error): void {
+    [...this.pending.keys()].forEach((quoteId) => this.fail(quoteId, error));
+  }
+}
+
+// One connection per websocket filler, kept across quote requests
+export class WebSocketConnectionPool {
+  private log: Logger;
+  private connections = new Map<string, WebSocketConnection>();
+
+  constructor(_log: Logger, private options: WebSocketConnectionOptions = DEFAULT_WEBSOCKET_OPTIONS) {
+    this.log = _log.child({ component: 'WebSocketConnectionPool' });
+  }
+
+  public get(config: WebhookConfiguration): WebSocketConnection {
+    let connection = this.connections.get(config.hash);
+    // the endpoint may have changed on a config refresh
+    if (connection && connection.endpoint !== config.endpoint) {
+      this.log.info({ hash: config.hash, endpoint: config.endpoint }, 'WebSocket endpoint changed');
+      connection.close();
+      connection = undefined;
+    }
+    if (!connection) {
+      connection = new WebSocketConnection(this.log, config.name, config.endpoint, config.headers, this.options);
+      this.connections.set(config.hash, connection);
+    }
+    return connection;
+  }
+
+  public close(): void {
+    this.connections.forEach((connection) => connection.close());
+    this.connections.clear();
+  }
+}
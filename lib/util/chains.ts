@@ -1,25 +1,22 @@
 export enum ChainId {
   MAINNET = 1,
   GÖRLI = 5,
+  OPTIMISM = 10,
+  UNICHAIN = 130,
   POLYGON = 137,
+  BASE = 8453,
+  ARBITRUM_ONE = 42161,
+  SEPOLIA = 11155111,
 }
 
 export enum ChainName {
   // ChainNames match infura network strings
   MAINNET = 'mainnet',
   GÖRLI = 'goerli',
+  OPTIMISM = 'optimism-mainnet',
+  UNICHAIN = 'unichain-mainnet',
   POLYGON = 'polygon',
+  BASE = 'base-mainnet',
+  ARBITRUM_ONE = 'arbitrum-mainnet',
+  SEPOLIA = 'sepolia',
 }
-
-export const ID_TO_NETWORK_NAME = (id: number): ChainName => {
-  switch (id) {
-    case 1:
-      return ChainName.MAINNET;
-    case 5:
-      return ChainName.GÖRLI;
-    case 137:
-      return ChainName.POLYGON;
-    default:
-      throw new Error(`Unknown chain id: ${id}`);
-  }
-};
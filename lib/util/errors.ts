@@ -4,6 +4,23 @@ export enum ErrorCode {
   ValidationError = 'VALIDATION_ERROR',
   InternalError = 'INTERNAL_ERROR',
   QuoteError = 'QUOTE_ERROR',
+  Unauthorized = 'UNAUTHORIZED',
+  Forbidden = 'FORBIDDEN',
+  // hard quote order validation failures
+  InvalidSignature = 'INVALID_SIGNATURE',
+  OrderExpired = 'ORDER_EXPIRED',
+  UnsupportedChain = 'UNSUPPORTED_CHAIN',
+  InvalidReactor = 'INVALID_REACTOR',
+  InvalidCosigner = 'INVALID_COSIGNER',
+  InvalidNonce = 'INVALID_NONCE',
+  TokenNotAllowed = 'TOKEN_NOT_ALLOWED',
+  InvalidAmount = 'INVALID_AMOUNT',
+  IdempotencyConflict = 'IDEMPOTENCY_CONFLICT',
+  RequestInProgress = 'REQUEST_IN_PROGRESS',
+  OrderRejected = 'ORDER_REJECTED',
+  OrderServiceError = 'ORDER_SERVICE_ERROR',
+  OrderNotFound = 'ORDER_NOT_FOUND',
+  ScreeningUnavailable = 'SCREENING_UNAVAILABLE',
 }
 
 export abstract class CustomError extends Error {
@@ -31,11 +48,12 @@ export class NoQuotesAvailable extends CustomError {
   }
 }
 
+// the order service rejected the cosigned order
 export class OrderPostError extends CustomError {
   private static MESSAGE = 'Error posting order';
 
-  constructor() {
-    super(OrderPostError.MESSAGE);
+  constructor(private upstreamErrorCode?: string, upstreamDetail?: string) {
+    super(upstreamDetail ? `${OrderPostError.MESSAGE}: ${upstreamDetail}` : OrderPostError.MESSAGE);
     // Set the prototype explicitly.
     Object.setPrototypeOf(this, OrderPostError.prototype);
   }
@@ -44,7 +62,30 @@ export class OrderPostError extends CustomError {
     return {
       statusCode: 400,
       body: JSON.stringify({
-        errorCode: ErrorCode.QuoteError,
+        errorCode: ErrorCode.OrderRejected,
+        detail: this.message,
+        upstreamErrorCode: this.upstreamErrorCode,
+        id,
+      }),
+    };
+  }
+}
+
+// the order service could not be reached or failed, even after retries
+export class OrderServiceUnavailableError extends CustomError {
+  private static MESSAGE = 'Order service unavailable';
+
+  constructor() {
+    super(OrderServiceUnavailableError.MESSAGE);
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, OrderServiceUnavailableError.prototype);
+  }
+
+  toJSON(id?: string): APIGatewayProxyResult {
+    return {
+      statusCode: 502,
+      body: JSON.stringify({
+        errorCode: ErrorCode.OrderServiceError,
         detail: this.message,
         id,
       }),
@@ -72,3 +113,148 @@ export class UnknownOrderCosignerError extends CustomError {
     };
   }
 }
+
+export class InvalidRequestSignatureError extends CustomError {
+  private static MESSAGE = 'Invalid request signature';
+
+  constructor(reason: string) {
+    super(`${InvalidRequestSignatureError.MESSAGE}: ${reason}`);
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, InvalidRequestSignatureError.prototype);
+  }
+
+  toJSON(id?: string): APIGatewayProxyResult {
+    return {
+      statusCode: 401,
+      body: JSON.stringify({
+        errorCode: ErrorCode.Unauthorized,
+        detail: this.message,
+        id,
+      }),
+    };
+  }
+}
+
+export class SwapperBlockedError extends CustomError {
+  private static MESSAGE = 'Address is not permitted';
+
+  constructor() {
+    super(SwapperBlockedError.MESSAGE);
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, SwapperBlockedError.prototype);
+  }
+
+  toJSON(id?: string): APIGatewayProxyResult {
+    return {
+      statusCode: 403,
+      body: JSON.stringify({
+        errorCode: ErrorCode.Forbidden,
+        detail: this.message,
+        id,
+      }),
+    };
+  }
+}
+
+export class UnsupportedOrderTypeError extends CustomError {
+  constructor(orderType: string) {
+    super(`Unsupported order type: ${orderType}`);
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, UnsupportedOrderTypeError.prototype);
+  }
+
+  toJSON(id?: string): APIGatewayProxyResult {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({
+        errorCode: ErrorCode.ValidationError,
+        detail: this.message,
+        id,
+      }),
+    };
+  }
+}
+
+// a hard quote order which cannot be cosigned, errorCode says which check failed
+export class OrderValidationError extends CustomError {
+  constructor(public errorCode: ErrorCode, detail: string) {
+    super(detail);
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, OrderValidationError.prototype);
+  }
+
+  toJSON(id?: string): APIGatewayProxyResult {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({
+        errorCode: this.errorCode,
+        detail: this.message,
+        id,
+      }),
+    };
+  }
+}
+
+export class IdempotencyConflictError extends CustomError {
+  private static MESSAGE = 'Request id was already used for a different order';
+
+  constructor() {
+    super(IdempotencyConflictError.MESSAGE);
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, IdempotencyConflictError.prototype);
+  }
+
+  toJSON(id?: string): APIGatewayProxyResult {
+    return {
+      statusCode: 409,
+      body: JSON.stringify({
+        errorCode: ErrorCode.IdempotencyConflict,
+        detail: this.message,
+        id,
+      }),
+    };
+  }
+}
+
+export class RequestInProgressError extends CustomError {
+  private static MESSAGE = 'Request id is still being quoted, retry later';
+
+  constructor() {
+    super(RequestInProgressError.MESSAGE);
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, RequestInProgressError.prototype);
+  }
+
+  toJSON(id?: string): APIGatewayProxyResult {
+    return {
+      statusCode: 409,
+      body: JSON.stringify({
+        errorCode: ErrorCode.RequestInProgress,
+        detail: this.message,
+        id,
+      }),
+    };
+  }
+}
+
+// the swapper blocklist has never loaded, so requests cannot be screened
+export class ScreeningUnavailableError extends CustomError {
+  private static MESSAGE = 'Swapper screening unavailable';
+
+  constructor() {
+    super(ScreeningUnavailableError.MESSAGE);
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, ScreeningUnavailableError.prototype);
+  }
+
+  toJSON(id?: string): APIGatewayProxyResult {
+    return {
+      statusCode: 503,
+      body: JSON.stringify({
+        errorCode: ErrorCode.ScreeningUnavailable,
+        detail: this.message,
+        id,
+      }),
+    };
+  }
+}
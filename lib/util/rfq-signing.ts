@@ -0,0 +1,193 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+
+export enum RfqSigningScheme {
+  HMAC = 'hmac',
+  EIP191 = 'eip191',
+}
+
+export interface RfqSigningConfiguration {
+  scheme: RfqSigningScheme;
+  // name of the environment variable holding the filler's shared hmac secret
+  // or, for eip191, the service private key
+  secretRef: string;
+}
+
+export const RFQ_SIGNATURE_HEADER = 'x-uniswapx-signature';
+export const RFQ_TIMESTAMP_HEADER = 'x-uniswapx-timestamp';
+export const RFQ_NONCE_HEADER = 'x-uniswapx-nonce';
+
+// signatures older than this are rejected, and nonces are remembered for this long
+export const DEFAULT_RFQ_SIGNATURE_MAX_AGE_MS = 30_000;
+
+export type RfqSignatureHeaders = {
+  [RFQ_SIGNATURE_HEADER]: string;
+  [RFQ_TIMESTAMP_HEADER]: string;
+  [RFQ_NONCE_HEADER]: string;
+};
+
+export type RfqVerificationKey =
+  | { scheme: RfqSigningScheme.HMAC; secret: string }
+  // the address of the service key
+  | { scheme: RfqSigningScheme.EIP191; address: string };
+
+// per-filler enforcement of signatures on RFQ responses
+export enum ResponseSignatureMode {
+  // verify and report, but still accept quotes with a missing or wrong signature
+  MONITOR = 'monitor',
+  // reject quotes with a missing or wrong signature
+  ENFORCE = 'enforce',
+}
+
+export type RfqResponseSigningFields = {
+  chainId: number;
+  requestId: string;
+  quoteId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  filler?: string;
+};
+
+export type RfqSignatureVerification = { valid: true } | { valid: false; reason: string };
+
+// the exact string that is signed; fillers must rebuild it from the raw request body
+export function rfqSigningPayload(body: string, timestamp: string, nonce: string): string {
+  return `${timestamp}.${nonce}.${body}`;
+}
+
+// the exact string a filler signs over its quote
+export function rfqResponseSigningPayload(fields: RfqResponseSigningFields): string {
+  return [
+    fields.chainId,
+    fields.requestId,
+    fields.quoteId,
+    fields.tokenIn.toLowerCase(),
+    fields.tokenOut.toLowerCase(),
+    fields.amountIn,
+    fields.amountOut,
+    (fields.filler ?? ethers.constants.AddressZero).toLowerCase(),
+  ].join(':');
+}
+
+// returns the address which signed the quote, or undefined if the signature is malformed
+export function recoverRfqResponseSigner(fields: RfqResponseSigningFields, signature: string): string | undefined {
+  try {
+    return ethers.utils.verifyMessage(rfqResponseSigningPayload(fields), signature);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function hmac(secret: string, payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+// Signs outgoing webhook bodies with the key referenced by each filler's signing config
+export class RfqRequestSigner {
+  private wallets = new Map<string, ethers.Wallet>();
+
+  constructor(private env: NodeJS.ProcessEnv = process.env) {}
+
+  public async sign(config: RfqSigningConfiguration, body: string, now = Date.now()): Promise<RfqSignatureHeaders> {
+    const secret = this.env[config.secretRef];
+    if (!secret) {
+      throw new Error(`Signing secret ${config.secretRef} is not defined`);
+    }
+
+    const timestamp = now.toString();
+    const nonce = randomBytes(16).toString('hex');
+    const payload = rfqSigningPayload(body, timestamp, nonce);
+
+    let signature: string;
+    switch (config.scheme) {
+      case RfqSigningScheme.HMAC:
+        signature = hmac(secret, payload);
+        break;
+      case RfqSigningScheme.EIP191:
+        signature = await this.getWallet(config.secretRef, secret).signMessage(payload);
+        break;
+      default:
+        throw new Error(`Unknown signing scheme ${config.scheme}`);
+    }
+
+    return {
+      [RFQ_SIGNATURE_HEADER]: signature,
+      [RFQ_TIMESTAMP_HEADER]: timestamp,
+      [RFQ_NONCE_HEADER]: nonce,
+    };
+  }
+
+  private getWallet(secretRef: string, privateKey: string): ethers.Wallet {
+    let wallet = this.wallets.get(secretRef);
+    if (!wallet) {
+      wallet = new ethers.Wallet(privateKey);
+      this.wallets.set(secretRef, wallet);
+    }
+    return wallet;
+  }
+}
+
+// Verifies signed webhook requests on the filler side
+// rejects stale timestamps and replayed nonces
+export class RfqSignatureVerifier {
+  private seenNonces = new Map<string, number>();
+
+  constructor(private key: RfqVerificationKey, private maxAgeMs = DEFAULT_RFQ_SIGNATURE_MAX_AGE_MS) {}
+
+  public verify(
+    body: string,
+    headers: { [name: string]: string | undefined },
+    now = Date.now()
+  ): RfqSignatureVerification {
+    const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+    const signature = lowerCased[RFQ_SIGNATURE_HEADER];
+    const timestamp = lowerCased[RFQ_TIMESTAMP_HEADER];
+    const nonce = lowerCased[RFQ_NONCE_HEADER];
+    if (!signature || !timestamp || !nonce) {
+      return { valid: false, reason: 'missing signature headers' };
+    }
+
+    if (Math.abs(now - Number(timestamp)) > this.maxAgeMs) {
+      return { valid: false, reason: 'stale timestamp' };
+    }
+
+    const payload = rfqSigningPayload(body, timestamp, nonce);
+    if (!this.checkSignature(payload, signature)) {
+      return { valid: false, reason: 'signature mismatch' };
+    }
+
+    this.pruneNonces(now);
+    if (this.seenNonces.has(nonce)) {
+      return { valid: false, reason: 'replayed nonce' };
+    }
+    this.seenNonces.set(nonce, now + this.maxAgeMs);
+
+    return { valid: true };
+  }
+
+  private checkSignature(payload: string, signature: string): boolean {
+    switch (this.key.scheme) {
+      case RfqSigningScheme.HMAC: {
+        const expected = Buffer.from(hmac(this.key.secret, payload));
+        const actual = Buffer.from(signature);
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+      }
+      case RfqSigningScheme.EIP191:
+        try {
+          return ethers.utils.verifyMessage(payload, signature).toLowerCase() === this.key.address.toLowerCase();
+        } catch (e) {
+          return false;
+        }
+    }
+  }
+
+  private pruneNonces(now: number): void {
+    for (const [nonce, expiry] of this.seenNonces) {
+      if (expiry < now) {
+        this.seenNonces.delete(nonce);
+      }
+    }
+  }
+}
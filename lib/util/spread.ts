@@ -0,0 +1,34 @@
+import { TradeType } from '@uniswap/sdk-core';
+import { BigNumber } from 'ethers';
+
+import { QuoteResponse } from '../entities';
+
+const BPS = 10_000;
+
+export interface QuoteSpread {
+  // negative if the two sides cross
+  spreadBps: number;
+  // average of both sides for the requested size, in units of the quoted token
+  midAmount: BigNumber;
+}
+
+// both sides are denominated in the token whose amount the swapper did not specify
+// for EXACT_INPUT the quote is the bid and the opposing quote the ask, and the reverse for EXACT_OUTPUT
+export function getQuoteSpread(
+  type: TradeType,
+  quote: QuoteResponse,
+  opposingQuote: QuoteResponse
+): QuoteSpread | undefined {
+  const [bid, ask] =
+    type === TradeType.EXACT_INPUT
+      ? [quote.amountOut, opposingQuote.amountIn]
+      : [opposingQuote.amountOut, quote.amountIn];
+  const midAmount = bid.add(ask).div(2);
+  if (midAmount.isZero()) {
+    return undefined;
+  }
+  return {
+    spreadBps: ask.sub(bid).mul(BPS).div(midAmount).toNumber(),
+    midAmount,
+  };
+}
@@ -0,0 +1,37 @@
+import { BigNumber } from 'ethers';
+import { formatUnits } from 'ethers/lib/utils';
+
+import { TokenMetadata, TokenPairMetadata } from '../providers/tokens';
+
+export interface TokenLogFields {
+  tokenInSymbol?: string;
+  tokenInDecimals?: number;
+  tokenOutSymbol?: string;
+  tokenOutDecimals?: number;
+}
+
+export function tokenLogFields(tokens?: TokenPairMetadata): TokenLogFields {
+  return {
+    tokenInSymbol: tokens?.tokenIn?.symbol,
+    tokenInDecimals: tokens?.tokenIn?.decimals,
+    tokenOutSymbol: tokens?.tokenOut?.symbol,
+    tokenOutDecimals: tokens?.tokenOut?.decimals,
+  };
+}
+
+// the USD value of an amount in base units, undefined for unpriced tokens
+export function toUsd(amount: BigNumber, token?: TokenMetadata): number | undefined {
+  if (token?.priceUsd === undefined) {
+    return undefined;
+  }
+  return Number(formatUnits(amount, token.decimals)) * token.priceUsd;
+}
+
+// values a trade by its input, falling back to its output if only that token is priced
+export function getNotionalUsd(
+  amountIn: BigNumber,
+  amountOut: BigNumber,
+  tokens?: TokenPairMetadata
+): number | undefined {
+  return toUsd(amountIn, tokens?.tokenIn) ?? toUsd(amountOut, tokens?.tokenOut);
+}
@@ -1,7 +1,7 @@
 import { BigNumber, ethers } from 'ethers';
 import Joi, { CustomHelpers } from 'joi';
 
-import { SUPPORTED_CHAINS } from '../config/chains';
+import { ChainRoute, chainsWithRoute } from '../config/chains';
 
 export class FieldValidator {
   public static readonly address = Joi.string().custom((value: string, helpers: CustomHelpers<string>) => {
@@ -28,7 +28,11 @@ export class FieldValidator {
 
   public static readonly chainId = Joi.number()
     .integer()
-    .valid(...SUPPORTED_CHAINS);
+    .valid(...chainsWithRoute(ChainRoute.QUOTE));
+
+  public static readonly hardQuoteChainId = Joi.number()
+    .integer()
+    .valid(...chainsWithRoute(ChainRoute.HARD_QUOTE));
 
   public static readonly requestId = Joi.string().guid({ version: 'uuidv4' });
 
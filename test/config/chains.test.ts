@@ -0,0 +1,91 @@
+import {
+  ChainConfiguration,
+  ChainRoute,
+  chainsWithRoute,
+  CHAIN_REGISTRY,
+  getChainConfiguration,
+  ID_TO_NETWORK_NAME,
+  SUPPORTED_CHAINS,
+  validateChainRegistry,
+} from '../../lib/config/chains';
+import { ChainId, ChainName } from '../../lib/util/chains';
+
+const VALID_CONFIG: ChainConfiguration = {
+  name: ChainName.MAINNET,
+  decayStartDelaySecs: 24,
+  decayDurationSecs: 60,
+  exclusivityOverrideBps: 100,
+  reactor: '0x00000011F84B9aa48e5f8aA8B9897600006289Be',
+  routes: [ChainRoute.QUOTE, ChainRoute.HARD_QUOTE],
+};
+
+describe('chain registry', () => {
+  it('is valid', () => {
+    expect(() => validateChainRegistry()).not.toThrow();
+  });
+
+  it('supports every registered chain', () => {
+    expect(SUPPORTED_CHAINS).toEqual(expect.arrayContaining([ChainId.MAINNET, ChainId.ARBITRUM_ONE, ChainId.BASE]));
+    expect(SUPPORTED_CHAINS).toHaveLength(Object.keys(CHAIN_REGISTRY).length);
+  });
+
+  it('keeps the existing decay parameters', () => {
+    expect(getChainConfiguration(ChainId.MAINNET)).toMatchObject({ decayStartDelaySecs: 24, decayDurationSecs: 60 });
+    expect(getChainConfiguration(ChainId.POLYGON)).toMatchObject({ decayStartDelaySecs: 10, decayDurationSecs: 30 });
+  });
+
+  it('enables hard quotes on the chains that had them before the registry', () => {
+    expect(chainsWithRoute(ChainRoute.HARD_QUOTE)).toEqual(
+      expect.arrayContaining([ChainId.MAINNET, ChainId.GÖRLI, ChainId.POLYGON])
+    );
+  });
+
+  it('filters chains by route', () => {
+    const registry = {
+      [ChainId.MAINNET]: VALID_CONFIG,
+      [ChainId.BASE]: { ...VALID_CONFIG, name: ChainName.BASE, routes: [ChainRoute.QUOTE] },
+    };
+    expect(chainsWithRoute(ChainRoute.QUOTE, registry)).toEqual([ChainId.MAINNET, ChainId.BASE]);
+    expect(chainsWithRoute(ChainRoute.HARD_QUOTE, registry)).toEqual([ChainId.MAINNET]);
+  });
+
+  it('maps chain ids to network names', () => {
+    expect(ID_TO_NETWORK_NAME(ChainId.ARBITRUM_ONE)).toEqual(ChainName.ARBITRUM_ONE);
+    expect(() => ID_TO_NETWORK_NAME(999999)).toThrow('Unknown chain id: 999999');
+  });
+
+  describe('validateChainRegistry', () => {
+    it('accepts a valid registry', () => {
+      expect(() => validateChainRegistry({ [ChainId.MAINNET]: VALID_CONFIG })).not.toThrow();
+    });
+
+    it('rejects invalid parameters', () => {
+      expect(() =>
+        validateChainRegistry({
+          [ChainId.MAINNET]: { ...VALID_CONFIG, decayDurationSecs: 0, exclusivityOverrideBps: 20_000 },
+        })
+      ).toThrow(
+        'Invalid chain registry: chain 1: decayDurationSecs must be a positive integer; chain 1: exclusivityOverrideBps must be an integer between 0 and 10000'
+      );
+    });
+
+    it('rejects invalid addresses', () => {
+      expect(() => validateChainRegistry({ [ChainId.MAINNET]: { ...VALID_CONFIG, cosigner: '0xdead' } })).toThrow(
+        'invalid cosigner address 0xdead'
+      );
+    });
+
+    it('allows hard quotes without a reactor', () => {
+      expect(() => validateChainRegistry({ [ChainId.MAINNET]: { ...VALID_CONFIG, reactor: undefined } })).not.toThrow();
+    });
+
+    it('rejects duplicate names and empty routes', () => {
+      expect(() =>
+        validateChainRegistry({
+          [ChainId.MAINNET]: VALID_CONFIG,
+          [ChainId.SEPOLIA]: { ...VALID_CONFIG, routes: [] },
+        })
+      ).toThrow('chain 11155111: duplicate name mainnet; chain 11155111: no routes enabled');
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { DEFAULT_RANKING_CONFIG, getRankingConfig, parseRankingConfig } from '../../lib/config/ranking';
+import { RankerType } from '../../lib/rankers';
+
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+describe('ranking config', () => {
+  it('ranks on price alone if unset', () => {
+    expect(getRankingConfig({})).toEqual(DEFAULT_RANKING_CONFIG);
+  });
+
+  it('reads the ranking config from env', () => {
+    const config = {
+      default: { strategy: RankerType.PRICE_ONLY },
+      chains: { 137: { strategy: RankerType.RISK_ADJUSTED, fadeRatePenaltyBps: 100 } },
+    };
+    expect(getRankingConfig({ RANKING_CONFIG: JSON.stringify(config) })).toEqual(config);
+  });
+
+  it('lowercases pair keys', () => {
+    const config = parseRankingConfig(
+      JSON.stringify({
+        default: { strategy: RankerType.PRICE_ONLY },
+        pairs: { [`1:${TOKEN_IN}:${TOKEN_OUT}`]: { strategy: RankerType.RISK_ADJUSTED, fadeRatePenaltyBps: 200 } },
+      })
+    );
+    expect(Object.keys(config.pairs ?? {})).toEqual([`1:${TOKEN_IN.toLowerCase()}:${TOKEN_OUT.toLowerCase()}`]);
+  });
+
+  it('rejects invalid configs', () => {
+    expect(() => parseRankingConfig(JSON.stringify({ chains: {} }))).toThrow('Invalid ranking config');
+    expect(() => parseRankingConfig(JSON.stringify({ default: { strategy: RankerType.RISK_ADJUSTED } }))).toThrow(
+      'Invalid ranking config'
+    );
+    expect(() =>
+      parseRankingConfig(
+        JSON.stringify({
+          default: { strategy: RankerType.PRICE_ONLY },
+          chains: { mainnet: { strategy: 'PRICE_ONLY' } },
+        })
+      )
+    ).toThrow('Invalid ranking config');
+  });
+});
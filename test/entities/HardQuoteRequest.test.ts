@@ -2,8 +2,9 @@ import { TradeType } from '@uniswap/sdk-core';
 import { UnsignedV2DutchOrder, UnsignedV2DutchOrderInfo } from '@uniswap/uniswapx-sdk';
 import { BigNumber, ethers } from 'ethers';
 
-import { HardQuoteRequest } from '../../lib/entities';
+import { HardQuoteRequest, OrderType } from '../../lib/entities';
 import { HardQuoteRequestBody } from '../../lib/handlers/hard-quote';
+import { UnsupportedOrderTypeError } from '../../lib/util/errors';
 
 const NOW = Math.floor(new Date().getTime() / 1000);
 const RAW_AMOUNT = BigNumber.from('1000000');
@@ -77,6 +78,11 @@ describe('QuoteRequest', () => {
     expect(request.numOutputs).toEqual(1);
     expect(request.amount).toEqual(RAW_AMOUNT);
     expect(request.type).toEqual(TradeType.EXACT_INPUT);
+    expect(request.orderType).toEqual(OrderType.Dutch_V2);
+  });
+
+  it('rejects unsupported order types', () => {
+    expect(() => makeRequest({ orderType: OrderType.Dutch_V3 })).toThrow(UnsupportedOrderTypeError);
   });
 
   it('toCleanJSON', async () => {
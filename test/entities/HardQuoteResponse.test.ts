@@ -7,8 +7,9 @@ import {
 import { ethers, Wallet } from 'ethers';
 import { parseEther } from 'ethers/lib/utils';
 
-import { HardQuoteRequest, HardQuoteResponse } from '../../lib/entities';
+import { HardQuoteRequest, HardQuoteResponse, OrderType } from '../../lib/entities';
 import { HardQuoteRequestBody } from '../../lib/handlers/hard-quote';
+import { CosignerParameters, OutputImprovementPolicy } from '../../lib/providers/parameters';
 import { getOrder } from '../handlers/hard-quote/handler.test';
 
 const QUOTE_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
@@ -34,6 +35,7 @@ describe('HardQuoteResponse', () => {
     const sig = await swapperWallet._signTypedData(domain, types, values);
     return {
       requestId: REQUEST_ID,
+      quoteId: QUOTE_ID,
       tokenInChainId: CHAIN_ID,
       tokenOutChainId: CHAIN_ID,
       encodedInnerOrder: order.serialize(),
@@ -41,15 +43,19 @@ describe('HardQuoteResponse', () => {
     };
   };
 
-  const getResponse = async (data: Partial<UnsignedV2DutchOrderInfo>, cosignerData: CosignerData) => {
-    const unsigned = getOrder(data);
+  const getResponse = async (
+    data: Partial<UnsignedV2DutchOrderInfo>,
+    cosignerData: CosignerData,
+    parameters?: CosignerParameters
+  ) => {
+    const unsigned = getOrder({ swapper: SWAPPER, ...data });
     const cosignature = cosignerWallet._signingKey().signDigest(unsigned.cosignatureHash(cosignerData));
     const order = CosignedV2DutchOrder.fromUnsignedOrder(
       unsigned,
       cosignerData,
       ethers.utils.joinSignature(cosignature)
     );
-    return new HardQuoteResponse(new HardQuoteRequest(await getRequest(unsigned)), order);
+    return new HardQuoteResponse(new HardQuoteRequest(await getRequest(unsigned)), order, parameters);
   };
 
   it('toResponseJSON', async () => {
@@ -69,12 +75,49 @@ describe('HardQuoteResponse', () => {
       requestId: REQUEST_ID,
       quoteId: QUOTE_ID,
       chainId: CHAIN_ID,
+      orderType: OrderType.Dutch_V2,
       filler: FILLER,
       encodedOrder: quoteResponse.order.serialize(),
       orderHash: quoteResponse.order.hash(),
+      parameters: {
+        exclusivityOverrideBps: '100',
+        decayStartTime: now + 100,
+        decayEndTime: now + 200,
+      },
     });
   });
 
+  it('toResponseJSON includes the parameter rule', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const quoteResponse = await getResponse(
+      {},
+      {
+        decayStartTime: now + 5,
+        decayEndTime: now + 15,
+        exclusiveFiller: FILLER,
+        exclusivityOverrideBps: 50,
+        inputAmount: parseEther('1'),
+        outputAmounts: [parseEther('1')],
+      },
+      {
+        exclusivityOverrideBps: 50,
+        decayStartDelaySecs: 5,
+        decayDurationSecs: 10,
+        outputImprovement: OutputImprovementPolicy.PRO_RATA,
+        ruleId: 'large-weth',
+        fillerFadeRate: 0.1,
+      }
+    );
+    expect(quoteResponse.toResponseJSON().parameters).toEqual({
+      exclusivityOverrideBps: '50',
+      decayStartTime: now + 5,
+      decayEndTime: now + 15,
+      outputImprovement: OutputImprovementPolicy.PRO_RATA,
+      ruleId: 'large-weth',
+    });
+    expect(quoteResponse.toLog()).toMatchObject({ parameterRuleId: 'large-weth', fillerFadeRate: 0.1 });
+  });
+
   it('toLog', async () => {
     const now = Math.floor(Date.now() / 1000);
     const quoteResponse = await getResponse(
@@ -101,53 +144,61 @@ describe('HardQuoteResponse', () => {
       filler: FILLER,
       tokenInChainId: CHAIN_ID,
       tokenOutChainId: CHAIN_ID,
+      orderType: OrderType.Dutch_V2,
+      orderHash: quoteResponse.order.hash(),
+      exclusivityOverrideBps: '100',
+      decayStartTime: now + 100,
+      decayEndTime: now + 200,
+      outputImprovement: undefined,
+      parameterRuleId: undefined,
+      fillerFadeRate: undefined,
     });
+  });
 
-    it('amountOut uses post cosigned resolution', async () => {
-      const now = Math.floor(Date.now() / 1000);
-      const quoteResponse = await getResponse(
-        {},
-        {
-          decayStartTime: now + 100,
-          decayEndTime: now + 200,
-          exclusiveFiller: FILLER,
-          exclusivityOverrideBps: 100,
-          inputAmount: parseEther('1'),
-          outputAmounts: [parseEther('2')],
-        }
-      );
-      expect(quoteResponse.amountOut).toEqual(parseEther('2'));
-    });
+  it('amountOut uses post cosigned resolution', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const quoteResponse = await getResponse(
+      {},
+      {
+        decayStartTime: now + 100,
+        decayEndTime: now + 200,
+        exclusiveFiller: FILLER,
+        exclusivityOverrideBps: 100,
+        inputAmount: parseEther('1'),
+        outputAmounts: [parseEther('2')],
+      }
+    );
+    expect(quoteResponse.amountOut).toEqual(parseEther('2'));
+  });
 
-    it('amountIn uses post cosigned resolution', async () => {
-      const now = Math.floor(Date.now() / 1000);
-      const quoteResponse = await getResponse(
-        {
-          cosigner: cosignerWallet.address,
-          baseInput: {
-            token: TOKEN_IN,
+  it('amountIn uses post cosigned resolution', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const quoteResponse = await getResponse(
+      {
+        cosigner: cosignerWallet.address,
+        baseInput: {
+          token: TOKEN_IN,
+          startAmount: parseEther('1'),
+          endAmount: parseEther('1.1'),
+        },
+        baseOutputs: [
+          {
+            token: TOKEN_OUT,
             startAmount: parseEther('1'),
-            endAmount: parseEther('1.1'),
+            endAmount: parseEther('1'),
+            recipient: ethers.constants.AddressZero,
           },
-          baseOutputs: [
-            {
-              token: TOKEN_OUT,
-              startAmount: parseEther('1'),
-              endAmount: parseEther('1'),
-              recipient: ethers.constants.AddressZero,
-            },
-          ],
-        },
-        {
-          decayStartTime: now + 100,
-          decayEndTime: now + 200,
-          exclusiveFiller: FILLER,
-          exclusivityOverrideBps: 100,
-          inputAmount: parseEther('0.8'),
-          outputAmounts: [parseEther('1')],
-        }
-      );
-      expect(quoteResponse.amountIn).toEqual(parseEther('0.8'));
-    });
+        ],
+      },
+      {
+        decayStartTime: now + 100,
+        decayEndTime: now + 200,
+        exclusiveFiller: FILLER,
+        exclusivityOverrideBps: 100,
+        inputAmount: parseEther('0.8'),
+        outputAmounts: [parseEther('1')],
+      }
+    );
+    expect(quoteResponse.amountIn).toEqual(parseEther('0.8'));
   });
 });
@@ -54,6 +54,23 @@ describe('QuoteRequest', () => {
     });
   });
 
+  it('keeps both chain ids', async () => {
+    const crossChainRequest = new QuoteRequest({
+      tokenInChainId: CHAIN_ID,
+      tokenOutChainId: 137,
+      requestId: REQUEST_ID,
+      swapper: SWAPPER,
+      tokenIn: TOKEN_IN,
+      tokenOut: TOKEN_OUT,
+      amount: ethers.utils.parseEther('1'),
+      type: TradeType.EXACT_INPUT,
+      numOutputs: 1,
+    });
+    expect(crossChainRequest.tokenInChainId).toEqual(CHAIN_ID);
+    expect(crossChainRequest.tokenOutChainId).toEqual(137);
+    expect(crossChainRequest.toOpposingCleanJSON()).toMatchObject({ tokenInChainId: 137, tokenOutChainId: CHAIN_ID });
+  });
+
   it('toOpposingRequest', async () => {
     const opposingRequest = request.toOpposingRequest();
     expect(opposingRequest.toCleanJSON()).toEqual({
@@ -68,4 +85,38 @@ describe('QuoteRequest', () => {
       numOutputs: 1,
     });
   });
+
+  describe('token metadata', () => {
+    const UNI = { chainId: CHAIN_ID, address: TOKEN_IN, symbol: 'UNI', decimals: 18, priceUsd: 8 };
+    const WETH = { chainId: CHAIN_ID, address: TOKEN_OUT, symbol: 'WETH', decimals: 18 };
+    const tokenRequest = new QuoteRequest({
+      tokenInChainId: CHAIN_ID,
+      tokenOutChainId: CHAIN_ID,
+      requestId: REQUEST_ID,
+      swapper: SWAPPER,
+      tokenIn: TOKEN_IN,
+      tokenOut: TOKEN_OUT,
+      amount: ethers.utils.parseEther('2.5'),
+      type: TradeType.EXACT_INPUT,
+      numOutputs: 1,
+      tokens: { tokenIn: UNI, tokenOut: WETH },
+    });
+
+    it('values the specified amount in USD', async () => {
+      expect(tokenRequest.notionalUsd).toEqual(20);
+      expect(request.notionalUsd).toBeUndefined();
+    });
+
+    it('never sends token metadata to fillers', async () => {
+      expect(tokenRequest.toCleanJSON()).not.toHaveProperty('tokens');
+      expect(tokenRequest.toJSON()).not.toHaveProperty('tokens');
+    });
+
+    it('swaps token metadata for the opposing request', async () => {
+      const opposingRequest = tokenRequest.toOpposingRequest();
+      expect(opposingRequest.tokens).toEqual({ tokenIn: WETH, tokenOut: UNI });
+      // the opposing request is EXACT_OUTPUT, so its amount is still in UNI
+      expect(opposingRequest.notionalUsd).toEqual(20);
+    });
+  });
 });
@@ -20,6 +20,7 @@ describe('QuoteRequest', () => {
   const quoteResponse = new QuoteResponse(
     {
       chainId: CHAIN_ID,
+      tokenOutChainId: CHAIN_ID,
       amountOut: parseEther('1'),
       amountIn: parseEther('1'),
       quoteId: QUOTE_ID,
@@ -173,4 +174,19 @@ describe('QuoteRequest', () => {
       tokenOutChainId: CHAIN_ID,
     });
   });
+
+  it('toLog with token metadata', async () => {
+    const tokens = {
+      tokenIn: { chainId: CHAIN_ID, address: TOKEN_IN, symbol: 'UNI', decimals: 18 },
+      tokenOut: { chainId: CHAIN_ID, address: TOKEN_OUT, symbol: 'WETH', decimals: 18, priceUsd: 3000 },
+    };
+    expect(quoteResponse.toLog(tokens)).toMatchObject({
+      tokenInSymbol: 'UNI',
+      tokenInDecimals: 18,
+      tokenOutSymbol: 'WETH',
+      tokenOutDecimals: 18,
+      // tokenIn is not priced, so the output is used
+      notionalUsd: 3000,
+    });
+  });
 });
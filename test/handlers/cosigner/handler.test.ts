@@ -0,0 +1,118 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { default as Logger } from 'bunyan';
+import { Wallet } from 'ethers';
+
+import { ChainRoute, chainsWithRoute, CHAIN_REGISTRY, getChainConfiguration } from '../../../lib/config/chains';
+import { ApiInjector } from '../../../lib/handlers/base/api-handler';
+import {
+  ContainerInjected,
+  CosignerHandler,
+  CosignerResponse,
+  getChainCosigners,
+  RequestInjected,
+} from '../../../lib/handlers/cosigner';
+import { CosignerRegistry, LocalCosigner } from '../../../lib/providers/cosigner';
+import { ChainId } from '../../../lib/util/chains';
+
+// silent logger in tests
+const logger = Logger.createLogger({ name: 'test' });
+logger.level(Logger.FATAL);
+
+describe('Cosigner handler', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const activeWallet = Wallet.createRandom();
+  const rotatedWallet = Wallet.createRandom();
+
+  const requestInjectedMock = Promise.resolve({
+    log: logger,
+    requestId: 'test',
+  } as unknown as RequestInjected);
+
+  const getCosignerHandler = (cosignerRegistry: CosignerRegistry) =>
+    new CosignerHandler(
+      'cosigner',
+      Promise.resolve({
+        getContainerInjected: () => ({ cosignerRegistry }),
+        getRequestInjected: () => requestInjectedMock,
+      } as unknown as ApiInjector<ContainerInjected, RequestInjected, void, void>)
+    );
+
+  it('lists the active cosigners', async () => {
+    const registry = new CosignerRegistry(logger, [
+      {
+        address: rotatedWallet.address,
+        signer: new LocalCosigner(rotatedWallet.privateKey),
+        activeUntil: now - 60,
+      },
+      {
+        address: activeWallet.address,
+        signer: new LocalCosigner(activeWallet.privateKey),
+        activeFrom: now - 3600,
+      },
+    ]);
+
+    const response: APIGatewayProxyResult = await getCosignerHandler(registry).handler(
+      {} as APIGatewayProxyEvent,
+      {} as unknown as Context
+    );
+    expect(response.statusCode).toEqual(200);
+    const body: CosignerResponse = JSON.parse(response.body);
+    expect(body.cosigners).toEqual([{ address: activeWallet.address, activeFrom: now - 3600 }]);
+    expect(body.orderTypes).toEqual(['Dutch_V2']);
+    expect(response.headers).toMatchObject({ 'Cache-Control': 'public, max-age=300' });
+  });
+
+  it('lists the cosigners and defaults of each hard quote chain', async () => {
+    const registry = new CosignerRegistry(logger, [
+      { address: activeWallet.address, signer: new LocalCosigner(activeWallet.privateKey) },
+    ]);
+
+    const response: APIGatewayProxyResult = await getCosignerHandler(registry).handler(
+      {} as APIGatewayProxyEvent,
+      {} as unknown as Context
+    );
+    const body: CosignerResponse = JSON.parse(response.body);
+    expect(body.chains.map((chain) => chain.chainId)).toEqual(chainsWithRoute(ChainRoute.HARD_QUOTE));
+    expect(body.chains.find((chain) => chain.chainId === ChainId.MAINNET)).toEqual({
+      chainId: ChainId.MAINNET,
+      cosigners: [activeWallet.address],
+      reactor: getChainConfiguration(ChainId.MAINNET).reactor,
+      defaults: {
+        decayStartDelaySecs: 24,
+        decayDurationSecs: 60,
+        exclusivityOverrideBps: 100,
+        outputImprovement: 'swapper-only',
+      },
+    });
+  });
+});
+
+describe('getChainCosigners', () => {
+  it('only lists the cosigner a chain expects', () => {
+    const expected = '0x0000000000000000000000000000000000000001';
+    const registry = {
+      ...CHAIN_REGISTRY,
+      [ChainId.MAINNET]: { ...getChainConfiguration(ChainId.MAINNET), cosigner: expected },
+    };
+    expect(
+      getChainCosigners(ChainId.MAINNET, ['0x0000000000000000000000000000000000000002', expected], registry).cosigners
+    ).toEqual([expected]);
+  });
+
+  it('does not list the cosigner a chain expects while it is inactive', () => {
+    const registry = {
+      ...CHAIN_REGISTRY,
+      [ChainId.MAINNET]: {
+        ...getChainConfiguration(ChainId.MAINNET),
+        cosigner: '0x0000000000000000000000000000000000000001',
+      },
+    };
+    expect(
+      getChainCosigners(ChainId.MAINNET, ['0x0000000000000000000000000000000000000002'], registry).cosigners
+    ).toEqual([]);
+  });
+
+  it('omits the reactor on chains without one', () => {
+    expect(getChainCosigners(ChainId.POLYGON, ['0x0000000000000000000000000000000000000002']).reactor).toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { default as Logger } from 'bunyan';
+
+import { ApiInjector } from '../../../lib/handlers/base/api-handler';
+import {
+  ContainerInjected,
+  HardQuoteStatusHandler,
+  HardQuoteStatusResponse,
+  RequestInjected,
+} from '../../../lib/handlers/hard-quote-status';
+import { MockOrderServiceProvider, OrderStatus } from '../../../lib/providers';
+import { HardQuoteOrderRecord } from '../../../lib/repositories';
+import { MockHardQuoteOrderRepository } from '../../../lib/repositories/hard-quote-order-repository';
+import { ErrorCode } from '../../../lib/util/errors';
+
+// silent logger in tests
+const logger = Logger.createLogger({ name: 'test' });
+logger.level(Logger.FATAL);
+
+const ORDER_HASH = '0x' + 'ab'.repeat(32);
+const FILLER = '0x0000000000000000000000000000000000000001';
+const NOW = 1_700_000_000;
+
+const RECORD: HardQuoteOrderRecord = {
+  orderHash: ORDER_HASH,
+  chainId: 1,
+  requestId: 'a83f397c-8ef4-4801-a9b7-6e79155049f6',
+  quoteId: 'a83f397c-8ef4-4801-a9b7-6e79155049f7',
+  orderType: 'Dutch_V2',
+  cosignerData: {
+    decayStartTime: NOW + 24,
+    decayEndTime: NOW + 84,
+    exclusiveFiller: FILLER,
+    exclusivityOverrideBps: '100',
+    inputAmount: '0',
+    outputAmounts: ['0'],
+  },
+  quote: {
+    quoteId: 'a83f397c-8ef4-4801-a9b7-6e79155049f7',
+    amountIn: '1000000000000000000',
+    amountOut: '2000000000',
+    filler: FILLER,
+  },
+  createdAt: NOW,
+  ttl: NOW + 60,
+};
+
+describe('Hard quote status handler', () => {
+  let hardQuoteOrderRepository: MockHardQuoteOrderRepository;
+  let orderServiceProvider: MockOrderServiceProvider;
+
+  beforeEach(() => {
+    hardQuoteOrderRepository = new MockHardQuoteOrderRepository();
+    orderServiceProvider = new MockOrderServiceProvider();
+  });
+
+  const getStatus = (orderHash: string): Promise<APIGatewayProxyResult> =>
+    new HardQuoteStatusHandler(
+      'hardQuoteStatus',
+      Promise.resolve({
+        getContainerInjected: () => ({ hardQuoteOrderRepository, orderServiceProvider }),
+        getRequestInjected: () => Promise.resolve({ log: logger, requestId: 'test', orderHash }),
+      } as unknown as ApiInjector<ContainerInjected, RequestInjected, void, void>)
+    ).handler({ pathParameters: { orderHash } } as unknown as APIGatewayProxyEvent, {} as unknown as Context);
+
+  it('returns the cosigned order and its status', async () => {
+    await hardQuoteOrderRepository.putOrder(RECORD);
+    orderServiceProvider.statuses[ORDER_HASH] = OrderStatus.FILLED;
+
+    const response = await getStatus(ORDER_HASH);
+    expect(response.statusCode).toEqual(200);
+    const body: HardQuoteStatusResponse = JSON.parse(response.body);
+    expect(body).toEqual({
+      orderHash: ORDER_HASH,
+      chainId: 1,
+      requestId: RECORD.requestId,
+      quoteId: RECORD.quoteId,
+      orderType: 'Dutch_V2',
+      filler: FILLER,
+      cosignerData: RECORD.cosignerData,
+      quote: RECORD.quote,
+      orderStatus: OrderStatus.FILLED,
+      createdAt: NOW,
+    });
+  });
+
+  it('looks up uppercase hashes in lowercase', async () => {
+    await hardQuoteOrderRepository.putOrder(RECORD);
+
+    const response = await getStatus(ORDER_HASH.toUpperCase().replace('0X', '0x'));
+    expect(response.statusCode).toEqual(200);
+    expect(JSON.parse(response.body).orderStatus).toEqual(OrderStatus.UNKNOWN);
+  });
+
+  it('returns 404 for an unknown order', async () => {
+    const response = await getStatus(ORDER_HASH);
+    expect(response.statusCode).toEqual(404);
+    expect(JSON.parse(response.body).errorCode).toEqual(ErrorCode.OrderNotFound);
+  });
+
+  it('rejects an invalid order hash', async () => {
+    const response = await getStatus('0x1234');
+    expect(response.statusCode).toEqual(400);
+    expect(JSON.parse(response.body).errorCode).toEqual(ErrorCode.ValidationError);
+  });
+});
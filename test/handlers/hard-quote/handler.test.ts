@@ -6,6 +6,8 @@ import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda
 import { default as Logger } from 'bunyan';
 import { BigNumber, ethers, Wallet } from 'ethers';
 
+import { getChainConfiguration } from '../../../lib/config/chains';
+import { DEFAULT_RANKING_CONFIG } from '../../../lib/config/ranking';
 import { HardQuoteRequest, QuoteResponse, QuoteResponseData } from '../../../lib/entities';
 import { AWSMetricsLogger } from '../../../lib/entities/aws-metrics-logger';
 import { ApiInjector } from '../../../lib/handlers/base/api-handler';
@@ -17,8 +19,24 @@ import {
   RequestInjected,
 } from '../../../lib/handlers/hard-quote';
 import { getCosignerData } from '../../../lib/handlers/hard-quote/handler';
-import { MockOrderServiceProvider } from '../../../lib/providers';
+import { HardQuoteOrderValidator } from '../../../lib/handlers/hard-quote/order-validator';
+import { MockOrderServiceProvider, OrderPostStatus } from '../../../lib/providers';
+import { MockCircuitBreakerConfigurationProvider } from '../../../lib/providers/circuit-breaker/mock';
+import { CosignerRegistry, LocalCosigner } from '../../../lib/providers/cosigner';
+import {
+  defaultCosignerParameters,
+  MockParameterRulesProvider,
+  OutputImprovementPolicy,
+  ParameterPolicy,
+} from '../../../lib/providers/parameters';
+import { MockSwapperScreeningProvider, SwapperScreeningProvider } from '../../../lib/providers/screening';
+import { MockTokenMetadataProvider, TokenMetadata, TokenMetadataProvider } from '../../../lib/providers/tokens';
 import { MOCK_FILLER_ADDRESS, MockQuoter, Quoter } from '../../../lib/quoters';
+import { QuoteRankerSelector } from '../../../lib/rankers';
+import { BaseIdempotencyRepository } from '../../../lib/repositories/base';
+import { MockHardQuoteOrderRepository } from '../../../lib/repositories/hard-quote-order-repository';
+import { MockIdempotencyRepository } from '../../../lib/repositories/idempotency-repository';
+import { MockQuoteAttributionRepository } from '../../../lib/repositories/quote-attribution-repository';
 
 jest.mock('axios');
 
@@ -28,6 +46,8 @@ const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
 const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
 const RAW_AMOUNT = BigNumber.from('1000000000000000000');
 const CHAIN_ID = 1;
+const UNI: TokenMetadata = { chainId: CHAIN_ID, address: TOKEN_IN, symbol: 'UNI', decimals: 18 };
+const WETH: TokenMetadata = { chainId: CHAIN_ID, address: TOKEN_OUT, symbol: 'WETH', decimals: 18 };
 
 // silent logger in tests
 const logger = Logger.createLogger({ name: 'test' });
@@ -39,7 +59,7 @@ export const getOrder = (data: Partial<UnsignedV2DutchOrderInfo>): UnsignedV2Dut
     Object.assign(
       {
         deadline: now + 1000,
-        reactor: ethers.constants.AddressZero,
+        reactor: getChainConfiguration(CHAIN_ID).reactor,
         swapper: ethers.constants.AddressZero,
         nonce: BigNumber.from(10),
         additionalValidationContract: ethers.constants.AddressZero,
@@ -82,23 +102,52 @@ describe('Quote handler', () => {
   );
 
   const injectorPromiseMock = (
-    quoters: Quoter[]
+    quoters: Quoter[],
+    screeningProvider: SwapperScreeningProvider = new MockSwapperScreeningProvider([]),
+    tokenMetadataProvider: TokenMetadataProvider = new MockTokenMetadataProvider([UNI, WETH]),
+    idempotencyRepository: BaseIdempotencyRepository = new MockIdempotencyRepository()
   ): Promise<ApiInjector<ContainerInjected, RequestInjected, HardQuoteRequestBody, void>> =>
     new Promise((resolve) =>
       resolve({
         getContainerInjected: () => {
           return {
             quoters,
-            cosigner: cosignerWallet._signingKey(),
-            cosignerAddress: cosignerWallet.address,
+            cosignerRegistry: new CosignerRegistry(logger, [
+              { address: cosignerWallet.address, signer: new LocalCosigner(cosignerWallet.privateKey) },
+            ]),
             orderServiceProvider: new MockOrderServiceProvider(),
+            rankerSelector: new QuoteRankerSelector(
+              logger,
+              new MockCircuitBreakerConfigurationProvider([]),
+              DEFAULT_RANKING_CONFIG
+            ),
+            screeningProvider,
+            orderValidator: new HardQuoteOrderValidator(logger, tokenMetadataProvider),
+            parameterPolicy: new ParameterPolicy(
+              logger,
+              new MockParameterRulesProvider([]),
+              new MockCircuitBreakerConfigurationProvider([])
+            ),
+            idempotencyRepository,
+            hardQuoteOrderRepository: new MockHardQuoteOrderRepository(),
+            quoteAttributionRepository: new MockQuoteAttributionRepository(),
+            tokenMetadataProvider,
           };
         },
         getRequestInjected: () => requestInjectedMock,
       } as unknown as ApiInjector<ContainerInjected, RequestInjected, HardQuoteRequestBody, void>)
     );
 
-  const getQuoteHandler = (quoters: Quoter[]) => new HardQuoteHandler('quote', injectorPromiseMock(quoters));
+  const getQuoteHandler = (
+    quoters: Quoter[],
+    screeningProvider?: SwapperScreeningProvider,
+    tokenMetadataProvider?: TokenMetadataProvider,
+    idempotencyRepository?: BaseIdempotencyRepository
+  ) =>
+    new HardQuoteHandler(
+      'quote',
+      injectorPromiseMock(quoters, screeningProvider, tokenMetadataProvider, idempotencyRepository)
+    );
 
   const getEvent = (request: HardQuoteRequestBody): APIGatewayProxyEvent =>
     ({
@@ -123,7 +172,7 @@ describe('Quote handler', () => {
 
   it('Simple request and response', async () => {
     const quoters = [new MockQuoter(logger, 1, 1)];
-    const request = await getRequest(getOrder({ cosigner: cosignerWallet.address }));
+    const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
 
     const response: APIGatewayProxyResult = await getQuoteHandler(quoters).handler(
       getEvent(request),
@@ -146,7 +195,7 @@ describe('Quote handler', () => {
 
   it('Pick the greater of two quotes - EXACT_IN', async () => {
     const quoters = [new MockQuoter(logger, 1, 1), new MockQuoter(logger, 2, 1)];
-    const request = await getRequest(getOrder({ cosigner: cosignerWallet.address }));
+    const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
 
     const response: APIGatewayProxyResult = await getQuoteHandler(quoters).handler(
       getEvent(request),
@@ -170,6 +219,7 @@ describe('Quote handler', () => {
   it('Pick the lesser of two quotes - EXACT_OUT', async () => {
     const quoters = [new MockQuoter(logger, 9, 10), new MockQuoter(logger, 8, 10)];
     const order = getOrder({
+      swapper: swapperWallet.address,
       cosigner: cosignerWallet.address,
       baseInput: {
         token: TOKEN_IN,
@@ -208,7 +258,7 @@ describe('Quote handler', () => {
 
   it('Two quoters returning the same result', async () => {
     const quoters = [new MockQuoter(logger, 1, 1), new MockQuoter(logger, 1, 1)];
-    const request = await getRequest(getOrder({ cosigner: cosignerWallet.address }));
+    const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
 
     const response: APIGatewayProxyResult = await getQuoteHandler(quoters).handler(
       getEvent(request),
@@ -245,9 +295,192 @@ describe('Quote handler', () => {
     });
   });
 
-  it.only('No quotes', async () => {
+  it('Rejects orders paying out to a blocked recipient', async () => {
+    const blocked = '0x2222222222222222222222222222222222222222';
+    const quoter = new MockQuoter(logger, 1, 1);
+    const quoteSpy = jest.spyOn(quoter, 'quote');
+    const request = await getRequest(
+      getOrder({
+        swapper: swapperWallet.address,
+        cosigner: cosignerWallet.address,
+        baseOutputs: [
+          {
+            token: TOKEN_OUT,
+            startAmount: RAW_AMOUNT,
+            endAmount: RAW_AMOUNT.mul(90).div(100),
+            recipient: blocked,
+          },
+        ],
+      })
+    );
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(
+      [quoter],
+      new MockSwapperScreeningProvider([blocked])
+    ).handler(getEvent(request), {} as unknown as Context);
+    expect(response.statusCode).toEqual(403);
+    expect(JSON.parse(response.body)).toMatchObject({
+      detail: 'Address is not permitted',
+      errorCode: 'FORBIDDEN',
+    });
+    expect(quoteSpy).not.toHaveBeenCalled();
+  });
+
+  it('Rejects orders not signed by the swapper', async () => {
+    const quoter = new MockQuoter(logger, 1, 1);
+    const quoteSpy = jest.spyOn(quoter, 'quote');
     const request = await getRequest(getOrder({ cosigner: cosignerWallet.address }));
 
+    const response: APIGatewayProxyResult = await getQuoteHandler([quoter]).handler(
+      getEvent(request),
+      {} as unknown as Context
+    );
+    expect(response.statusCode).toEqual(400);
+    expect(JSON.parse(response.body)).toMatchObject({
+      detail: 'Order signature does not match swapper',
+      errorCode: 'INVALID_SIGNATURE',
+    });
+    expect(quoteSpy).not.toHaveBeenCalled();
+  });
+
+  it('Rejects orders with tokens not on the allowlist', async () => {
+    const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(
+      [new MockQuoter(logger, 1, 1)],
+      undefined,
+      new MockTokenMetadataProvider([UNI])
+    ).handler(getEvent(request), {} as unknown as Context);
+    expect(response.statusCode).toEqual(400);
+    expect(JSON.parse(response.body)).toMatchObject({ errorCode: 'TOKEN_NOT_ALLOWED' });
+  });
+
+  it('Replays the original response for a retried request', async () => {
+    const quoter = new MockQuoter(logger, 1, 1);
+    const quoteSpy = jest.spyOn(quoter, 'quote');
+    const orderServiceSpy = jest.spyOn(MockOrderServiceProvider.prototype, 'postOrder');
+    const handler = getQuoteHandler([quoter], undefined, undefined, new MockIdempotencyRepository());
+    const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
+
+    const first: APIGatewayProxyResult = await handler.handler(getEvent(request), {} as unknown as Context);
+    const retry: APIGatewayProxyResult = await handler.handler(getEvent(request), {} as unknown as Context);
+    expect(first.statusCode).toEqual(200);
+    expect(retry.statusCode).toEqual(200);
+    expect(JSON.parse(retry.body)).toEqual(JSON.parse(first.body));
+    expect(quoteSpy).toHaveBeenCalledTimes(1);
+    expect(orderServiceSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('Rejects retries of a request id with a different order', async () => {
+    const handler = getQuoteHandler(
+      [new MockQuoter(logger, 1, 1)],
+      undefined,
+      undefined,
+      new MockIdempotencyRepository()
+    );
+    const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
+    const conflicting = await getRequest(
+      getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address, nonce: BigNumber.from(11) })
+    );
+
+    const first: APIGatewayProxyResult = await handler.handler(getEvent(request), {} as unknown as Context);
+    expect(first.statusCode).toEqual(200);
+    const response: APIGatewayProxyResult = await handler.handler(getEvent(conflicting), {} as unknown as Context);
+    expect(response.statusCode).toEqual(409);
+    expect(JSON.parse(response.body)).toMatchObject({ errorCode: 'IDEMPOTENCY_CONFLICT' });
+  });
+
+  it('Rejects retries of a request which is still being quoted', async () => {
+    const quoter = new MockQuoter(logger, 1, 1);
+    const quoteSpy = jest.spyOn(quoter, 'quote');
+    const idempotencyRepository = new MockIdempotencyRepository();
+    const order = getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address });
+    const request = await getRequest(order);
+    await idempotencyRepository.putRecord({
+      requestId: request.requestId,
+      orderHash: order.hash(),
+      ttl: Math.floor(Date.now() / 1000) + 60,
+    });
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(
+      [quoter],
+      undefined,
+      undefined,
+      idempotencyRepository
+    ).handler(getEvent(request), {} as unknown as Context);
+    expect(response.statusCode).toEqual(409);
+    expect(JSON.parse(response.body)).toMatchObject({ errorCode: 'REQUEST_IN_PROGRESS' });
+    expect(quoteSpy).not.toHaveBeenCalled();
+  });
+
+  it('Releases the request id if the request fails', async () => {
+    const idempotencyRepository = new MockIdempotencyRepository();
+    const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
+
+    const failed: APIGatewayProxyResult = await getQuoteHandler(
+      [],
+      undefined,
+      undefined,
+      idempotencyRepository
+    ).handler(getEvent(request), {} as unknown as Context);
+    expect(failed.statusCode).toEqual(404);
+    await expect(idempotencyRepository.getRecord(request.requestId)).resolves.toBeUndefined();
+
+    const retry: APIGatewayProxyResult = await getQuoteHandler(
+      [new MockQuoter(logger, 1, 1)],
+      undefined,
+      undefined,
+      idempotencyRepository
+    ).handler(getEvent(request), {} as unknown as Context);
+    expect(retry.statusCode).toEqual(200);
+  });
+
+  it('Returns a 400 if the order service rejects the order', async () => {
+    jest.spyOn(MockOrderServiceProvider.prototype, 'postOrder').mockResolvedValueOnce({
+      status: OrderPostStatus.REJECTED,
+      statusCode: 400,
+      errorCode: 'INVALID_ORDER',
+      detail: 'bad nonce',
+      retryable: false,
+      attempts: 1,
+    });
+    const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
+
+    const response: APIGatewayProxyResult = await getQuoteHandler([new MockQuoter(logger, 1, 1)]).handler(
+      getEvent(request),
+      {} as unknown as Context
+    );
+    expect(response.statusCode).toEqual(400);
+    expect(JSON.parse(response.body)).toMatchObject({
+      detail: 'Error posting order: bad nonce',
+      errorCode: 'ORDER_REJECTED',
+      upstreamErrorCode: 'INVALID_ORDER',
+    });
+  });
+
+  it('Returns a 502 if the order service fails', async () => {
+    jest.spyOn(MockOrderServiceProvider.prototype, 'postOrder').mockResolvedValueOnce({
+      status: OrderPostStatus.FAILED,
+      statusCode: 503,
+      retryable: true,
+      attempts: 3,
+    });
+    const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
+
+    const response: APIGatewayProxyResult = await getQuoteHandler([new MockQuoter(logger, 1, 1)]).handler(
+      getEvent(request),
+      {} as unknown as Context
+    );
+    expect(response.statusCode).toEqual(502);
+    expect(JSON.parse(response.body)).toMatchObject({
+      detail: 'Order service unavailable',
+      errorCode: 'ORDER_SERVICE_ERROR',
+    });
+  });
+
+  it('No quotes', async () => {
+    const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
+
     const response: APIGatewayProxyResult = await getQuoteHandler([]).handler(
       getEvent(request),
       {} as unknown as Context
@@ -285,7 +518,7 @@ describe('Quote handler', () => {
     };
 
     it('updates decay times reasonably', async () => {
-      const request = await getRequest(getOrder({ cosigner: cosignerWallet.address }));
+      const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
       const now = Math.floor(Date.now() / 1000);
       const cosignerData = getCosignerData(new HardQuoteRequest(request), getQuoteResponse({}));
       expect(cosignerData.decayStartTime).toBeGreaterThan(now);
@@ -294,8 +527,22 @@ describe('Quote handler', () => {
       expect(cosignerData.decayEndTime).toBeLessThan(cosignerData.decayStartTime + 1000);
     });
 
+    it('uses the selected parameters', async () => {
+      const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
+      const now = Math.floor(Date.now() / 1000);
+      const cosignerData = getCosignerData(new HardQuoteRequest(request), getQuoteResponse({}), {
+        exclusivityOverrideBps: 50,
+        decayStartDelaySecs: 5,
+        decayDurationSecs: 120,
+        outputImprovement: OutputImprovementPolicy.SWAPPER_ONLY,
+      });
+      expect(cosignerData.exclusivityOverrideBps).toEqual(50);
+      expect(cosignerData.decayStartTime).toBeGreaterThanOrEqual(now + 5);
+      expect(cosignerData.decayEndTime).toEqual(cosignerData.decayStartTime + 120);
+    });
+
     it('exact input quote worse, no exclusivity', async () => {
-      const request = await getRequest(getOrder({ cosigner: cosignerWallet.address }));
+      const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
       const cosignerData = getCosignerData(
         new HardQuoteRequest(request),
         getQuoteResponse({ amountOut: ethers.utils.parseEther('0.8') })
@@ -307,7 +554,7 @@ describe('Quote handler', () => {
     });
 
     it('exact input quote better, sets exclusivity and updates amounts', async () => {
-      const request = await getRequest(getOrder({ cosigner: cosignerWallet.address }));
+      const request = await getRequest(getOrder({ swapper: swapperWallet.address, cosigner: cosignerWallet.address }));
       const outputAmount = ethers.utils.parseEther('2');
       const cosignerData = getCosignerData(
         new HardQuoteRequest(request),
@@ -319,8 +566,28 @@ describe('Quote handler', () => {
       expect(cosignerData.outputAmounts[0]).toEqual(outputAmount);
     });
 
+    // input decays up while the output is fixed
+    const getExactOutputOrder = () =>
+      getOrder({
+        swapper: swapperWallet.address,
+        cosigner: cosignerWallet.address,
+        baseInput: {
+          token: TOKEN_IN,
+          startAmount: RAW_AMOUNT,
+          endAmount: RAW_AMOUNT.mul(110).div(100),
+        },
+        baseOutputs: [
+          {
+            token: TOKEN_OUT,
+            startAmount: RAW_AMOUNT,
+            endAmount: RAW_AMOUNT,
+            recipient: swapperWallet.address,
+          },
+        ],
+      });
+
     it('exact output quote worse, no exclusivity', async () => {
-      const request = await getRequest(getOrder({ cosigner: cosignerWallet.address }));
+      const request = await getRequest(getExactOutputOrder());
       const cosignerData = getCosignerData(
         new HardQuoteRequest(request),
         getQuoteResponse({ amountIn: ethers.utils.parseEther('1.2') }, TradeType.EXACT_OUTPUT)
@@ -331,17 +598,111 @@ describe('Quote handler', () => {
       expect(cosignerData.outputAmounts[0]).toEqual(BigNumber.from(0));
     });
 
-    it('exact input quote better, sets exclusivity and updates amounts', async () => {
-      const request = await getRequest(getOrder({ cosigner: cosignerWallet.address }));
+    it('exact output quote better, sets exclusivity and updates amounts', async () => {
+      const request = await getRequest(getExactOutputOrder());
       const inputAmount = ethers.utils.parseEther('0.8');
       const cosignerData = getCosignerData(
         new HardQuoteRequest(request),
-        getQuoteResponse({ amountIn: ethers.utils.parseEther('1.2') }, TradeType.EXACT_OUTPUT)
+        getQuoteResponse({ amountIn: inputAmount }, TradeType.EXACT_OUTPUT)
       );
       expect(cosignerData.exclusiveFiller).toEqual(MOCK_FILLER_ADDRESS);
       expect(cosignerData.inputAmount).toEqual(inputAmount);
       expect(cosignerData.outputAmounts.length).toEqual(1);
       expect(cosignerData.outputAmounts[0]).toEqual(BigNumber.from(0));
     });
+
+    describe('multiple outputs', () => {
+      const FEE_RECIPIENT = '0x0000000000000000000000000000000000000003';
+      const OTHER_TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+      // swapper output of 0.9 and a fee output of 0.1 in tokenOut, plus an unrelated output
+      const getMultiOutputRequest = async () =>
+        new HardQuoteRequest(
+          await getRequest(
+            getOrder({
+              cosigner: cosignerWallet.address,
+              swapper: swapperWallet.address,
+              baseOutputs: [
+                {
+                  token: TOKEN_OUT,
+                  startAmount: ethers.utils.parseEther('0.9'),
+                  endAmount: ethers.utils.parseEther('0.8'),
+                  recipient: swapperWallet.address,
+                },
+                {
+                  token: TOKEN_OUT,
+                  startAmount: ethers.utils.parseEther('0.1'),
+                  endAmount: ethers.utils.parseEther('0.08'),
+                  recipient: FEE_RECIPIENT,
+                },
+                {
+                  token: OTHER_TOKEN,
+                  startAmount: BigNumber.from(1000),
+                  endAmount: BigNumber.from(1000),
+                  recipient: FEE_RECIPIENT,
+                },
+              ],
+            })
+          )
+        );
+
+      const withPolicy = (outputImprovement: OutputImprovementPolicy) => ({
+        ...defaultCosignerParameters(CHAIN_ID),
+        outputImprovement,
+      });
+
+      it('only totals outputs paying tokenOut', async () => {
+        const request = await getMultiOutputRequest();
+        expect(request.totalOutputAmountStart).toEqual(ethers.utils.parseEther('1'));
+      });
+
+      it('gives the whole improvement to the swapper output', async () => {
+        const cosignerData = getCosignerData(
+          await getMultiOutputRequest(),
+          getQuoteResponse({ amountOut: ethers.utils.parseEther('2') }),
+          withPolicy(OutputImprovementPolicy.SWAPPER_ONLY)
+        );
+        expect(cosignerData.exclusiveFiller).toEqual(MOCK_FILLER_ADDRESS);
+        expect(cosignerData.outputAmounts).toEqual([
+          ethers.utils.parseEther('1.9'),
+          ethers.utils.parseEther('0.1'),
+          BigNumber.from(0),
+        ]);
+      });
+
+      it('scales every tokenOut output pro-rata', async () => {
+        const cosignerData = getCosignerData(
+          await getMultiOutputRequest(),
+          getQuoteResponse({ amountOut: ethers.utils.parseEther('2') }),
+          withPolicy(OutputImprovementPolicy.PRO_RATA)
+        );
+        expect(cosignerData.outputAmounts).toEqual([
+          ethers.utils.parseEther('1.8'),
+          ethers.utils.parseEther('0.2'),
+          BigNumber.from(0),
+        ]);
+      });
+
+      it('gives pro-rata rounding dust to the swapper output', async () => {
+        const amountOut = ethers.utils.parseEther('1').add(7);
+        const cosignerData = getCosignerData(
+          await getMultiOutputRequest(),
+          getQuoteResponse({ amountOut }),
+          withPolicy(OutputImprovementPolicy.PRO_RATA)
+        );
+        expect(cosignerData.outputAmounts[0].add(cosignerData.outputAmounts[1])).toEqual(amountOut);
+        expect(cosignerData.outputAmounts[1]).toEqual(ethers.utils.parseEther('0.1'));
+      });
+
+      it('keeps original amounts if the quote is worse', async () => {
+        const cosignerData = getCosignerData(
+          await getMultiOutputRequest(),
+          getQuoteResponse({ amountOut: ethers.utils.parseEther('0.9') }),
+          withPolicy(OutputImprovementPolicy.PRO_RATA)
+        );
+        expect(cosignerData.exclusiveFiller).toEqual(ethers.constants.AddressZero);
+        expect(cosignerData.outputAmounts).toEqual([BigNumber.from(0), BigNumber.from(0), BigNumber.from(0)]);
+      });
+    });
   });
 });
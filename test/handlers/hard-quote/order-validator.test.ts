@@ -0,0 +1,145 @@
+import { UnsignedV2DutchOrder, UnsignedV2DutchOrderInfo } from '@uniswap/uniswapx-sdk';
+import { BigNumber, Wallet } from 'ethers';
+
+import { ChainRoute, CHAIN_REGISTRY, getChainConfiguration } from '../../../lib/config/chains';
+import { HardQuoteRequest } from '../../../lib/entities';
+import { HardQuoteOrderValidator } from '../../../lib/handlers/hard-quote/order-validator';
+import { MockTokenMetadataProvider, TokenMetadata } from '../../../lib/providers/tokens';
+import { ErrorCode, OrderValidationError } from '../../../lib/util/errors';
+import { getOrderInfo } from '../../entities/HardQuoteRequest.test';
+
+const REQUEST_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const CHAIN_ID = 1;
+const REACTOR = getChainConfiguration(CHAIN_ID).reactor;
+const UNI: TokenMetadata = { chainId: CHAIN_ID, address: TOKEN_IN, symbol: 'UNI', decimals: 18 };
+const WETH: TokenMetadata = { chainId: CHAIN_ID, address: TOKEN_OUT, symbol: 'WETH', decimals: 18 };
+
+const logger = { child: () => logger, info: jest.fn(), error: jest.fn(), debug: jest.fn() } as any;
+
+describe('HardQuoteOrderValidator', () => {
+  const swapperWallet = Wallet.createRandom();
+  const validator = new HardQuoteOrderValidator(logger, new MockTokenMetadataProvider([UNI, WETH]));
+
+  const getRequest = async (
+    data: Partial<UnsignedV2DutchOrderInfo>,
+    chainId = CHAIN_ID,
+    signer = swapperWallet,
+    tokenOutChainId = chainId
+  ): Promise<HardQuoteRequest> => {
+    const order = new UnsignedV2DutchOrder(
+      getOrderInfo({ swapper: swapperWallet.address, reactor: REACTOR, ...data }),
+      chainId
+    );
+    const { domain, types, values } = order.permitData();
+    return new HardQuoteRequest({
+      requestId: REQUEST_ID,
+      tokenInChainId: chainId,
+      tokenOutChainId,
+      encodedInnerOrder: order.serialize(),
+      innerSig: await signer._signTypedData(domain, types, values),
+    });
+  };
+
+  const expectError = async (request: HardQuoteRequest, errorCode: ErrorCode, v = validator) => {
+    const error = await v.validate(request).catch((e) => e);
+    expect(error).toBeInstanceOf(OrderValidationError);
+    expect(error.errorCode).toEqual(errorCode);
+    expect(error.toJSON().statusCode).toEqual(400);
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('accepts a valid order', async () => {
+    await expect(validator.validate(await getRequest({}))).resolves.toBeUndefined();
+  });
+
+  it('rejects orders signed by someone else', async () => {
+    await expectError(await getRequest({}, CHAIN_ID, Wallet.createRandom()), ErrorCode.InvalidSignature);
+  });
+
+  it('rejects orders on chains without hard quotes', async () => {
+    const v = new HardQuoteOrderValidator(logger, new MockTokenMetadataProvider([UNI, WETH]), {
+      ...CHAIN_REGISTRY,
+      [CHAIN_ID]: { ...getChainConfiguration(CHAIN_ID), routes: [ChainRoute.QUOTE] },
+    });
+    await expectError(await getRequest({}), ErrorCode.UnsupportedChain, v);
+  });
+
+  it('rejects orders paying out on another chain', async () => {
+    await expectError(await getRequest({}, CHAIN_ID, swapperWallet, 42161), ErrorCode.UnsupportedChain);
+  });
+
+  it('rejects unknown reactors', async () => {
+    await expectError(
+      await getRequest({ reactor: '0x1111111111111111111111111111111111111111' }),
+      ErrorCode.InvalidReactor
+    );
+  });
+
+  it('accepts any reactor on chains without a registered one', async () => {
+    const v = new HardQuoteOrderValidator(logger, new MockTokenMetadataProvider([UNI, WETH]), {
+      ...CHAIN_REGISTRY,
+      [CHAIN_ID]: { ...getChainConfiguration(CHAIN_ID), reactor: undefined },
+    });
+    await expect(
+      v.validate(await getRequest({ reactor: '0x1111111111111111111111111111111111111111' }))
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects orders not declaring the cosigner their chain expects', async () => {
+    const chainCosigner = Wallet.createRandom().address;
+    const v = new HardQuoteOrderValidator(logger, new MockTokenMetadataProvider([UNI, WETH]), {
+      ...CHAIN_REGISTRY,
+      [CHAIN_ID]: { ...getChainConfiguration(CHAIN_ID), cosigner: chainCosigner },
+    });
+    await expectError(await getRequest({ cosigner: Wallet.createRandom().address }), ErrorCode.InvalidCosigner, v);
+    await expect(v.validate(await getRequest({ cosigner: chainCosigner }))).resolves.toBeUndefined();
+  });
+
+  it('rejects malformed nonces', async () => {
+    const request = await getRequest({});
+    request.order.info.nonce = BigNumber.from(-1);
+    await expectError(request, ErrorCode.InvalidNonce);
+  });
+
+  it('rejects orders expiring before the decay ends', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await expectError(await getRequest({ deadline: now - 1 }), ErrorCode.OrderExpired);
+    // mainnet decays end 84 seconds after cosigning
+    await expectError(await getRequest({ deadline: now + 60 }), ErrorCode.OrderExpired);
+  });
+
+  it('checks the deadline against the cosigned decay end', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const request = await getRequest({ deadline: now + 1000 });
+    expect(() => validator.validateDeadline(request, now + 999)).not.toThrow();
+    expect(() => validator.validateDeadline(request, now + 1000)).toThrow(OrderValidationError);
+  });
+
+  it('rejects zero input amounts', async () => {
+    await expectError(
+      await getRequest({
+        baseInput: { token: TOKEN_IN, startAmount: BigNumber.from(0), endAmount: BigNumber.from(0) },
+      }),
+      ErrorCode.InvalidAmount
+    );
+  });
+
+  it('rejects tokens not listed for hard quotes', async () => {
+    const uniOnly = new HardQuoteOrderValidator(logger, new MockTokenMetadataProvider([UNI]));
+    await expectError(await getRequest({}), ErrorCode.TokenNotAllowed, uniOnly);
+
+    const quoteOnly = new HardQuoteOrderValidator(
+      logger,
+      new MockTokenMetadataProvider([UNI, { ...WETH, routes: [ChainRoute.QUOTE] }])
+    );
+    await expectError(await getRequest({}), ErrorCode.TokenNotAllowed, quoteOnly);
+
+    const otherChain = new HardQuoteOrderValidator(logger, new MockTokenMetadataProvider([{ ...UNI, chainId: 42161 }]));
+    await expectError(await getRequest({}), ErrorCode.TokenNotAllowed, otherChain);
+  });
+});
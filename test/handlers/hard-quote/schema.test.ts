@@ -2,6 +2,7 @@ import { UnsignedV2DutchOrder } from '@uniswap/uniswapx-sdk';
 import { BigNumber, utils } from 'ethers';
 import { v4 as uuidv4 } from 'uuid';
 
+import { OrderType } from '../../../lib/entities';
 import { HardQuoteRequestBodyJoi } from '../../../lib/handlers/hard-quote';
 import { getOrderInfo } from '../../entities/HardQuoteRequest.test';
 
@@ -61,10 +62,25 @@ describe('hard-quote schemas', () => {
           quoteId: QUOTE_ID,
           encodedInnerOrder: body.encodedInnerOrder,
           innerSig: body.innerSig,
+          orderType: OrderType.Dutch_V2,
         });
       }
     });
 
+    it('accepts supported order types', () => {
+      const validated = HardQuoteRequestBodyJoi.validate(
+        Object.assign({}, validHardRequestBodyCombos[0], { orderType: OrderType.Dutch_V2 })
+      );
+      expect(validated.error).toBeUndefined();
+    });
+
+    it('rejects unsupported order types', () => {
+      const validated = HardQuoteRequestBodyJoi.validate(
+        Object.assign({}, validHardRequestBodyCombos[0], { orderType: OrderType.Priority })
+      );
+      expect(validated.error?.message).toEqual('"orderType" Priority is not supported, expected one of Dutch_V2');
+    });
+
     it('requires correct signature length', () => {
       let validated = HardQuoteRequestBodyJoi.validate(
         Object.assign({}, validHardRequestBodyCombos[0], {
@@ -117,7 +133,7 @@ describe('hard-quote schemas', () => {
       const { tokenInChainId, requestId, quoteId, encodedInnerOrder, innerSig } = validHardRequestBodyCombos[0];
       const validated = HardQuoteRequestBodyJoi.validate({
         tokenInChainId,
-        tokenOutChainId: 5,
+        tokenOutChainId: 42161,
         requestId,
         quoteId,
         encodedInnerOrder,
@@ -132,6 +148,13 @@ describe('hard-quote schemas', () => {
       );
       expect(validated.error?.message).toContain('"tokenInChainId" must be one of');
     });
+
+    it('requires tokenInChainId to enable hard quotes', () => {
+      const validated = HardQuoteRequestBodyJoi.validate(
+        Object.assign({}, validHardRequestBodyCombos[0], { tokenInChainId: 8453 })
+      );
+      expect(validated.error?.message).toContain('"tokenInChainId" must be one of');
+    });
   });
 });
 
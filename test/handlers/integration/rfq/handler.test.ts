@@ -0,0 +1,119 @@
+import { TradeType } from '@uniswap/sdk-core';
+import { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import axios from 'axios';
+import { ethers } from 'ethers';
+
+import { QuoteRequest } from '../../../../lib/entities';
+import { ApiInjector, ApiRInj } from '../../../../lib/handlers/base/api-handler';
+import { ContainerInjected, getSignatureVerifier, RfqHandler } from '../../../../lib/handlers/integration/rfq';
+import { PostQuoteRequestBody } from '../../../../lib/handlers/quote';
+import { MockWebhookConfigurationProvider } from '../../../../lib/providers';
+import { FirehoseLogger } from '../../../../lib/providers/analytics';
+import { MockCircuitBreakerConfigurationProvider } from '../../../../lib/providers/circuit-breaker/mock';
+import { MockFillerComplianceConfigurationProvider } from '../../../../lib/providers/compliance';
+import { WebhookQuoter } from '../../../../lib/quoters';
+import { RfqRequestSigner, RfqSigningScheme } from '../../../../lib/util/rfq-signing';
+
+jest.mock('axios');
+jest.mock('../../../../lib/providers/analytics');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const REQUEST_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
+const SWAPPER = '0x0000000000000000000000000000000000000000';
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const WEBHOOK_URL = 'https://uniswap.org/integration/rfq';
+const SECRET = 'filler-shared-secret';
+
+describe('Integration rfq handler', () => {
+  const logger = { child: () => logger, info: jest.fn(), error: jest.fn(), debug: jest.fn() } as any;
+
+  const getRfqHandler = (containerInjected: ContainerInjected) =>
+    new RfqHandler(
+      'rfq',
+      Promise.resolve({
+        getContainerInjected: () => containerInjected,
+        getRequestInjected: () => Promise.resolve({ log: logger, requestId: 'test' }),
+      } as unknown as ApiInjector<ContainerInjected, ApiRInj, PostQuoteRequestBody, void>)
+    );
+
+  // route webhook posts straight into the rfq handler
+  const routeToHandler = (handler: RfqHandler) =>
+    mockedAxios.post.mockImplementation(async (_endpoint, data, config) => {
+      const result = await handler.handler(
+        {
+          body: typeof data === 'string' ? data : JSON.stringify(data),
+          headers: config?.headers ?? {},
+        } as unknown as APIGatewayProxyEvent,
+        {} as unknown as Context
+      );
+      if (result.statusCode !== 200) {
+        // AxiosError is automocked, so set the response by hand
+        throw Object.assign(new axios.AxiosError(), {
+          response: { status: result.statusCode, data: JSON.parse(result.body) },
+        });
+      }
+      return { status: result.statusCode, data: JSON.parse(result.body) };
+    });
+
+  const getQuoter = (signing?: { scheme: RfqSigningScheme; secretRef: string }) =>
+    new WebhookQuoter(
+      logger,
+      new FirehoseLogger(logger, 'arn:aws:deliverystream/dummy'),
+      new MockWebhookConfigurationProvider([{ name: 'filler', endpoint: WEBHOOK_URL, hash: '0xfiller', signing }]),
+      new MockCircuitBreakerConfigurationProvider([]),
+      new MockFillerComplianceConfigurationProvider([]),
+      undefined,
+      new RfqRequestSigner({ FILLER_SECRET: SECRET })
+    );
+
+  const request = new QuoteRequest({
+    tokenInChainId: 1,
+    tokenOutChainId: 1,
+    requestId: REQUEST_ID,
+    swapper: SWAPPER,
+    tokenIn: TOKEN_IN,
+    tokenOut: TOKEN_OUT,
+    amount: ethers.utils.parseEther('1'),
+    type: TradeType.EXACT_INPUT,
+    numOutputs: 1,
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('accepts signed requests end to end', async () => {
+    routeToHandler(getRfqHandler({ signatureVerifier: getSignatureVerifier({ RFQ_SIGNING_SECRET: SECRET }) }));
+    const quotes = await getQuoter({ scheme: RfqSigningScheme.HMAC, secretRef: 'FILLER_SECRET' }).quote(request);
+
+    expect(quotes.length).toEqual(1);
+    expect(quotes[0].requestId).toEqual(REQUEST_ID);
+    expect(quotes[0].amountOut.toString()).toEqual('1');
+  });
+
+  it('rejects unsigned requests', async () => {
+    routeToHandler(getRfqHandler({ signatureVerifier: getSignatureVerifier({ RFQ_SIGNING_SECRET: SECRET }) }));
+    const quotes = await getQuoter().quote(request);
+
+    expect(quotes.length).toEqual(0);
+    expect(logger.error).toHaveBeenCalledWith(
+      { endpoint: WEBHOOK_URL, status: '401' },
+      expect.stringContaining('Axios error fetching quote')
+    );
+  });
+
+  it('rejects requests signed with the wrong secret', async () => {
+    routeToHandler(getRfqHandler({ signatureVerifier: getSignatureVerifier({ RFQ_SIGNING_SECRET: 'other' }) }));
+    const quotes = await getQuoter({ scheme: RfqSigningScheme.HMAC, secretRef: 'FILLER_SECRET' }).quote(request);
+
+    expect(quotes.length).toEqual(0);
+  });
+
+  it('accepts unsigned requests if no verifier is configured', async () => {
+    routeToHandler(getRfqHandler({ signatureVerifier: getSignatureVerifier({}) }));
+    const quotes = await getQuoter().quote(request);
+
+    expect(quotes.length).toEqual(1);
+  });
+});
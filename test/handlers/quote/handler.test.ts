@@ -4,10 +4,13 @@ import axios from 'axios';
 import { default as Logger } from 'bunyan';
 import { ethers } from 'ethers';
 
+import { ChainRoute } from '../../../lib/config/chains';
+import { DEFAULT_RANKING_CONFIG } from '../../../lib/config/ranking';
 import { AWSMetricsLogger } from '../../../lib/entities/aws-metrics-logger';
 import { ApiInjector } from '../../../lib/handlers/base/api-handler';
 import {
   ContainerInjected,
+  PostQuoteRankedResponse,
   PostQuoteRequestBody,
   PostQuoteResponse,
   RequestInjected,
@@ -17,7 +20,13 @@ import { MockWebhookConfigurationProvider } from '../../../lib/providers';
 import { FirehoseLogger } from '../../../lib/providers/analytics';
 import { MockCircuitBreakerConfigurationProvider } from '../../../lib/providers/circuit-breaker/mock';
 import { MockFillerComplianceConfigurationProvider } from '../../../lib/providers/compliance';
+import { MockSwapperScreeningProvider, SwapperScreeningProvider } from '../../../lib/providers/screening';
+import { MockTokenMetadataProvider, TokenMetadataProvider } from '../../../lib/providers/tokens';
 import { MOCK_FILLER_ADDRESS, MockQuoter, Quoter, WebhookQuoter } from '../../../lib/quoters';
+import { QuoteRankerSelector } from '../../../lib/rankers';
+import { BaseQuoteAttributionRepository, QuoteAttributionSource } from '../../../lib/repositories';
+import { MockQuoteAttributionRepository } from '../../../lib/repositories/quote-attribution-repository';
+import { sleep } from '../../../lib/util/time';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -54,20 +63,40 @@ describe('Quote handler', () => {
   );
 
   const injectorPromiseMock = (
-    quoters: Quoter[]
+    quoters: Quoter[],
+    screeningProvider: SwapperScreeningProvider = new MockSwapperScreeningProvider([]),
+    quoteAttributionRepository: BaseQuoteAttributionRepository = new MockQuoteAttributionRepository(),
+    tokenMetadataProvider: TokenMetadataProvider = new MockTokenMetadataProvider()
   ): Promise<ApiInjector<ContainerInjected, RequestInjected, PostQuoteRequestBody, void>> =>
     new Promise((resolve) =>
       resolve({
         getContainerInjected: () => {
           return {
             quoters,
+            rankerSelector: new QuoteRankerSelector(
+              logger,
+              new MockCircuitBreakerConfigurationProvider([]),
+              DEFAULT_RANKING_CONFIG
+            ),
+            screeningProvider,
+            quoteAttributionRepository,
+            tokenMetadataProvider,
           };
         },
         getRequestInjected: () => requestInjectedMock,
       } as unknown as ApiInjector<ContainerInjected, RequestInjected, PostQuoteRequestBody, void>)
     );
 
-  const getQuoteHandler = (quoters: Quoter[]) => new QuoteHandler('quote', injectorPromiseMock(quoters));
+  const getQuoteHandler = (
+    quoters: Quoter[],
+    screeningProvider?: SwapperScreeningProvider,
+    quoteAttributionRepository?: BaseQuoteAttributionRepository,
+    tokenMetadataProvider?: TokenMetadataProvider
+  ) =>
+    new QuoteHandler(
+      'quote',
+      injectorPromiseMock(quoters, screeningProvider, quoteAttributionRepository, tokenMetadataProvider)
+    );
 
   const getEvent = (request: PostQuoteRequestBody): APIGatewayProxyEvent =>
     ({
@@ -125,6 +154,82 @@ describe('Quote handler', () => {
     expect(responseFromRequest(request, {})).toMatchObject({ ...quoteResponse, quoteId: expect.any(String) });
   });
 
+  it('Records the winning quote for attribution', async () => {
+    const quoteAttributionRepository = new MockQuoteAttributionRepository();
+    const quoters = [new MockQuoter(logger, 1, 1), new MockQuoter(logger, 2, 1)];
+    const amountIn = ethers.utils.parseEther('1');
+    const request = getRequest(amountIn.toString());
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(
+      quoters,
+      undefined,
+      quoteAttributionRepository
+    ).handler(getEvent(request), {} as unknown as Context);
+    const quoteResponse: PostQuoteResponse = JSON.parse(response.body);
+    expect(response.statusCode).toEqual(200);
+    await expect(quoteAttributionRepository.getAttribution(quoteResponse.quoteId as string)).resolves.toEqual({
+      quoteId: quoteResponse.quoteId,
+      requestId: REQUEST_ID,
+      source: QuoteAttributionSource.QUOTE,
+      chainId: CHAIN_ID,
+      swapper: SWAPPER,
+      filler: MOCK_FILLER_ADDRESS,
+      tokenIn: TOKEN_IN,
+      tokenOut: TOKEN_OUT,
+      amountIn: amountIn.toString(),
+      amountOut: amountIn.mul(2).toString(),
+      quotedAt: expect.any(Number),
+    });
+  });
+
+  it('Returns the quote when attribution fails', async () => {
+    const quoteAttributionRepository = new MockQuoteAttributionRepository();
+    jest.spyOn(quoteAttributionRepository, 'putQuote').mockRejectedValueOnce(new Error('dynamo down'));
+    const quoters = [new MockQuoter(logger, 1, 1)];
+    const request = getRequest(ethers.utils.parseEther('1').toString());
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(
+      quoters,
+      undefined,
+      quoteAttributionRepository
+    ).handler(getEvent(request), {} as unknown as Context);
+    expect(response.statusCode).toEqual(200);
+  });
+
+  it('Does not wait for a hanging attribution write', async () => {
+    const quoteAttributionRepository = new MockQuoteAttributionRepository();
+    jest.spyOn(quoteAttributionRepository, 'putQuote').mockReturnValueOnce(new Promise(() => undefined));
+    const quoters = [new MockQuoter(logger, 1, 1)];
+    const request = getRequest(ethers.utils.parseEther('1').toString());
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(
+      quoters,
+      undefined,
+      quoteAttributionRepository
+    ).handler(getEvent(request), {} as unknown as Context);
+    expect(response.statusCode).toEqual(200);
+  });
+
+  it('Waits for the attribution write before responding', async () => {
+    const quoteAttributionRepository = new MockQuoteAttributionRepository();
+    let written = false;
+    jest.spyOn(quoteAttributionRepository, 'putQuote').mockReturnValueOnce(
+      sleep(10).then(() => {
+        written = true;
+      })
+    );
+    const quoters = [new MockQuoter(logger, 1, 1)];
+    const request = getRequest(ethers.utils.parseEther('1').toString());
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(
+      quoters,
+      undefined,
+      quoteAttributionRepository
+    ).handler(getEvent(request), {} as unknown as Context);
+    expect(response.statusCode).toEqual(200);
+    expect(written).toBe(true);
+  });
+
   it('Handles hex amount', async () => {
     const quoters = [new MockQuoter(logger, 1, 1)];
     const amountIn = ethers.utils.parseEther('1');
@@ -193,6 +298,95 @@ describe('Quote handler', () => {
     expect(responseFromRequest(request, {})).toMatchObject({ ...quoteResponse, quoteId: expect.any(String) });
   });
 
+  it('Omits ranked quotes by default', async () => {
+    const quoters = [new MockQuoter(logger, 1, 1), new MockQuoter(logger, 2, 1)];
+    const request = getRequest(ethers.utils.parseEther('1').toString());
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(quoters).handler(
+      getEvent(request),
+      {} as unknown as Context
+    );
+    const quoteResponse: PostQuoteRankedResponse = JSON.parse(response.body);
+    expect(response.statusCode).toEqual(200);
+    expect(quoteResponse.quotes).toBeUndefined();
+  });
+
+  it('Returns all ranked quotes when requested', async () => {
+    const quoters = [new MockQuoter(logger, 1, 1), new MockQuoter(logger, 3, 1), new MockQuoter(logger, 2, 1)];
+    const amountIn = ethers.utils.parseEther('1');
+    const request = { ...getRequest(amountIn.toString()), returnAll: true };
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(quoters).handler(
+      getEvent(request),
+      {} as unknown as Context
+    );
+    const quoteResponse: PostQuoteRankedResponse = JSON.parse(response.body);
+    expect(response.statusCode).toEqual(200);
+    expect(quoteResponse.amountOut).toEqual(amountIn.mul(3).toString());
+    expect(quoteResponse.quotes).toEqual(
+      [3, 2, 1].map((multiple) => ({
+        quoteId: expect.any(String),
+        filler: MOCK_FILLER_ADDRESS,
+        amountIn: amountIn.toString(),
+        amountOut: amountIn.mul(multiple).toString(),
+      }))
+    );
+    expect(quoteResponse.quotes?.[0].quoteId).toEqual(quoteResponse.quoteId);
+  });
+
+  it('Caps ranked quotes at maxQuotes', async () => {
+    const quoters = [new MockQuoter(logger, 1, 1), new MockQuoter(logger, 3, 1), new MockQuoter(logger, 2, 1)];
+    const amountIn = ethers.utils.parseEther('1');
+    const request = { ...getRequest(amountIn.toString()), maxQuotes: 2 };
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(quoters).handler(
+      getEvent(request),
+      {} as unknown as Context
+    );
+    const quoteResponse: PostQuoteRankedResponse = JSON.parse(response.body);
+    expect(response.statusCode).toEqual(200);
+    expect(quoteResponse.quotes?.map((q) => q.amountOut)).toEqual([
+      amountIn.mul(3).toString(),
+      amountIn.mul(2).toString(),
+    ]);
+  });
+
+  it('Rejects blocked swappers before quoting', async () => {
+    const quoter = new MockQuoter(logger, 1, 1);
+    const quoteSpy = jest.spyOn(quoter, 'quote');
+    const request = getRequest(ethers.utils.parseEther('1').toString());
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(
+      [quoter],
+      new MockSwapperScreeningProvider([SWAPPER])
+    ).handler(getEvent(request), {} as unknown as Context);
+    expect(response.statusCode).toEqual(403);
+    expect(JSON.parse(response.body)).toMatchObject({
+      detail: 'Address is not permitted',
+      errorCode: 'FORBIDDEN',
+    });
+    expect(quoteSpy).not.toHaveBeenCalled();
+  });
+
+  it('Does not gate quotes on the token list', async () => {
+    const quoter = new MockQuoter(logger, 1, 1);
+    const quoteSpy = jest.spyOn(quoter, 'quote');
+    const tokenMetadataProvider = new MockTokenMetadataProvider([
+      { chainId: CHAIN_ID, address: TOKEN_IN, symbol: 'UNI', decimals: 18 },
+      { chainId: CHAIN_ID, address: TOKEN_OUT, symbol: 'WETH', decimals: 18, routes: [ChainRoute.HARD_QUOTE] },
+    ]);
+    const request = getRequest(ethers.utils.parseEther('1').toString());
+
+    const response: APIGatewayProxyResult = await getQuoteHandler(
+      [quoter],
+      undefined,
+      undefined,
+      tokenMetadataProvider
+    ).handler(getEvent(request), {} as unknown as Context);
+    expect(response.statusCode).toEqual(200);
+    expect(quoteSpy).toHaveBeenCalled();
+  });
+
   it('Invalid amountIn', async () => {
     const invalidAmounts = ['-100', 'aszzz', 'zz'];
 
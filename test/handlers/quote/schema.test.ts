@@ -170,19 +170,32 @@ describe('Schema tests', () => {
       expect(validated.error?.message).toContain('"tokenOutChainId" is required');
     });
 
-    it('requires tokenOutChainId and tokenInChainId to be the same value', () => {
-      const { tokenIn, tokenOut, swapper, amount, tokenInChainId, requestId, type } = validCombinations[0];
-      const validated = PostQuoteRequestBodyJoi.validate({
-        tokenIn,
-        tokenOut,
-        amount,
-        swapper,
-        tokenInChainId,
-        tokenOutChainId: 5,
-        requestId,
-        type,
-      });
-      expect(validated.error?.message).toContain('"tokenOutChainId" must be [ref:tokenInChainId]');
+    it('allows tokenOutChainId to differ from tokenInChainId', () => {
+      const validated = PostQuoteRequestBodyJoi.validate(
+        Object.assign({}, validCombinations[0], { tokenOutChainId: 137 })
+      );
+      expect(validated.error).toBeUndefined();
+      expect(validated.value).toMatchObject({ tokenInChainId: 1, tokenOutChainId: 137 });
+    });
+
+    it('requires tokenOutChainId to be supported', () => {
+      const validated = PostQuoteRequestBodyJoi.validate(
+        Object.assign({}, validCombinations[0], { tokenOutChainId: 999999 })
+      );
+      expect(validated.error?.message).toContain('"tokenOutChainId" must be one of');
+    });
+
+    it('accepts the ranked quote list flags', () => {
+      const validated = PostQuoteRequestBodyJoi.validate(
+        Object.assign({}, validCombinations[0], { returnAll: true, maxQuotes: 3 })
+      );
+      expect(validated.error).toBeUndefined();
+      expect(validated.value).toMatchObject({ returnAll: true, maxQuotes: 3 });
+    });
+
+    it('requires maxQuotes to be positive', () => {
+      const validated = PostQuoteRequestBodyJoi.validate(Object.assign({}, validCombinations[0], { maxQuotes: 0 }));
+      expect(validated.error?.message).toContain('"maxQuotes" must be greater than or equal to 1');
     });
   });
 
@@ -57,4 +57,47 @@ describe('S3ComplianceConfigurationProvider', () => {
       ])
     );
   });
+
+  it('lowercases excluded addresses', async () => {
+    applyMock([{ endpoints: ['https://google.com'], addresses: ['0xABCD'] }]);
+    const provider = new S3FillerComplianceConfigurationProvider(logger, bucket, key);
+    const map = await provider.getEndpointToExcludedAddrsMap();
+    expect(map.get('https://google.com')).toEqual(new Set(['0xabcd']));
+  });
+
+  it('refetches configs after the update period', async () => {
+    applyMock(mockConfigs);
+    const provider = new S3FillerComplianceConfigurationProvider(logger, bucket, key);
+    await provider.getEndpointToExcludedAddrsMap();
+
+    // cached within the update period
+    await provider.getEndpointToExcludedAddrsMap();
+    expect(S3Client.prototype.send).toHaveBeenCalledTimes(1);
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5 * 60000 + 1);
+    applyMock([{ endpoints: ['https://google.com'], addresses: ['0x9999'] }]);
+    const map = await provider.getEndpointToExcludedAddrsMap();
+    expect(map).toEqual(new Map([['https://google.com', new Set(['0x9999'])]]));
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the last configs if a refetch fails', async () => {
+    applyMock(mockConfigs);
+    const provider = new S3FillerComplianceConfigurationProvider(logger, bucket, key);
+    await provider.getConfigs();
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5 * 60000 + 1);
+    jest.spyOn(S3Client.prototype, 'send').mockImplementationOnce(() => Promise.reject(new Error('s3 down')));
+    expect(await provider.getConfigs()).toEqual(mockConfigs);
+    jest.restoreAllMocks();
+  });
+
+  it('retries a failed fetch without waiting for the update period', async () => {
+    jest.spyOn(S3Client.prototype, 'send').mockImplementationOnce(() => Promise.reject(new Error('s3 down')));
+    const provider = new S3FillerComplianceConfigurationProvider(logger, bucket, key);
+    expect(await provider.getConfigs()).toEqual([]);
+
+    applyMock(mockConfigs);
+    expect(await provider.getConfigs()).toEqual(mockConfigs);
+  });
 });
@@ -0,0 +1,138 @@
+import { default as Logger } from 'bunyan';
+import { ethers, Wallet } from 'ethers';
+
+import { CHAIN_REGISTRY, getChainConfiguration } from '../../../lib/config/chains';
+import {
+  CosignerKeyType,
+  CosignerRegistry,
+  LocalCosigner,
+  parseCosignerKeyConfigs,
+  validateChainCosigners,
+} from '../../../lib/providers/cosigner';
+import { ChainId } from '../../../lib/util/chains';
+import { STAGE } from '../../../lib/util/stage';
+
+const logger = Logger.createLogger({ name: 'test' });
+logger.level(Logger.FATAL);
+
+const NOW = 1_700_000_000;
+
+describe('CosignerRegistry', () => {
+  const oldWallet = Wallet.createRandom();
+  const newWallet = Wallet.createRandom();
+
+  // the new key starts an hour before the old one stops
+  const rotatingRegistry = () =>
+    CosignerRegistry.fromKeyConfigs(logger, [
+      { type: CosignerKeyType.LOCAL, privateKey: oldWallet.privateKey, activeUntil: NOW + 3600 },
+      { type: CosignerKeyType.LOCAL, privateKey: newWallet.privateKey, activeFrom: NOW },
+    ]);
+
+  it('resolves the address of each key', async () => {
+    const registry = await rotatingRegistry();
+    expect(registry.getActiveAddresses(NOW - 1)).toEqual([oldWallet.address]);
+  });
+
+  it('lists both keys during the overlap', async () => {
+    const registry = await rotatingRegistry();
+    expect(registry.getActiveAddresses(NOW)).toEqual([oldWallet.address, newWallet.address]);
+    expect(registry.getActiveAddresses(NOW + 3599)).toEqual([oldWallet.address, newWallet.address]);
+    expect(registry.getActiveAddresses(NOW + 3600)).toEqual([newWallet.address]);
+  });
+
+  it('picks the signer matching the declared cosigner', async () => {
+    const registry = await rotatingRegistry();
+    const digest = ethers.utils.keccak256('0x1234');
+
+    const signer = registry.getSigner(newWallet.address.toLowerCase(), NOW);
+    expect(signer).toBeDefined();
+    const signature = await signer!.signDigest(digest);
+    expect(ethers.utils.recoverAddress(digest, signature)).toEqual(newWallet.address);
+  });
+
+  it('does not sign with inactive or unknown keys', async () => {
+    const registry = await rotatingRegistry();
+    expect(registry.getSigner(oldWallet.address, NOW + 3600)).toBeUndefined();
+    expect(registry.getSigner(newWallet.address, NOW - 1)).toBeUndefined();
+    expect(registry.getSigner(Wallet.createRandom().address, NOW)).toBeUndefined();
+    expect(registry.getSigner('0xinvalid', NOW)).toBeUndefined();
+  });
+
+  it('needs a KMS client for KMS keys', async () => {
+    await expect(
+      CosignerRegistry.fromKeyConfigs(logger, [{ type: CosignerKeyType.KMS, keyId: 'key' }])
+    ).rejects.toThrow('A KMS client is needed for KMS cosigner keys');
+  });
+
+  it('can be built from signers directly', async () => {
+    const registry = new CosignerRegistry(logger, [
+      { address: oldWallet.address, signer: new LocalCosigner(oldWallet.privateKey) },
+    ]);
+    expect(registry.getActiveAddresses()).toEqual([oldWallet.address]);
+  });
+});
+
+describe('validateChainCosigners', () => {
+  const wallet = Wallet.createRandom();
+  const registry = new CosignerRegistry(logger, [
+    { address: wallet.address, signer: new LocalCosigner(wallet.privateKey), activeUntil: NOW },
+  ]);
+  const withChainCosigner = (cosigner: string) => ({
+    ...CHAIN_REGISTRY,
+    [ChainId.MAINNET]: { ...getChainConfiguration(ChainId.MAINNET), cosigner },
+  });
+
+  it('accepts chain cosigners which are active keys', () => {
+    expect(() =>
+      validateChainCosigners(registry, withChainCosigner(wallet.address.toLowerCase()), NOW - 1)
+    ).not.toThrow();
+    expect(() => validateChainCosigners(registry, CHAIN_REGISTRY, NOW)).not.toThrow();
+  });
+
+  it('rejects chain cosigners which are not active keys', () => {
+    const unknown = Wallet.createRandom().address;
+    expect(() => validateChainCosigners(registry, withChainCosigner(unknown), NOW - 1)).toThrow(
+      `Invalid chain registry: chain 1: cosigner ${unknown} is not an active cosigner key`
+    );
+    expect(() => validateChainCosigners(registry, withChainCosigner(wallet.address), NOW)).toThrow(
+      'is not an active cosigner key'
+    );
+  });
+});
+
+describe('parseCosignerKeyConfigs', () => {
+  it('parses key configs', () => {
+    expect(
+      parseCosignerKeyConfigs(
+        JSON.stringify([
+          { type: 'kms', keyId: 'old', activeUntil: NOW + 3600 },
+          { type: 'kms', keyId: 'new', activeFrom: NOW },
+        ])
+      )
+    ).toEqual([
+      { type: CosignerKeyType.KMS, keyId: 'old', activeUntil: NOW + 3600 },
+      { type: CosignerKeyType.KMS, keyId: 'new', activeFrom: NOW },
+    ]);
+  });
+
+  it('rejects keys without their key material', () => {
+    expect(() => parseCosignerKeyConfigs(JSON.stringify([{ type: 'kms' }]))).toThrow('Invalid cosigner keys');
+    expect(() => parseCosignerKeyConfigs(JSON.stringify([{ type: 'local' }]))).toThrow('Invalid cosigner keys');
+  });
+
+  it('rejects local keys in prod', () => {
+    const json = JSON.stringify([{ type: 'local', privateKey: Wallet.createRandom().privateKey }]);
+    expect(() => parseCosignerKeyConfigs(json, STAGE.PROD)).toThrow('local keys are not allowed in prod');
+    expect(parseCosignerKeyConfigs(json, STAGE.BETA)).toHaveLength(1);
+  });
+
+  it('rejects empty windows', () => {
+    expect(() =>
+      parseCosignerKeyConfigs(JSON.stringify([{ type: 'kms', keyId: 'key', activeFrom: NOW, activeUntil: NOW }]))
+    ).toThrow('Invalid cosigner keys');
+  });
+
+  it('rejects an empty list', () => {
+    expect(() => parseCosignerKeyConfigs('[]')).toThrow('Invalid cosigner keys');
+  });
+});
@@ -0,0 +1,218 @@
+import { Order } from '@uniswap/uniswapx-sdk';
+import axios from 'axios';
+
+import { OrderPostStatus, OrderStatus, toOrdersUrl, UniswapXServiceProvider } from '../../../lib/providers';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const ORDER_SERVICE_URL = 'https://orders.uniswap.org/dutch-auction/order';
+const SIGNATURE = '0xsig';
+const QUOTE_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
+
+const order = {
+  chainId: 1,
+  hash: () => '0xhash',
+  serialize: () => '0xencoded',
+} as unknown as Order;
+
+const httpError = (status: number, data?: object) =>
+  Object.assign(new axios.AxiosError(), {
+    message: `Request failed with status code ${status}`,
+    response: { status, data },
+  });
+const timeoutError = () => Object.assign(new axios.AxiosError(), { code: 'ECONNABORTED', message: 'timeout' });
+
+describe('UniswapXServiceProvider', () => {
+  const logger = { child: () => logger, info: jest.fn(), error: jest.fn() } as any;
+  const provider = new UniswapXServiceProvider(logger, ORDER_SERVICE_URL, {
+    maxAttempts: 3,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('posts the order', async () => {
+    mockedAxios.post.mockResolvedValueOnce({ status: 201 });
+
+    await expect(provider.postOrder(order, SIGNATURE, QUOTE_ID)).resolves.toEqual({
+      status: OrderPostStatus.POSTED,
+      statusCode: 201,
+      retryable: false,
+      attempts: 1,
+    });
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      ORDER_SERVICE_URL,
+      { encodedOrder: '0xencoded', signature: SIGNATURE, chainId: 1, quoteId: QUOTE_ID },
+      { timeout: 500 }
+    );
+  });
+
+  it('does not retry rejected orders', async () => {
+    mockedAxios.post.mockRejectedValueOnce(httpError(400, { errorCode: 'INVALID_ORDER', detail: 'bad nonce' }));
+
+    await expect(provider.postOrder(order, SIGNATURE)).resolves.toEqual({
+      status: OrderPostStatus.REJECTED,
+      statusCode: 400,
+      errorCode: 'INVALID_ORDER',
+      detail: 'bad nonce',
+      retryable: false,
+      attempts: 1,
+    });
+    expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries server errors until the order is posted', async () => {
+    mockedAxios.post
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(timeoutError())
+      .mockResolvedValueOnce({ status: 201 });
+
+    await expect(provider.postOrder(order, SIGNATURE)).resolves.toMatchObject({
+      status: OrderPostStatus.POSTED,
+      attempts: 3,
+    });
+    expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries throttled requests', async () => {
+    mockedAxios.post.mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce({ status: 201 });
+
+    await expect(provider.postOrder(order, SIGNATURE)).resolves.toMatchObject({
+      status: OrderPostStatus.POSTED,
+      attempts: 2,
+    });
+  });
+
+  it('gives up after the last attempt', async () => {
+    mockedAxios.post.mockRejectedValue(httpError(500, { errorCode: 'INTERNAL_ERROR' }));
+    mockedAxios.get.mockResolvedValueOnce({ data: { orders: [] } });
+
+    await expect(provider.postOrder(order, SIGNATURE)).resolves.toEqual({
+      status: OrderPostStatus.FAILED,
+      statusCode: 500,
+      errorCode: 'INTERNAL_ERROR',
+      detail: 'Request failed with status code 500',
+      retryable: true,
+      attempts: 3,
+    });
+    expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+  });
+
+  it('treats a rejected retry as posted if the timed out attempt stored the order', async () => {
+    mockedAxios.post
+      .mockRejectedValueOnce(timeoutError())
+      .mockRejectedValueOnce(httpError(400, { errorCode: 'ORDER_ALREADY_EXISTS' }));
+    mockedAxios.get.mockResolvedValueOnce({ data: { orders: [{ orderStatus: 'open' }] } });
+
+    await expect(provider.postOrder(order, SIGNATURE)).resolves.toEqual({
+      status: OrderPostStatus.POSTED,
+      retryable: false,
+      attempts: 2,
+    });
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('treats a failed last attempt as posted if an attempt stored the order', async () => {
+    mockedAxios.post.mockRejectedValue(timeoutError());
+    mockedAxios.get.mockResolvedValueOnce({ data: { orders: [{ orderStatus: 'open' }] } });
+
+    await expect(provider.postOrder(order, SIGNATURE)).resolves.toEqual({
+      status: OrderPostStatus.POSTED,
+      retryable: false,
+      attempts: 3,
+    });
+    expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the rejection of a retry if the order was not stored', async () => {
+    mockedAxios.post
+      .mockRejectedValueOnce(timeoutError())
+      .mockRejectedValueOnce(httpError(400, { errorCode: 'INVALID_ORDER', detail: 'bad nonce' }));
+    mockedAxios.get.mockResolvedValueOnce({ data: { orders: [] } });
+
+    await expect(provider.postOrder(order, SIGNATURE)).resolves.toMatchObject({
+      status: OrderPostStatus.REJECTED,
+      errorCode: 'INVALID_ORDER',
+      attempts: 2,
+    });
+  });
+
+  it('does not look up rejections after throttled attempts', async () => {
+    mockedAxios.post
+      .mockRejectedValueOnce(httpError(429))
+      .mockRejectedValueOnce(httpError(400, { errorCode: 'INVALID_ORDER' }));
+
+    await expect(provider.postOrder(order, SIGNATURE)).resolves.toMatchObject({
+      status: OrderPostStatus.REJECTED,
+      attempts: 2,
+    });
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+  });
+
+  it('does not retry unexpected errors', async () => {
+    mockedAxios.post.mockRejectedValueOnce(new Error('boom'));
+
+    await expect(provider.postOrder(order, SIGNATURE)).resolves.toEqual({
+      status: OrderPostStatus.FAILED,
+      detail: 'Error: boom',
+      retryable: false,
+      attempts: 1,
+    });
+  });
+
+  describe('getOrderStatus', () => {
+    it('reads the order status from the orders endpoint', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: { orders: [{ orderStatus: 'filled', txHash: '0xtx' }] } });
+
+      await expect(provider.getOrderStatus('0xhash')).resolves.toEqual({
+        orderHash: '0xhash',
+        status: OrderStatus.FILLED,
+        txHash: '0xtx',
+      });
+      expect(mockedAxios.get).toHaveBeenCalledWith('https://orders.uniswap.org/dutch-auction/orders', {
+        params: { orderHash: '0xhash' },
+        timeout: 500,
+      });
+    });
+
+    it('returns unknown for missing orders and unrecognized statuses', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce({ data: { orders: [] } })
+        .mockResolvedValueOnce({ data: { orders: [{ orderStatus: 'pending' }] } });
+
+      await expect(provider.getOrderStatus('0xhash')).resolves.toEqual({
+        orderHash: '0xhash',
+        status: OrderStatus.UNKNOWN,
+      });
+      await expect(provider.getOrderStatus('0xhash')).resolves.toMatchObject({ status: OrderStatus.UNKNOWN });
+    });
+
+    it('returns unknown when the order service fails', async () => {
+      mockedAxios.get.mockRejectedValueOnce(timeoutError());
+
+      await expect(provider.getOrderStatus('0xhash')).resolves.toEqual({
+        orderHash: '0xhash',
+        status: OrderStatus.UNKNOWN,
+      });
+    });
+  });
+
+  describe('toOrdersUrl', () => {
+    it('lists orders next to the post endpoint', () => {
+      expect(toOrdersUrl(ORDER_SERVICE_URL)).toEqual('https://orders.uniswap.org/dutch-auction/orders');
+      expect(toOrdersUrl(`${ORDER_SERVICE_URL}/`)).toEqual('https://orders.uniswap.org/dutch-auction/orders');
+    });
+
+    it('lists orders under a base url', () => {
+      expect(toOrdersUrl('https://orders.uniswap.org/dutch-auction')).toEqual(
+        'https://orders.uniswap.org/dutch-auction/orders'
+      );
+      expect(toOrdersUrl('https://orders.uniswap.org/')).toEqual('https://orders.uniswap.org/orders');
+    });
+  });
+});
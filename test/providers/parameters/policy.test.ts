@@ -0,0 +1,146 @@
+import { TradeType } from '@uniswap/sdk-core';
+import { ethers } from 'ethers';
+
+import { QuoteRequest, QuoteResponse } from '../../../lib/entities';
+import { MockCircuitBreakerConfigurationProvider } from '../../../lib/providers/circuit-breaker/mock';
+import {
+  defaultCosignerParameters,
+  MockParameterRulesProvider,
+  OutputImprovementPolicy,
+  ParameterPolicy,
+  ParameterRule,
+  ParameterRulesProvider,
+  ruleMatches,
+} from '../../../lib/providers/parameters';
+
+const REQUEST_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
+const QUOTE_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f7';
+const SWAPPER = '0x0000000000000000000000000000000000000000';
+const FILLER = '0x0000000000000000000000000000000000000001';
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const FILLER_HASH = '0xfillerhash';
+
+const logger = { child: () => logger, info: jest.fn(), error: jest.fn(), debug: jest.fn() } as any;
+
+const getRequest = (chainId = 1) =>
+  new QuoteRequest({
+    tokenInChainId: chainId,
+    tokenOutChainId: chainId,
+    requestId: REQUEST_ID,
+    swapper: SWAPPER,
+    tokenIn: TOKEN_IN,
+    tokenOut: TOKEN_OUT,
+    amount: ethers.utils.parseEther('1'),
+    type: TradeType.EXACT_INPUT,
+    numOutputs: 1,
+  });
+
+const getQuote = (amountIn: string, fillerHash = FILLER_HASH) =>
+  new QuoteResponse(
+    {
+      chainId: 1,
+      requestId: REQUEST_ID,
+      quoteId: QUOTE_ID,
+      swapper: SWAPPER,
+      tokenIn: TOKEN_IN,
+      tokenOut: TOKEN_OUT,
+      amountIn: ethers.utils.parseEther(amountIn),
+      amountOut: ethers.utils.parseEther('1'),
+      filler: FILLER,
+      fillerHash,
+    },
+    TradeType.EXACT_INPUT
+  );
+
+const getPolicy = (rules: ParameterRule[] | ParameterRulesProvider, fadeRate = 0.2) =>
+  new ParameterPolicy(
+    logger,
+    Array.isArray(rules) ? new MockParameterRulesProvider(rules) : rules,
+    new MockCircuitBreakerConfigurationProvider([{ hash: FILLER_HASH, fadeRate, enabled: true }])
+  );
+
+describe('ParameterPolicy', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('falls back to the chain defaults', async () => {
+    const parameters = await getPolicy([]).select(getRequest(), getQuote('1'));
+    expect(parameters).toEqual({ ...defaultCosignerParameters(1), fillerFadeRate: 0.2 });
+    expect(parameters.ruleId).toBeUndefined();
+  });
+
+  it('uses the first matching rule, defaulting unset parameters to the chain', async () => {
+    const parameters = await getPolicy([
+      { id: 'polygon', chainId: 137, exclusivityOverrideBps: 10 },
+      { id: 'pair', chainId: 1, tokenIn: TOKEN_IN.toLowerCase(), tokenOut: TOKEN_OUT, exclusivityOverrideBps: 50 },
+      { id: 'mainnet', chainId: 1, exclusivityOverrideBps: 200 },
+    ]).select(getRequest(), getQuote('1'));
+    expect(parameters).toEqual({
+      exclusivityOverrideBps: 50,
+      decayStartDelaySecs: defaultCosignerParameters(1).decayStartDelaySecs,
+      decayDurationSecs: defaultCosignerParameters(1).decayDurationSecs,
+      outputImprovement: OutputImprovementPolicy.SWAPPER_ONLY,
+      ruleId: 'pair',
+      fillerFadeRate: 0.2,
+    });
+  });
+
+  it('selects the output improvement policy', async () => {
+    const parameters = await getPolicy([
+      { id: 'pro-rata', chainId: 1, outputImprovement: OutputImprovementPolicy.PRO_RATA },
+    ]).select(getRequest(), getQuote('1'));
+    expect(parameters.outputImprovement).toEqual(OutputImprovementPolicy.PRO_RATA);
+  });
+
+  it('matches size buckets on the quoted amountIn', async () => {
+    const policy = getPolicy([
+      { id: 'small', maxAmountIn: ethers.utils.parseEther('10').toString(), decayDurationSecs: 30 },
+      { id: 'large', minAmountIn: ethers.utils.parseEther('10').toString(), decayDurationSecs: 120 },
+    ]);
+    expect((await policy.select(getRequest(), getQuote('1'))).ruleId).toEqual('small');
+    expect((await policy.select(getRequest(), getQuote('10'))).ruleId).toEqual('large');
+  });
+
+  it('matches fade rate buckets on the winning filler', async () => {
+    const rules: ParameterRule[] = [{ id: 'fader', minFadeRate: 0.5, exclusivityOverrideBps: 300 }];
+    expect((await getPolicy(rules, 0.6).select(getRequest(), getQuote('1'))).ruleId).toEqual('fader');
+    expect((await getPolicy(rules, 0.1).select(getRequest(), getQuote('1'))).ruleId).toBeUndefined();
+    // fillers without a fade rate never match fade rate buckets
+    expect((await getPolicy(rules, 0.6).select(getRequest(), getQuote('1', '0xunknown'))).ruleId).toBeUndefined();
+  });
+
+  it('falls back to the chain defaults if rules are unavailable', async () => {
+    const policy = getPolicy({ getRules: () => Promise.reject(new Error('s3 down')) });
+    const parameters = await policy.select(getRequest(), getQuote('1'));
+    expect(parameters.ruleId).toBeUndefined();
+    expect(parameters.exclusivityOverrideBps).toEqual(defaultCosignerParameters(1).exclusivityOverrideBps);
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  describe('ruleMatches', () => {
+    const context = {
+      chainId: 1,
+      tokenIn: TOKEN_IN,
+      tokenOut: TOKEN_OUT,
+      amountIn: ethers.utils.parseEther('1'),
+      fadeRate: 0.3,
+    };
+
+    it('matches rules without conditions', () => {
+      expect(ruleMatches({ id: 'all' }, context)).toBe(true);
+    });
+
+    it('treats bucket upper bounds as exclusive', () => {
+      expect(ruleMatches({ id: 'amount', maxAmountIn: ethers.utils.parseEther('1').toString() }, context)).toBe(false);
+      expect(ruleMatches({ id: 'fade', minFadeRate: 0.3, maxFadeRate: 0.4 }, context)).toBe(true);
+      expect(ruleMatches({ id: 'fade', maxFadeRate: 0.3 }, context)).toBe(false);
+    });
+
+    it('rejects other chains and tokens', () => {
+      expect(ruleMatches({ id: 'chain', chainId: 137 }, context)).toBe(false);
+      expect(ruleMatches({ id: 'token', tokenOut: TOKEN_IN }, context)).toBe(false);
+    });
+  });
+});
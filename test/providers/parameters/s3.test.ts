@@ -0,0 +1,72 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { default as Logger } from 'bunyan';
+
+import { ParameterRule, S3ParameterRulesProvider } from '../../../lib/providers/parameters';
+
+const mockRules: ParameterRule[] = [
+  { id: 'mainnet-large', chainId: 1, minAmountIn: '1000000000000000000000', decayDurationSecs: 120 },
+  { id: 'faders', minFadeRate: 0.5, exclusivityOverrideBps: 300 },
+];
+
+function applyMock(rules: unknown) {
+  jest.spyOn(S3Client.prototype, 'send').mockImplementationOnce(() =>
+    Promise.resolve({
+      Body: {
+        transformToString: () => Promise.resolve(JSON.stringify(rules)),
+      },
+    })
+  );
+}
+
+// silent logger in tests
+const logger = Logger.createLogger({ name: 'test' });
+logger.level(Logger.FATAL);
+
+describe('S3ParameterRulesProvider', () => {
+  const bucket = 'test-bucket';
+  const key = 'test-key';
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('fetches rules', async () => {
+    applyMock(mockRules);
+    const provider = new S3ParameterRulesProvider(logger, bucket, key);
+    expect(await provider.getRules()).toEqual(mockRules);
+  });
+
+  it('keeps the last rules if the new rules are invalid', async () => {
+    applyMock(mockRules);
+    const provider = new S3ParameterRulesProvider(logger, bucket, key);
+    await provider.fetchRules();
+
+    applyMock([{ id: 'bad', exclusivityOverrideBps: -1 }]);
+    await provider.fetchRules();
+    expect(await provider.getRules()).toEqual(mockRules);
+  });
+
+  it('refetches rules after the update period', async () => {
+    jest.useFakeTimers();
+    applyMock(mockRules);
+    const provider = new S3ParameterRulesProvider(logger, bucket, key);
+    await provider.getRules();
+
+    const updated = [{ id: 'updated', exclusivityOverrideBps: 50 }];
+    applyMock(updated);
+    expect(await provider.getRules()).toEqual(mockRules);
+
+    jest.advanceTimersByTime(5 * 60000 + 1);
+    expect(await provider.getRules()).toEqual(updated);
+  });
+
+  it('retries a failed fetch without waiting for the update period', async () => {
+    applyMock([{ id: 'bad', exclusivityOverrideBps: -1 }]);
+    const provider = new S3ParameterRulesProvider(logger, bucket, key);
+    expect(await provider.getRules()).toEqual([]);
+
+    applyMock(mockRules);
+    expect(await provider.getRules()).toEqual(mockRules);
+  });
+});
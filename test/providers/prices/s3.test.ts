@@ -0,0 +1,84 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { default as Logger } from 'bunyan';
+import { ethers } from 'ethers';
+
+import { ReferencePrice, S3ReferencePriceProvider } from '../../../lib/providers/prices';
+
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+function applyMock(prices: ReferencePrice[]) {
+  jest.spyOn(S3Client.prototype, 'send').mockImplementationOnce(() =>
+    Promise.resolve({
+      Body: {
+        transformToString: () => Promise.resolve(JSON.stringify(prices)),
+      },
+    })
+  );
+}
+
+// silent logger in tests
+const logger = Logger.createLogger({ name: 'test' });
+logger.level(Logger.FATAL);
+
+describe('S3ReferencePriceProvider', () => {
+  const bucket = 'test-bucket';
+  const key = 'test-key';
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns listed prices regardless of casing', async () => {
+    applyMock([{ chainId: 1, tokenIn: TOKEN_IN.toLowerCase(), tokenOut: TOKEN_OUT, price: '0.004' }]);
+    const provider = new S3ReferencePriceProvider(logger, bucket, key);
+    expect(await provider.getPrice(1, TOKEN_IN, TOKEN_OUT.toLowerCase())).toEqual(ethers.utils.parseEther('0.004'));
+    expect(await provider.getPrice(137, TOKEN_IN, TOKEN_OUT)).toBeUndefined();
+  });
+
+  it('inverts pairs listed the other way round', async () => {
+    applyMock([{ chainId: 1, tokenIn: TOKEN_IN, tokenOut: TOKEN_OUT, price: '0.004' }]);
+    const provider = new S3ReferencePriceProvider(logger, bucket, key);
+    expect(await provider.getPrice(1, TOKEN_OUT, TOKEN_IN)).toEqual(ethers.utils.parseEther('250'));
+  });
+
+  it('keeps the last prices if the file is invalid', async () => {
+    applyMock([{ chainId: 1, tokenIn: TOKEN_IN, tokenOut: TOKEN_OUT, price: '0.004' }]);
+    const provider = new S3ReferencePriceProvider(logger, bucket, key);
+    await provider.fetchPrices();
+
+    applyMock([{ chainId: 1, tokenIn: TOKEN_IN, tokenOut: TOKEN_OUT, price: '-1' }]);
+    await provider.fetchPrices();
+    expect(await provider.getPrice(1, TOKEN_IN, TOKEN_OUT)).toEqual(ethers.utils.parseEther('0.004'));
+  });
+
+  it('waits for the update period after a failed fetch', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const send = jest
+      .spyOn(S3Client.prototype, 'send')
+      .mockImplementationOnce(() => Promise.reject(new Error('s3 down')));
+    const provider = new S3ReferencePriceProvider(logger, bucket, key);
+    expect(await provider.getPrice(1, TOKEN_IN, TOKEN_OUT)).toBeUndefined();
+
+    applyMock([{ chainId: 1, tokenIn: TOKEN_IN, tokenOut: TOKEN_OUT, price: '0.004' }]);
+    expect(await provider.getPrice(1, TOKEN_IN, TOKEN_OUT)).toBeUndefined();
+    expect(send).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + 5 * 60000 + 1);
+    expect(await provider.getPrice(1, TOKEN_IN, TOKEN_OUT)).toEqual(ethers.utils.parseEther('0.004'));
+    expect(send).toHaveBeenCalledTimes(2);
+    now.mockRestore();
+  });
+
+  it('shares one fetch between concurrent calls', async () => {
+    applyMock([{ chainId: 1, tokenIn: TOKEN_IN, tokenOut: TOKEN_OUT, price: '0.004' }]);
+    const provider = new S3ReferencePriceProvider(logger, bucket, key);
+
+    const prices = await Promise.all([
+      provider.getPrice(1, TOKEN_IN, TOKEN_OUT),
+      provider.getPrice(1, TOKEN_OUT, TOKEN_IN),
+    ]);
+    expect(prices).toEqual([ethers.utils.parseEther('0.004'), ethers.utils.parseEther('250')]);
+    expect(S3Client.prototype.send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,79 @@
+import { AdaptiveTimeoutTracker, DEFAULT_ADAPTIVE_TIMEOUT_OPTIONS } from '../../../lib/quoters';
+
+const HASH = '0xuni';
+
+describe('AdaptiveTimeoutTracker', () => {
+  const options = {
+    ...DEFAULT_ADAPTIVE_TIMEOUT_OPTIONS,
+    minSamples: 5,
+    windowSize: 10,
+    backoffAfterTimeouts: 2,
+    backoffBaseMs: 1000,
+    backoffMaxMs: 3000,
+  };
+
+  it('uses the default timeout until enough samples are recorded', () => {
+    const tracker = new AdaptiveTimeoutTracker(options);
+    for (let i = 0; i < options.minSamples - 1; i++) {
+      tracker.recordLatency(HASH, 100);
+    }
+    expect(tracker.getTimeout(HASH)).toEqual(options.defaultTimeoutMs);
+    expect(tracker.getTimeout('0xother')).toEqual(options.defaultTimeoutMs);
+
+    tracker.recordLatency(HASH, 100);
+    expect(tracker.getTimeout(HASH)).toEqual(100 + options.marginMs);
+  });
+
+  it('derives the timeout from the percentile of recent latencies', () => {
+    const tracker = new AdaptiveTimeoutTracker(options);
+    [120, 100, 140, 110, 300, 130, 100, 100, 100, 100].forEach((latency) => tracker.recordLatency(HASH, latency));
+    expect(tracker.getTimeout(HASH)).toEqual(300 + options.marginMs);
+
+    // the slow sample rolls out of the window
+    [100, 100, 100, 100, 100].forEach((latency) => tracker.recordLatency(HASH, latency));
+    expect(tracker.getTimeout(HASH)).toEqual(130 + options.marginMs);
+  });
+
+  it('raises the timeout above the default for slow fillers', () => {
+    const tracker = new AdaptiveTimeoutTracker(options);
+    for (let i = 0; i < options.minSamples; i++) {
+      tracker.recordLatency(HASH, 700);
+    }
+    expect(tracker.getTimeout(HASH)).toEqual(700 + options.marginMs);
+    expect(tracker.getTimeout(HASH)).toBeGreaterThan(options.defaultTimeoutMs);
+  });
+
+  it('clamps the timeout', () => {
+    const tracker = new AdaptiveTimeoutTracker(options);
+    for (let i = 0; i < options.minSamples; i++) {
+      tracker.recordLatency(HASH, 10);
+      tracker.recordLatency('0xslow', 2000);
+    }
+    expect(tracker.getTimeout(HASH)).toEqual(options.minTimeoutMs);
+    expect(tracker.getTimeout('0xslow')).toEqual(options.maxTimeoutMs);
+  });
+
+  it('backs off after consecutive timeouts', () => {
+    const tracker = new AdaptiveTimeoutTracker(options);
+    tracker.recordTimeout(HASH, 500, 0);
+    expect(tracker.backoffRemainingMs(HASH, 0)).toEqual(0);
+
+    tracker.recordTimeout(HASH, 500, 0);
+    expect(tracker.backoffRemainingMs(HASH, 0)).toEqual(1000);
+    expect(tracker.backoffRemainingMs(HASH, 1000)).toEqual(0);
+
+    tracker.recordTimeout(HASH, 500, 1000);
+    expect(tracker.backoffRemainingMs(HASH, 1000)).toEqual(2000);
+
+    tracker.recordTimeout(HASH, 500, 3000);
+    expect(tracker.backoffRemainingMs(HASH, 3000)).toEqual(options.backoffMaxMs);
+  });
+
+  it('resets the timeout streak on a response', () => {
+    const tracker = new AdaptiveTimeoutTracker(options);
+    tracker.recordTimeout(HASH, 500, 0);
+    tracker.recordLatency(HASH, 100);
+    tracker.recordTimeout(HASH, 500, 0);
+    expect(tracker.backoffRemainingMs(HASH, 0)).toEqual(0);
+  });
+});
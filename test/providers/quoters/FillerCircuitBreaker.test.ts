@@ -0,0 +1,94 @@
+import { WebhookResponseType } from '../../../lib/entities';
+import { CircuitState, FillerCircuitBreaker } from '../../../lib/quoters';
+
+const CONFIG = { name: 'uniswap', endpoint: 'https://uniswap.org', headers: {}, hash: '0xuni' };
+
+describe('FillerCircuitBreaker', () => {
+  const logger = { child: () => logger, info: jest.fn(), error: jest.fn(), debug: jest.fn() } as any;
+  const options = { failureThreshold: 3, openDurationMs: 1000, maxProbes: 1 };
+
+  const trip = (breaker: FillerCircuitBreaker, now = 0) => {
+    for (let i = 0; i < options.failureThreshold; i++) {
+      breaker.allowRequest(CONFIG, now);
+      breaker.recordOutcome(CONFIG, WebhookResponseType.TIMEOUT, now);
+    }
+  };
+
+  it('opens after consecutive failures', () => {
+    const breaker = new FillerCircuitBreaker(logger, options);
+    breaker.recordOutcome(CONFIG, WebhookResponseType.HTTP_ERROR, 0);
+    breaker.recordOutcome(CONFIG, WebhookResponseType.VALIDATION_ERROR, 0);
+    expect(breaker.getState(CONFIG.hash)).toEqual(CircuitState.CLOSED);
+    expect(breaker.allowRequest(CONFIG, 0)).toBe(true);
+
+    breaker.recordOutcome(CONFIG, WebhookResponseType.TIMEOUT, 0);
+    expect(breaker.getState(CONFIG.hash)).toEqual(CircuitState.OPEN);
+    expect(breaker.allowRequest(CONFIG, 999)).toBe(false);
+  });
+
+  it('resets the failure count on a successful response', () => {
+    const breaker = new FillerCircuitBreaker(logger, options);
+    breaker.recordOutcome(CONFIG, WebhookResponseType.HTTP_ERROR, 0);
+    breaker.recordOutcome(CONFIG, WebhookResponseType.HTTP_ERROR, 0);
+    breaker.recordOutcome(CONFIG, WebhookResponseType.NON_QUOTE, 0);
+    breaker.recordOutcome(CONFIG, WebhookResponseType.HTTP_ERROR, 0);
+    breaker.recordOutcome(CONFIG, WebhookResponseType.HTTP_ERROR, 0);
+    expect(breaker.getState(CONFIG.hash)).toEqual(CircuitState.CLOSED);
+  });
+
+  it('ignores outcomes which do not reflect filler health', () => {
+    const breaker = new FillerCircuitBreaker(logger, options);
+    for (let i = 0; i < options.failureThreshold; i++) {
+      breaker.recordOutcome(CONFIG, WebhookResponseType.REQUEST_ID_MISMATCH, 0);
+      breaker.recordOutcome(CONFIG, WebhookResponseType.OTHER_ERROR, 0);
+    }
+    expect(breaker.getState(CONFIG.hash)).toEqual(CircuitState.CLOSED);
+  });
+
+  it('allows a single probe once the open period ends', () => {
+    const breaker = new FillerCircuitBreaker(logger, options);
+    trip(breaker);
+
+    expect(breaker.allowRequest(CONFIG, 1000)).toBe(true);
+    expect(breaker.getState(CONFIG.hash)).toEqual(CircuitState.HALF_OPEN);
+    expect(breaker.allowRequest(CONFIG, 1000)).toBe(false);
+  });
+
+  it('closes after a successful probe', () => {
+    const breaker = new FillerCircuitBreaker(logger, options);
+    trip(breaker);
+
+    breaker.allowRequest(CONFIG, 1000);
+    breaker.recordOutcome(CONFIG, WebhookResponseType.OK, 1000);
+    expect(breaker.getState(CONFIG.hash)).toEqual(CircuitState.CLOSED);
+    expect(breaker.allowRequest(CONFIG, 1000)).toBe(true);
+    expect(breaker.allowRequest(CONFIG, 1000)).toBe(true);
+  });
+
+  it('reopens after a failed probe', () => {
+    const breaker = new FillerCircuitBreaker(logger, options);
+    trip(breaker);
+
+    breaker.allowRequest(CONFIG, 1000);
+    breaker.recordOutcome(CONFIG, WebhookResponseType.HTTP_ERROR, 1000);
+    expect(breaker.getState(CONFIG.hash)).toEqual(CircuitState.OPEN);
+    expect(breaker.allowRequest(CONFIG, 1999)).toBe(false);
+    expect(breaker.allowRequest(CONFIG, 2000)).toBe(true);
+  });
+
+  it('releases the probe on an inconclusive outcome', () => {
+    const breaker = new FillerCircuitBreaker(logger, options);
+    trip(breaker);
+
+    breaker.allowRequest(CONFIG, 1000);
+    breaker.recordOutcome(CONFIG, WebhookResponseType.OTHER_ERROR, 1000);
+    expect(breaker.getState(CONFIG.hash)).toEqual(CircuitState.HALF_OPEN);
+    expect(breaker.allowRequest(CONFIG, 1000)).toBe(true);
+  });
+
+  it('tracks fillers separately', () => {
+    const breaker = new FillerCircuitBreaker(logger, options);
+    trip(breaker);
+    expect(breaker.allowRequest({ ...CONFIG, hash: '0x1inch' }, 0)).toBe(true);
+  });
+});
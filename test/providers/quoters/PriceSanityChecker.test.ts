@@ -0,0 +1,141 @@
+import { TradeType } from '@uniswap/sdk-core';
+import { default as Logger } from 'bunyan';
+import { ethers } from 'ethers';
+
+import { QuoteRequest, QuoteResponse } from '../../../lib/entities';
+import { MockReferencePriceProvider } from '../../../lib/providers/prices';
+import {
+  AuctionMedianReferencePriceSource,
+  getPriceSanityChecker,
+  PriceSanityChecker,
+  ReferencePriceSourceType,
+  StaticReferencePriceSource,
+} from '../../../lib/quoters';
+
+const REQUEST_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
+const SWAPPER = '0x0000000000000000000000000000000000000000';
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const CHAIN_ID = 1;
+
+// silent logger in tests
+const logger = Logger.createLogger({ name: 'test' });
+logger.level(Logger.FATAL);
+
+const getRequest = (type: TradeType): QuoteRequest =>
+  new QuoteRequest({
+    tokenInChainId: CHAIN_ID,
+    tokenOutChainId: CHAIN_ID,
+    requestId: REQUEST_ID,
+    swapper: SWAPPER,
+    tokenIn: TOKEN_IN,
+    tokenOut: TOKEN_OUT,
+    amount: ethers.utils.parseEther('1'),
+    type,
+    numOutputs: 1,
+  });
+
+const getQuote = (request: QuoteRequest, quoted: string): QuoteResponse =>
+  QuoteResponse.fromRequest(request, ethers.utils.parseEther(quoted));
+
+const staticSource = (price: string) =>
+  new StaticReferencePriceSource(
+    new MockReferencePriceProvider([{ chainId: CHAIN_ID, tokenIn: TOKEN_IN, tokenOut: TOKEN_OUT, price }])
+  );
+
+describe('PriceSanityChecker', () => {
+  const exactIn = getRequest(TradeType.EXACT_INPUT);
+  const exactOut = getRequest(TradeType.EXACT_OUTPUT);
+  const noContext = {};
+
+  it('flags quotes beyond the tolerance in either direction', async () => {
+    const checker = new PriceSanityChecker(logger, [staticSource('2')], 1_000);
+
+    await expect(checker.check(exactIn, getQuote(exactIn, '2.1'), noContext)).resolves.toEqual({
+      outlier: false,
+      source: ReferencePriceSourceType.STATIC,
+      referenceAmount: ethers.utils.parseEther('2'),
+      deviationBps: 500,
+    });
+    await expect(checker.check(exactIn, getQuote(exactIn, '2.5'), noContext)).resolves.toMatchObject({
+      outlier: true,
+      deviationBps: 2_500,
+    });
+    await expect(checker.check(exactIn, getQuote(exactIn, '1.5'), noContext)).resolves.toMatchObject({
+      outlier: true,
+      deviationBps: 2_500,
+    });
+  });
+
+  it('uses the input amount for exact output requests', async () => {
+    const checker = new PriceSanityChecker(logger, [staticSource('2')], 1_000);
+
+    await expect(checker.check(exactOut, getQuote(exactOut, '0.5'), noContext)).resolves.toMatchObject({
+      outlier: false,
+      referenceAmount: ethers.utils.parseEther('0.5'),
+    });
+  });
+
+  it('compares each quote to the median of the rest of the auction', async () => {
+    const checker = new PriceSanityChecker(logger, [new AuctionMedianReferencePriceSource(3)], 1_000);
+    const auctionQuotes = ['200', '2', '2.02', '2.01'].map((quoted) => getQuote(exactIn, quoted));
+
+    const results = await checker.checkAuction(exactIn, auctionQuotes);
+    expect(results.map((result) => result.outlier)).toEqual([true, false, false, false]);
+    expect(results[0]).toMatchObject({
+      source: ReferencePriceSourceType.AUCTION_MEDIAN,
+      referenceAmount: ethers.utils.parseEther('2.01'),
+    });
+    await expect(checker.checkAuction(exactIn, auctionQuotes.slice(0, 3))).resolves.toEqual([
+      { outlier: false },
+      { outlier: false },
+      { outlier: false },
+    ]);
+  });
+
+  it('leaves the auction median out of per-quote checks', async () => {
+    const checker = new PriceSanityChecker(logger, [new AuctionMedianReferencePriceSource(3)], 1_000);
+    const auctionQuotes = ['2', '2.02', '2.01'].map((quoted) => getQuote(exactIn, quoted));
+
+    await expect(checker.check(exactIn, getQuote(exactIn, '200'), { auctionQuotes })).resolves.toEqual({
+      outlier: false,
+    });
+  });
+
+  it('falls back to the next source', async () => {
+    const failing = {
+      type: () => ReferencePriceSourceType.STATIC,
+      getReferenceAmount: () => Promise.reject(new Error('s3 down')),
+    };
+    const checker = new PriceSanityChecker(
+      logger,
+      [failing, new StaticReferencePriceSource(new MockReferencePriceProvider()), staticSource('2')],
+      1_000
+    );
+
+    await expect(checker.check(exactIn, getQuote(exactIn, '20'), noContext)).resolves.toMatchObject({
+      outlier: true,
+      referenceAmount: ethers.utils.parseEther('2'),
+    });
+  });
+
+  it('is built from the environment', () => {
+    expect(getPriceSanityChecker(logger, 'test', { PRICE_REFERENCE_SOURCES: '' })).toBeUndefined();
+    expect(getPriceSanityChecker(logger, 'test', {})?.usesOpposingQuote).toBe(false);
+    expect(
+      getPriceSanityChecker(logger, 'test', { PRICE_REFERENCE_SOURCES: 'OPPOSING_QUOTE' })?.usesOpposingQuote
+    ).toBe(true);
+    expect(() => getPriceSanityChecker(logger, 'test', { PRICE_REFERENCE_SOURCES: 'ORACLE' })).toThrow(
+      'Unknown reference price source: ORACLE'
+    );
+  });
+
+  it('rejects tolerances that are not positive integers', () => {
+    expect(getPriceSanityChecker(logger, 'test', { PRICE_OUTLIER_TOLERANCE_BPS: '1000' })).toBeDefined();
+    for (const value of ['0', '-100', '1.5', 'ten']) {
+      expect(() => getPriceSanityChecker(logger, 'test', { PRICE_OUTLIER_TOLERANCE_BPS: value })).toThrow(
+        `PRICE_OUTLIER_TOLERANCE_BPS must be a positive integer, got ${value}`
+      );
+    }
+  });
+});
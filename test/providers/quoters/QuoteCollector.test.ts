@@ -0,0 +1,187 @@
+import { TradeType } from '@uniswap/sdk-core';
+import { ethers } from 'ethers';
+
+import { AnalyticsEventType, QuoteRequest, QuoteResponse, WebhookResponseType } from '../../../lib/entities';
+import { FirehoseLogger } from '../../../lib/providers/analytics';
+import {
+  AuctionMedianReferencePriceSource,
+  DEFAULT_AUCTION_DEADLINE_MS,
+  getAuctionOptions,
+  PriceSanityChecker,
+  QuoteCollector,
+  QuoteListener,
+  Quoter,
+  QuoterType,
+} from '../../../lib/quoters';
+import { sleep } from '../../../lib/util/time';
+
+const REQUEST_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
+const SWAPPER = '0x0000000000000000000000000000000000000000';
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const CHAIN_ID = 1;
+
+const logger = { child: () => logger, info: jest.fn(), error: jest.fn(), debug: jest.fn() } as any;
+
+const request = new QuoteRequest({
+  tokenInChainId: CHAIN_ID,
+  tokenOutChainId: CHAIN_ID,
+  requestId: REQUEST_ID,
+  swapper: SWAPPER,
+  tokenIn: TOKEN_IN,
+  tokenOut: TOKEN_OUT,
+  amount: ethers.utils.parseEther('1'),
+  type: TradeType.EXACT_INPUT,
+  numOutputs: 1,
+});
+
+const quoteFrom = (filler: string, amountOut = '1') =>
+  QuoteResponse.fromRequest(request, ethers.utils.parseEther(amountOut), filler);
+
+// streams each quote after its delay, then returns all of them like WebhookQuoter does
+class DelayedQuoter implements Quoter {
+  public accepted: boolean[] = [];
+
+  constructor(private delays: [number, QuoteResponse][]) {}
+
+  async quote(_request: QuoteRequest, onQuote?: QuoteListener): Promise<QuoteResponse[]> {
+    const quotes = await Promise.all(
+      this.delays.map(async ([delay, quote]) => {
+        await sleep(delay);
+        if (onQuote) {
+          this.accepted.push(onQuote(quote));
+        }
+        return quote;
+      })
+    );
+    return quotes;
+  }
+
+  type(): QuoterType {
+    return QuoterType.TEST;
+  }
+}
+
+describe('QuoteCollector', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns all quotes when every quoter finishes before the deadline', async () => {
+    const quoter = new DelayedQuoter([
+      [0, quoteFrom('0x0000000000000000000000000000000000000001')],
+      [10, quoteFrom('0x0000000000000000000000000000000000000002')],
+    ]);
+    const collector = new QuoteCollector(logger, request, { deadlineMs: 1000 });
+    const { quotes, timedOut } = await collector.collect([quoter]);
+
+    expect(quotes.length).toEqual(2);
+    expect(timedOut).toBe(false);
+    expect(collector.late).toEqual([]);
+  });
+
+  it('does not double count quotes that are both streamed and returned', async () => {
+    const quoter = new DelayedQuoter([[0, quoteFrom('0x0000000000000000000000000000000000000001')]]);
+    const collector = new QuoteCollector(logger, request, { deadlineMs: 1000 });
+    const { quotes } = await collector.collect([quoter]);
+
+    expect(quotes.length).toEqual(1);
+  });
+
+  it('closes the auction at the deadline and records late fillers', async () => {
+    const late = quoteFrom('0x0000000000000000000000000000000000000002');
+    const quoter = new DelayedQuoter([
+      [0, quoteFrom('0x0000000000000000000000000000000000000001')],
+      [200, late],
+    ]);
+    const collector = new QuoteCollector(logger, request, { deadlineMs: 50 });
+    const { quotes, timedOut } = await collector.collect([quoter]);
+
+    expect(timedOut).toBe(true);
+    expect(quotes.length).toEqual(1);
+    expect(quotes[0].filler).toEqual('0x0000000000000000000000000000000000000001');
+
+    await sleep(250);
+    expect(quoter.accepted).toEqual([true, false]);
+    expect(collector.late).toEqual([{ quoteId: late.quoteId, filler: late.filler, latencyMs: expect.any(Number) }]);
+  });
+
+  it('closes the auction early once maxQuotes are in', async () => {
+    const quoter = new DelayedQuoter([
+      [0, quoteFrom('0x0000000000000000000000000000000000000001')],
+      [5, quoteFrom('0x0000000000000000000000000000000000000002')],
+      [300, quoteFrom('0x0000000000000000000000000000000000000003')],
+    ]);
+    const collector = new QuoteCollector(logger, request, { deadlineMs: 1000, maxQuotes: 2 });
+    const start = Date.now();
+    const { quotes, timedOut } = await collector.collect([quoter]);
+
+    expect(Date.now() - start).toBeLessThan(300);
+    expect(timedOut).toBe(false);
+    expect(quotes.length).toEqual(2);
+  });
+
+  it('ignores quoters that throw', async () => {
+    const failing: Quoter = {
+      quote: () => Promise.reject(new Error('boom')),
+      type: () => QuoterType.TEST,
+    };
+    const quoter = new DelayedQuoter([[0, quoteFrom('0x0000000000000000000000000000000000000001')]]);
+    const collector = new QuoteCollector(logger, request, { deadlineMs: 1000 });
+    const { quotes } = await collector.collect([failing, quoter]);
+
+    expect(quotes.length).toEqual(1);
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it('drops quotes far from the rest of the auction, whenever they arrived', async () => {
+    const fatFingered = quoteFrom('0x0000000000000000000000000000000000000001', '100');
+    const quoter = new DelayedQuoter([
+      [0, fatFingered],
+      [5, quoteFrom('0x0000000000000000000000000000000000000002', '1')],
+      [10, quoteFrom('0x0000000000000000000000000000000000000003', '1.01')],
+      [15, quoteFrom('0x0000000000000000000000000000000000000004', '0.99')],
+    ]);
+    const priceChecker = new PriceSanityChecker(logger, [new AuctionMedianReferencePriceSource()], 1_000);
+    const firehose = { sendAnalyticsEvent: jest.fn() } as unknown as FirehoseLogger;
+    const collector = new QuoteCollector(logger, request, { deadlineMs: 1000, priceChecker, firehose });
+    const { quotes } = await collector.collect([quoter]);
+
+    expect(quotes.length).toEqual(3);
+    expect(quotes).not.toContain(fatFingered);
+    expect(firehose.sendAnalyticsEvent).toHaveBeenCalledTimes(1);
+    expect(firehose.sendAnalyticsEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: AnalyticsEventType.WEBHOOK_RESPONSE,
+        eventProperties: expect.objectContaining({
+          quoteId: fatFingered.quoteId,
+          filler: fatFingered.filler,
+          responseType: WebhookResponseType.PRICE_OUTLIER,
+          referenceSource: 'AUCTION_MEDIAN',
+        }),
+      })
+    );
+  });
+
+  describe('getAuctionOptions', () => {
+    it('uses defaults when unset', () => {
+      expect(getAuctionOptions({})).toEqual({ deadlineMs: DEFAULT_AUCTION_DEADLINE_MS });
+    });
+
+    it('reads deadline and maxQuotes from env', () => {
+      expect(getAuctionOptions({ AUCTION_DEADLINE_MS: '300', AUCTION_MAX_QUOTES: '3' })).toEqual({
+        deadlineMs: 300,
+        maxQuotes: 3,
+      });
+    });
+
+    it('rejects values that are not positive integers', () => {
+      expect(() => getAuctionOptions({ AUCTION_DEADLINE_MS: '30O' })).toThrow(
+        'AUCTION_DEADLINE_MS must be a positive integer, got 30O'
+      );
+      expect(() => getAuctionOptions({ AUCTION_DEADLINE_MS: '-1' })).toThrow();
+      expect(() => getAuctionOptions({ AUCTION_MAX_QUOTES: '0' })).toThrow();
+      expect(() => getAuctionOptions({ AUCTION_MAX_QUOTES: '2.5' })).toThrow();
+    });
+  });
+});
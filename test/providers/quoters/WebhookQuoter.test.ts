@@ -7,7 +7,20 @@ import { MockWebhookConfigurationProvider } from '../../../lib/providers';
 import { FirehoseLogger } from '../../../lib/providers/analytics';
 import { MockCircuitBreakerConfigurationProvider } from '../../../lib/providers/circuit-breaker/mock';
 import { MockFillerComplianceConfigurationProvider } from '../../../lib/providers/compliance';
-import { WebhookQuoter } from '../../../lib/quoters';
+import { MockReferencePriceProvider } from '../../../lib/providers/prices';
+import {
+  AdaptiveTimeoutTracker,
+  CircuitState,
+  DEFAULT_ADAPTIVE_TIMEOUT_OPTIONS,
+  FillerCircuitBreaker,
+  OpposingQuoteReferencePriceSource,
+  PriceSanityChecker,
+  ReferencePriceSourceType,
+  StaticReferencePriceSource,
+  WebhookQuoter,
+} from '../../../lib/quoters';
+import { MockWebSocketFiller, WebhookTransport, WebSocketConnectionPool } from '../../../lib/transports';
+import { ResponseSignatureMode, rfqResponseSigningPayload } from '../../../lib/util/rfq-signing';
 
 jest.mock('axios');
 jest.mock('../../../lib/providers/analytics');
@@ -87,6 +100,8 @@ describe('WebhookQuoter tests', () => {
     quoteId: expect.any(String),
     name: 'uniswap',
     endpoint: WEBHOOK_URL,
+    tokenInChainId: CHAIN_ID,
+    tokenOutChainId: CHAIN_ID,
     requestTime: expect.any(String),
     timeoutSettingMs: 500,
     responseTime: expect.any(String),
@@ -127,6 +142,32 @@ describe('WebhookQuoter tests', () => {
     await expect(webhookQuoter.quote(request)).resolves.toStrictEqual([]);
   });
 
+  it('Skips excluded endpoints and reports the exclusion', async () => {
+    const webhookQuoter = new WebhookQuoter(
+      logger,
+      mockFirehoseLogger,
+      webhookProvider,
+      circuitBreakerProvider,
+      new MockFillerComplianceConfigurationProvider([{ endpoints: [WEBHOOK_URL], addresses: [SWAPPER.toUpperCase()] }])
+    );
+    mockedAxios.post.mockImplementation((_endpoint, _req, _options) => Promise.resolve({ data: quote, status: 200 }));
+
+    await webhookQuoter.quote(request);
+    expect(mockedAxios.post).not.toHaveBeenCalledWith(WEBHOOK_URL, expect.anything(), expect.anything());
+    expect(mockedAxios.post).toHaveBeenCalledWith(WEBHOOK_URL_SEARCHER, expect.anything(), expect.anything());
+    expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: AnalyticsEventType.WEBHOOK_RESPONSE,
+        eventProperties: expect.objectContaining({
+          requestId: request.requestId,
+          endpoint: WEBHOOK_URL,
+          responseType: WebhookResponseType.COMPLIANCE_EXCLUDED,
+        }),
+      })
+    );
+    mockedAxios.post.mockReset();
+  });
+
   // should only call 'uniswap' and 'searcher' given they are enabled in the config
   it('Only calls to eligible endpoints', async () => {
     mockedAxios.post
@@ -359,7 +400,9 @@ describe('WebhookQuoter tests', () => {
     expect(logger.debug).toHaveBeenCalledWith(
       {
         configuredChainIds: [4, 5, 6],
-        chainId: request.tokenInChainId,
+        crossChainRoutes: undefined,
+        tokenInChainId: request.tokenInChainId,
+        tokenOutChainId: request.tokenOutChainId,
       },
       `chainId not configured for ${WEBHOOK_URL}`
     );
@@ -397,8 +440,11 @@ describe('WebhookQuoter tests', () => {
           data: {
             ...quote,
             quoteId: expect.any(String),
+            tokenOutChainId: CHAIN_ID,
             amountOut: BigNumber.from(quote.amountOut),
             amountIn: BigNumber.from(request.amount),
+            fillerHash: '0xuni',
+            latencyMs: expect.any(Number),
           },
           type: 0,
         },
@@ -591,4 +637,543 @@ describe('WebhookQuoter tests', () => {
       })
     );
   });
+  it('Streams quotes to the listener and flags those after the cutoff', async () => {
+    mockedAxios.post
+      .mockImplementationOnce((_endpoint, _req, _options) => {
+        return Promise.resolve({
+          data: quote,
+        });
+      })
+      .mockImplementationOnce((_endpoint, _req, _options) => {
+        return Promise.resolve({
+          data: {
+            ...quote,
+            tokenIn: request.tokenOut,
+            tokenOut: request.tokenIn,
+          },
+        });
+      });
+    const onQuote = jest.fn().mockReturnValue(false);
+    const response = await webhookQuoter.quote(request, onQuote);
+
+    expect(response.length).toEqual(1);
+    expect(onQuote).toHaveBeenCalledWith(response[0]);
+    expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: AnalyticsEventType.WEBHOOK_RESPONSE,
+        eventProperties: expect.objectContaining({
+          responseType: WebhookResponseType.OK,
+          arrivedAfterCutoff: true,
+        }),
+      })
+    );
+  });
+
+  describe('Opposing quotes', () => {
+    const getOpposingQuoter = (opposingQuotes?: { enabled: boolean; chainIds?: number[] }) =>
+      new WebhookQuoter(
+        logger,
+        mockFirehoseLogger,
+        new MockWebhookConfigurationProvider([
+          { name: 'uniswap', endpoint: WEBHOOK_URL, headers: {}, hash: '0xuni', opposingQuotes },
+        ]),
+        circuitBreakerProvider,
+        emptyMockComplianceProvider
+      );
+    // bid 2 tokenOut per tokenIn, ask 2.02
+    const opposingQuote = {
+      ...quote,
+      tokenIn: request.tokenOut,
+      tokenOut: request.tokenIn,
+      amountIn: ethers.utils.parseEther('2.02').toString(),
+      amountOut: request.amount.toString(),
+    };
+    const mockResponses = () =>
+      mockedAxios.post.mockImplementation((_endpoint, req: any, _options) =>
+        Promise.resolve({ data: req.tokenIn === request.tokenIn ? quote : opposingQuote, status: 200 })
+      );
+
+    it('Sends the opposing quote as an analytics event with its spread', async () => {
+      mockResponses();
+      const response = await getOpposingQuoter().quote(request);
+
+      expect(response.length).toEqual(1);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+      expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: AnalyticsEventType.OPPOSING_WEBHOOK_RESPONSE,
+          eventProperties: expect.objectContaining({
+            originalQuoteId: response[0].quoteId,
+            responseType: WebhookResponseType.OK,
+            spreadBps: 99,
+            midAmount: ethers.utils.parseEther('2.01').toString(),
+          }),
+        })
+      );
+    });
+
+    it('Skips the opposing request when disabled for the filler', async () => {
+      mockResponses();
+      const response = await getOpposingQuoter({ enabled: false }).quote(request);
+
+      expect(response.length).toEqual(1);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(mockFirehoseLogger.sendAnalyticsEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: AnalyticsEventType.OPPOSING_WEBHOOK_RESPONSE })
+      );
+    });
+
+    it('Only requests opposing quotes on configured chains', async () => {
+      mockResponses();
+      await getOpposingQuoter({ enabled: true, chainIds: [137] }).quote(request);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+
+      await getOpposingQuoter({ enabled: true, chainIds: [CHAIN_ID] }).quote(request);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+    });
+
+    it('Returns the quote even if the opposing request fails', async () => {
+      mockedAxios.post
+        .mockImplementationOnce((_endpoint, _req, _options) => Promise.resolve({ data: quote, status: 200 }))
+        .mockImplementationOnce((_endpoint, _req, _options) => Promise.reject(new Error('timeout')));
+      const response = await getOpposingQuoter().quote(request);
+
+      expect(response.length).toEqual(1);
+      expect(mockFirehoseLogger.sendAnalyticsEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: AnalyticsEventType.OPPOSING_WEBHOOK_RESPONSE })
+      );
+    });
+  });
+
+  describe('Adaptive timeouts', () => {
+    const getAdaptiveQuoter = (timeouts: AdaptiveTimeoutTracker, overrides?: { timeout: number }) =>
+      new WebhookQuoter(
+        logger,
+        mockFirehoseLogger,
+        new MockWebhookConfigurationProvider([
+          {
+            name: 'uniswap',
+            endpoint: WEBHOOK_URL,
+            headers: {},
+            hash: '0xuni',
+            overrides,
+            opposingQuotes: { enabled: false },
+          },
+        ]),
+        circuitBreakerProvider,
+        emptyMockComplianceProvider,
+        undefined,
+        undefined,
+        undefined,
+        timeouts
+      );
+    const timeoutError = () => Object.assign(new axios.AxiosError(), { code: 'ECONNABORTED' });
+
+    it('Uses the timeout derived from the filler latency', async () => {
+      const timeouts = new AdaptiveTimeoutTracker();
+      for (let i = 0; i < DEFAULT_ADAPTIVE_TIMEOUT_OPTIONS.minSamples; i++) {
+        timeouts.recordLatency('0xuni', 200);
+      }
+      mockedAxios.post.mockImplementationOnce((_endpoint, _req, _options) =>
+        Promise.resolve({ data: quote, status: 200 })
+      );
+
+      await getAdaptiveQuoter(timeouts).quote(request);
+      expect(mockedAxios.post).toHaveBeenCalledWith(WEBHOOK_URL, expect.anything(), { timeout: 250, headers: {} });
+      expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventProperties: expect.objectContaining({ timeoutSettingMs: 250 }) })
+      );
+    });
+
+    it('Prefers the configured timeout override', async () => {
+      const timeouts = new AdaptiveTimeoutTracker();
+      for (let i = 0; i < DEFAULT_ADAPTIVE_TIMEOUT_OPTIONS.minSamples; i++) {
+        timeouts.recordLatency('0xuni', 200);
+      }
+      mockedAxios.post.mockImplementationOnce((_endpoint, _req, _options) =>
+        Promise.resolve({ data: quote, status: 200 })
+      );
+
+      await getAdaptiveQuoter(timeouts, { timeout: 1000 }).quote(request);
+      expect(mockedAxios.post).toHaveBeenCalledWith(WEBHOOK_URL, expect.anything(), { timeout: 1000, headers: {} });
+    });
+
+    it('Backs off fillers that keep timing out', async () => {
+      const timeouts = new AdaptiveTimeoutTracker();
+      const quoter = getAdaptiveQuoter(timeouts);
+      mockedAxios.post.mockImplementation((_endpoint, _req, _options) => Promise.reject(timeoutError()));
+
+      for (let i = 0; i < DEFAULT_ADAPTIVE_TIMEOUT_OPTIONS.backoffAfterTimeouts; i++) {
+        expect(await quoter.quote(request)).toEqual([]);
+      }
+      expect(mockedAxios.post).toHaveBeenCalledTimes(DEFAULT_ADAPTIVE_TIMEOUT_OPTIONS.backoffAfterTimeouts);
+      expect(timeouts.backoffRemainingMs('0xuni')).toBeGreaterThan(0);
+
+      expect(await quoter.quote(request)).toEqual([]);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(DEFAULT_ADAPTIVE_TIMEOUT_OPTIONS.backoffAfterTimeouts);
+      mockedAxios.post.mockReset();
+    });
+  });
+
+  describe('Cross-chain requests', () => {
+    const getCrossChainRequest = (tokenInChainId: number, tokenOutChainId: number) =>
+      new QuoteRequest({
+        tokenInChainId,
+        tokenOutChainId,
+        requestId: REQUEST_ID,
+        swapper: SWAPPER,
+        tokenIn: TOKEN_IN,
+        tokenOut: TOKEN_OUT,
+        amount: ethers.utils.parseEther('1'),
+        type: TradeType.EXACT_INPUT,
+        numOutputs: 1,
+      });
+    const quoter = new WebhookQuoter(
+      logger,
+      mockFirehoseLogger,
+      new MockWebhookConfigurationProvider([
+        { name: 'uniswap', endpoint: WEBHOOK_URL, headers: {}, hash: '0xuni' },
+        {
+          name: 'searcher',
+          endpoint: WEBHOOK_URL_SEARCHER,
+          headers: {},
+          hash: '0xsearcher',
+          crossChainRoutes: [{ tokenInChainId: CHAIN_ID, tokenOutChainId: 137 }],
+        },
+      ]),
+      circuitBreakerProvider,
+      emptyMockComplianceProvider
+    );
+
+    it('Only sends cross-chain requests to endpoints declaring the chain pair', async () => {
+      mockedAxios.post.mockImplementationOnce((_endpoint, _req, _options) =>
+        Promise.resolve({ data: quote, status: 200 })
+      );
+      const response = await quoter.quote(getCrossChainRequest(CHAIN_ID, 137));
+
+      // no opposing request, since the reverse pair is not declared
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        WEBHOOK_URL_SEARCHER,
+        expect.objectContaining({ tokenInChainId: CHAIN_ID, tokenOutChainId: 137 }),
+        expect.anything()
+      );
+      expect(response.length).toEqual(1);
+      expect(response[0].tokenInChainId).toEqual(CHAIN_ID);
+      expect(response[0].tokenOutChainId).toEqual(137);
+      expect(response[0].toResponseJSON()).toMatchObject({ chainId: CHAIN_ID, tokenOutChainId: 137 });
+      expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventProperties: expect.objectContaining({ tokenInChainId: CHAIN_ID, tokenOutChainId: 137 }),
+        })
+      );
+    });
+
+    it('Does not send cross-chain requests for the reverse pair', async () => {
+      const response = await quoter.quote(getCrossChainRequest(137, CHAIN_ID));
+      expect(response.length).toEqual(0);
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Circuit breaker', () => {
+    const getBreakerQuoter = (breaker: FillerCircuitBreaker) =>
+      new WebhookQuoter(
+        logger,
+        mockFirehoseLogger,
+        new MockWebhookConfigurationProvider([
+          { name: 'uniswap', endpoint: WEBHOOK_URL, headers: {}, hash: '0xuni', opposingQuotes: { enabled: false } },
+        ]),
+        circuitBreakerProvider,
+        emptyMockComplianceProvider,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        breaker
+      );
+    const httpError = () => Object.assign(new axios.AxiosError(), { response: { status: 500 } });
+
+    it('Stops calling a failing filler and recovers through a probe', async () => {
+      const breaker = new FillerCircuitBreaker(logger, { failureThreshold: 2, openDurationMs: 60_000, maxProbes: 1 });
+      const quoter = getBreakerQuoter(breaker);
+      mockedAxios.post.mockImplementation((_endpoint, _req, _options) => Promise.reject(httpError()));
+
+      await quoter.quote(request);
+      await quoter.quote(request);
+      expect(breaker.getState('0xuni')).toEqual(CircuitState.OPEN);
+
+      await quoter.quote(request);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+
+      // the open period has ended
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000);
+      mockedAxios.post.mockImplementation((_endpoint, _req, _options) => Promise.resolve({ data: quote, status: 200 }));
+      const response = await quoter.quote(request);
+      expect(response.length).toEqual(1);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+      expect(breaker.getState('0xuni')).toEqual(CircuitState.CLOSED);
+
+      jest.restoreAllMocks();
+      mockedAxios.post.mockReset();
+    });
+  });
+
+  describe('Response signatures', () => {
+    const fillerWallet = ethers.Wallet.createRandom();
+    const getSignedQuoter = (responseSignature?: ResponseSignatureMode) =>
+      new WebhookQuoter(
+        logger,
+        mockFirehoseLogger,
+        new MockWebhookConfigurationProvider([
+          {
+            name: 'uniswap',
+            endpoint: WEBHOOK_URL,
+            headers: {},
+            hash: '0xuni',
+            addresses: [fillerWallet.address],
+            responseSignature,
+          },
+        ]),
+        circuitBreakerProvider,
+        emptyMockComplianceProvider
+      );
+    const mockResponse = (data: object) =>
+      mockedAxios.post.mockImplementation((_endpoint, _req, _options) => Promise.resolve({ data, status: 200 }));
+    const sign = (signer: ethers.Wallet) => signer.signMessage(rfqResponseSigningPayload(quote));
+
+    it('Accepts quotes signed by a registered address', async () => {
+      mockResponse({ ...quote, signature: await sign(fillerWallet) });
+      const response = await getSignedQuoter(ResponseSignatureMode.ENFORCE).quote(request);
+
+      expect(response.length).toEqual(1);
+      expect(response[0].toResponseJSON()).toEqual(quote);
+    });
+
+    it('Rejects unsigned quotes when enforced', async () => {
+      mockResponse(quote);
+      const response = await getSignedQuoter(ResponseSignatureMode.ENFORCE).quote(request);
+
+      expect(response.length).toEqual(0);
+      expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: AnalyticsEventType.WEBHOOK_RESPONSE,
+          eventProperties: {
+            ...sharedWebhookResponseEventProperties,
+            status: 200,
+            data: quote,
+            responseType: WebhookResponseType.SIGNATURE_INVALID,
+          },
+        })
+      );
+    });
+
+    it('Rejects quotes signed by an unregistered address when enforced', async () => {
+      mockResponse({ ...quote, signature: await sign(ethers.Wallet.createRandom()) });
+      const response = await getSignedQuoter(ResponseSignatureMode.ENFORCE).quote(request);
+
+      expect(response.length).toEqual(0);
+    });
+
+    it('Rejects quotes whose amounts differ from the signed ones when enforced', async () => {
+      const signature = await sign(fillerWallet);
+      mockResponse({ ...quote, amountOut: ethers.utils.parseEther('3').toString(), signature });
+      const response = await getSignedQuoter(ResponseSignatureMode.ENFORCE).quote(request);
+
+      expect(response.length).toEqual(0);
+    });
+
+    it('Accepts but flags invalid signatures when monitoring', async () => {
+      mockResponse(quote);
+      const response = await getSignedQuoter(ResponseSignatureMode.MONITOR).quote(request);
+
+      expect(response.length).toEqual(1);
+      expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventProperties: expect.objectContaining({
+            responseType: WebhookResponseType.OK,
+            signatureInvalid: true,
+          }),
+        })
+      );
+    });
+
+    it('Ignores signatures for fillers without enforcement', async () => {
+      mockResponse({ ...quote, signature: '0xdeadbeef' });
+      const response = await getSignedQuoter().quote(request);
+
+      expect(response.length).toEqual(1);
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Price sanity checks', () => {
+    const getCheckedQuoter = (priceChecker: PriceSanityChecker, opposingQuotes = { enabled: false }) =>
+      new WebhookQuoter(
+        logger,
+        mockFirehoseLogger,
+        new MockWebhookConfigurationProvider([
+          { name: 'uniswap', endpoint: WEBHOOK_URL, headers: {}, hash: '0xuni', opposingQuotes },
+        ]),
+        circuitBreakerProvider,
+        emptyMockComplianceProvider,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        priceChecker
+      );
+    const staticChecker = (price: string) =>
+      new PriceSanityChecker(
+        logger,
+        [
+          new StaticReferencePriceSource(
+            new MockReferencePriceProvider([{ chainId: CHAIN_ID, tokenIn: TOKEN_IN, tokenOut: TOKEN_OUT, price }])
+          ),
+        ],
+        5_000
+      );
+
+    it('Accepts quotes near the reference price', async () => {
+      mockedAxios.post.mockImplementationOnce((_endpoint, _req, _options) => Promise.resolve({ data: quote }));
+      const response = await getCheckedQuoter(staticChecker('2.1')).quote(request);
+      expect(response.length).toEqual(1);
+    });
+
+    it('Drops quotes far from the reference price', async () => {
+      mockedAxios.post.mockImplementationOnce((_endpoint, _req, _options) => Promise.resolve({ data: quote }));
+      const response = await getCheckedQuoter(staticChecker('0.5')).quote(request);
+
+      expect(response.length).toEqual(0);
+      expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: AnalyticsEventType.WEBHOOK_RESPONSE,
+          eventProperties: expect.objectContaining({
+            responseType: WebhookResponseType.PRICE_OUTLIER,
+            referenceSource: ReferencePriceSourceType.STATIC,
+            referenceAmount: ethers.utils.parseEther('0.5').toString(),
+            deviationBps: 30_000,
+          }),
+        })
+      );
+    });
+
+    it('Checks quotes against the opposing quote', async () => {
+      const opposingQuote = {
+        ...quote,
+        tokenIn: request.tokenOut,
+        tokenOut: request.tokenIn,
+        amountIn: ethers.utils.parseEther('2.02').toString(),
+        amountOut: request.amount.toString(),
+      };
+      const fatFingered = { ...quote, amountOut: ethers.utils.parseEther('20').toString() };
+      mockedAxios.post.mockImplementation((_endpoint, req: any, _options) =>
+        Promise.resolve({ data: req.tokenIn === request.tokenIn ? fatFingered : opposingQuote, status: 200 })
+      );
+      const checker = new PriceSanityChecker(logger, [new OpposingQuoteReferencePriceSource()], 5_000);
+
+      const response = await getCheckedQuoter(checker, { enabled: true }).quote(request);
+      expect(response.length).toEqual(0);
+      expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventProperties: expect.objectContaining({
+            responseType: WebhookResponseType.PRICE_OUTLIER,
+            referenceSource: ReferencePriceSourceType.OPPOSING_QUOTE,
+          }),
+        })
+      );
+    });
+
+    it('Accepts quotes without a reference price', async () => {
+      mockedAxios.post.mockImplementationOnce((_endpoint, _req, _options) => Promise.resolve({ data: quote }));
+      const checker = new PriceSanityChecker(
+        logger,
+        [new StaticReferencePriceSource(new MockReferencePriceProvider())],
+        5_000
+      );
+      const response = await getCheckedQuoter(checker).quote(request);
+      expect(response.length).toEqual(1);
+    });
+  });
+
+  describe('WebSocket transport', () => {
+    let filler: MockWebSocketFiller;
+    let connections: WebSocketConnectionPool;
+
+    const getWsQuoter = (endpoint: string) =>
+      new WebhookQuoter(
+        logger,
+        mockFirehoseLogger,
+        new MockWebhookConfigurationProvider([
+          { name: 'uniswap', endpoint, hash: '0xuni', transport: WebhookTransport.WS, overrides: { timeout: 100 } },
+        ]),
+        circuitBreakerProvider,
+        emptyMockComplianceProvider,
+        undefined,
+        undefined,
+        connections
+      );
+
+    beforeEach(() => {
+      connections = new WebSocketConnectionPool(logger);
+    });
+
+    afterEach(async () => {
+      connections.close();
+      await filler.stop();
+    });
+
+    it('Fetches quotes over a persistent connection', async () => {
+      filler = await MockWebSocketFiller.start((rfq) => ({
+        type: 'rfq_response',
+        quoteId: rfq.quoteId,
+        data: { ...quote, quoteId: rfq.quoteId },
+      }));
+      const quoter = getWsQuoter(filler.endpoint);
+
+      const first = await quoter.quote(request);
+      const second = await quoter.quote(request);
+
+      expect(first.length).toEqual(1);
+      expect(second.length).toEqual(1);
+      expect(first[0].toResponseJSON()).toEqual({ ...quote, quoteId: expect.any(String) });
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+      // quote and opposing quote, twice, over the same connection
+      expect(filler.requests.length).toEqual(4);
+      expect(filler.connectionCount).toEqual(1);
+    });
+
+    it('Counts a 404 as non-quote', async () => {
+      filler = await MockWebSocketFiller.start((rfq) => ({
+        type: 'rfq_response',
+        quoteId: rfq.quoteId,
+        status: 404,
+        data: '',
+      }));
+
+      const response = await getWsQuoter(filler.endpoint).quote(request);
+      expect(response.length).toEqual(0);
+      expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventProperties: expect.objectContaining({ responseType: WebhookResponseType.NON_QUOTE }),
+        })
+      );
+    });
+
+    it('Reports timeouts', async () => {
+      filler = await MockWebSocketFiller.start(() => undefined);
+
+      const response = await getWsQuoter(filler.endpoint).quote(request);
+      expect(response.length).toEqual(0);
+      expect(mockFirehoseLogger.sendAnalyticsEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventProperties: expect.objectContaining({
+            responseType: WebhookResponseType.TIMEOUT,
+            transportError: 'timeout of 100ms exceeded',
+          }),
+        })
+      );
+    });
+  });
 });
@@ -0,0 +1,41 @@
+import { default as Logger } from 'bunyan';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { FileSwapperScreeningProvider } from '../../../lib/providers/screening';
+import { ScreeningUnavailableError } from '../../../lib/util/errors';
+
+const BLOCKED = '0x000000000000000000000000000000000000dEaD';
+const ALLOWED = '0x0000000000000000000000000000000000000001';
+
+// silent logger in tests
+const logger = Logger.createLogger({ name: 'test' });
+logger.level(Logger.FATAL);
+
+describe('FileSwapperScreeningProvider', () => {
+  const writeBlocklist = (blocklist: string[]): string => {
+    const file = path.join(mkdtempSync(path.join(tmpdir(), 'blocklist-')), 'blocklist.json');
+    writeFileSync(file, JSON.stringify(blocklist));
+    return file;
+  };
+
+  it('returns blocked addresses regardless of case', async () => {
+    const provider = new FileSwapperScreeningProvider(logger, writeBlocklist([BLOCKED.toLowerCase()]));
+    expect(await provider.getBlockedAddresses([BLOCKED, ALLOWED])).toEqual([BLOCKED]);
+  });
+
+  it('throws if the blocklist cannot be read', async () => {
+    const provider = new FileSwapperScreeningProvider(logger, '/nonexistent/blocklist.json');
+    await expect(provider.getBlockedAddresses([BLOCKED])).rejects.toThrow(ScreeningUnavailableError);
+  });
+
+  it('retries a failed read on the next request', async () => {
+    const file = path.join(mkdtempSync(path.join(tmpdir(), 'blocklist-')), 'blocklist.json');
+    const provider = new FileSwapperScreeningProvider(logger, file);
+    await expect(provider.getBlockedAddresses([BLOCKED])).rejects.toThrow(ScreeningUnavailableError);
+
+    writeFileSync(file, JSON.stringify([BLOCKED]));
+    expect(await provider.getBlockedAddresses([BLOCKED, ALLOWED])).toEqual([BLOCKED]);
+  });
+});
@@ -0,0 +1,67 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { default as Logger } from 'bunyan';
+
+import { S3SwapperScreeningProvider } from '../../../lib/providers/screening';
+import { ScreeningUnavailableError } from '../../../lib/util/errors';
+
+const BLOCKED = '0x000000000000000000000000000000000000dEaD';
+const ALLOWED = '0x0000000000000000000000000000000000000001';
+
+function applyMock(blocklist: string[]) {
+  jest.spyOn(S3Client.prototype, 'send').mockImplementationOnce(() =>
+    Promise.resolve({
+      Body: {
+        transformToString: () => Promise.resolve(JSON.stringify(blocklist)),
+      },
+    })
+  );
+}
+
+// silent logger in tests
+const logger = Logger.createLogger({ name: 'test' });
+logger.level(Logger.FATAL);
+
+describe('S3SwapperScreeningProvider', () => {
+  const bucket = 'test-bucket';
+  const key = 'test-key';
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns blocked addresses regardless of case', async () => {
+    applyMock([BLOCKED]);
+    const provider = new S3SwapperScreeningProvider(logger, bucket, key);
+    expect(await provider.getBlockedAddresses([BLOCKED.toLowerCase(), ALLOWED])).toEqual([BLOCKED.toLowerCase()]);
+  });
+
+  it('refetches the blocklist after the update period', async () => {
+    applyMock([]);
+    const provider = new S3SwapperScreeningProvider(logger, bucket, key);
+    expect(await provider.getBlockedAddresses([BLOCKED])).toEqual([]);
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5 * 60000 + 1);
+    applyMock([BLOCKED]);
+    expect(await provider.getBlockedAddresses([BLOCKED])).toEqual([BLOCKED]);
+  });
+
+  it('keeps the last blocklist if a refetch fails', async () => {
+    applyMock([BLOCKED]);
+    const provider = new S3SwapperScreeningProvider(logger, bucket, key);
+    await provider.getBlockedAddresses([]);
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5 * 60000 + 1);
+    jest.spyOn(S3Client.prototype, 'send').mockImplementationOnce(() => Promise.reject(new Error('s3 down')));
+    expect(await provider.getBlockedAddresses([BLOCKED])).toEqual([BLOCKED]);
+  });
+
+  it('refuses to screen until the blocklist has loaded', async () => {
+    jest.spyOn(S3Client.prototype, 'send').mockImplementationOnce(() => Promise.reject(new Error('s3 down')));
+    const provider = new S3SwapperScreeningProvider(logger, bucket, key);
+    await expect(provider.getBlockedAddresses([BLOCKED])).rejects.toThrow(ScreeningUnavailableError);
+
+    // retried on the next request rather than after the update period
+    applyMock([BLOCKED]);
+    expect(await provider.getBlockedAddresses([BLOCKED])).toEqual([BLOCKED]);
+  });
+});
@@ -0,0 +1,113 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { default as Logger } from 'bunyan';
+
+import { ChainRoute } from '../../../lib/config/chains';
+import { S3TokenMetadataProvider, TokenMetadata } from '../../../lib/providers/tokens';
+
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+function applyMock(tokens: unknown) {
+  jest.spyOn(S3Client.prototype, 'send').mockImplementationOnce(() =>
+    Promise.resolve({
+      Body: {
+        transformToString: () => Promise.resolve(JSON.stringify(tokens)),
+      },
+    })
+  );
+}
+
+// silent logger in tests
+const logger = Logger.createLogger({ name: 'test' });
+logger.level(Logger.FATAL);
+
+describe('S3TokenMetadataProvider', () => {
+  const bucket = 'test-bucket';
+  const key = 'test-key';
+  const UNI: TokenMetadata = { chainId: 1, address: TOKEN_IN.toLowerCase(), symbol: 'UNI', decimals: 18 };
+  const WETH: TokenMetadata = {
+    chainId: 1,
+    address: TOKEN_OUT,
+    symbol: 'WETH',
+    decimals: 18,
+    priceUsd: 3000,
+    routes: [ChainRoute.QUOTE],
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns listed tokens regardless of casing', async () => {
+    applyMock([UNI, WETH]);
+    const provider = new S3TokenMetadataProvider(logger, bucket, key);
+    expect(await provider.getToken(1, TOKEN_IN)).toEqual(UNI);
+    expect(await provider.getToken(1, TOKEN_OUT.toLowerCase())).toEqual(WETH);
+    expect(await provider.getToken(137, TOKEN_IN)).toBeUndefined();
+  });
+
+  it('allows listed tokens on their routes', async () => {
+    applyMock([UNI, WETH]);
+    const provider = new S3TokenMetadataProvider(logger, bucket, key);
+    expect(await provider.isAllowedOnRoute(1, TOKEN_IN, ChainRoute.HARD_QUOTE)).toBe(true);
+    expect(await provider.isAllowedOnRoute(1, TOKEN_OUT, ChainRoute.QUOTE)).toBe(true);
+    expect(await provider.isAllowedOnRoute(1, TOKEN_OUT, ChainRoute.HARD_QUOTE)).toBe(false);
+  });
+
+  it('only restricts quotes on chains with listed tokens', async () => {
+    applyMock([UNI]);
+    const provider = new S3TokenMetadataProvider(logger, bucket, key);
+    expect(await provider.isAllowedOnRoute(1, TOKEN_OUT, ChainRoute.QUOTE)).toBe(false);
+    expect(await provider.isAllowedOnRoute(137, TOKEN_OUT, ChainRoute.QUOTE)).toBe(true);
+  });
+
+  it('allows no hard quotes on chains without listed tokens', async () => {
+    applyMock([UNI]);
+    const provider = new S3TokenMetadataProvider(logger, bucket, key);
+    expect(await provider.isAllowedOnRoute(137, TOKEN_OUT, ChainRoute.HARD_QUOTE)).toBe(false);
+  });
+
+  it('skips invalid entries', async () => {
+    applyMock([UNI, { ...WETH, decimals: -1 }, { ...WETH, address: TOKEN_IN, chainId: 10, priceUsd: -1 }]);
+    const provider = new S3TokenMetadataProvider(logger, bucket, key);
+    expect(await provider.getToken(1, TOKEN_IN)).toEqual(UNI);
+    expect(await provider.getToken(1, TOKEN_OUT)).toBeUndefined();
+    expect(await provider.getToken(10, TOKEN_IN)).toBeUndefined();
+  });
+
+  it('skips entries with an invalid chain or address', async () => {
+    applyMock([
+      UNI,
+      { ...WETH, address: '0x1234' },
+      { ...WETH, address: undefined },
+      { ...WETH, chainId: '137' },
+      { ...WETH, chainId: 0 },
+    ]);
+    const provider = new S3TokenMetadataProvider(logger, bucket, key);
+    expect(await provider.getToken(1, TOKEN_IN)).toEqual(UNI);
+    expect(await provider.getToken(1, '0x1234')).toBeUndefined();
+    expect(await provider.getToken(1, TOKEN_OUT)).toBeUndefined();
+    expect(await provider.getToken(0, TOKEN_OUT)).toBeUndefined();
+    // no valid entry lists tokens on chain 137, so it stays unrestricted for /quote
+    expect(await provider.isAllowedOnRoute(137, TOKEN_IN, ChainRoute.QUOTE)).toBe(true);
+  });
+
+  it('keeps the last list if the file is not a list', async () => {
+    applyMock([UNI]);
+    const provider = new S3TokenMetadataProvider(logger, bucket, key);
+    expect(await provider.fetchTokenList()).toBe(true);
+
+    applyMock({ 1: [TOKEN_OUT] });
+    expect(await provider.fetchTokenList()).toBe(false);
+    expect(await provider.getToken(1, TOKEN_IN)).toEqual(UNI);
+  });
+
+  it('retries a failed fetch without waiting for the update period', async () => {
+    jest.spyOn(S3Client.prototype, 'send').mockImplementationOnce(() => Promise.reject(new Error('s3 down')));
+    const provider = new S3TokenMetadataProvider(logger, bucket, key);
+    expect(await provider.isAllowedOnRoute(1, TOKEN_IN, ChainRoute.HARD_QUOTE)).toBe(false);
+
+    applyMock([UNI]);
+    expect(await provider.isAllowedOnRoute(1, TOKEN_IN, ChainRoute.HARD_QUOTE)).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { TradeType } from '@uniswap/sdk-core';
+import { ethers } from 'ethers';
+
+import { RankingConfig } from '../../lib/config/ranking';
+import { QuoteRequest } from '../../lib/entities';
+import { MockCircuitBreakerConfigurationProvider } from '../../lib/providers/circuit-breaker/mock';
+import { QuoteRankerSelector, RankerType, rankingPairKey } from '../../lib/rankers';
+
+const REQUEST_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
+const SWAPPER = '0x0000000000000000000000000000000000000000';
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+const logger = { child: () => logger, info: jest.fn(), error: jest.fn(), debug: jest.fn() } as any;
+
+const getRequest = (chainId: number, tokenIn = TOKEN_IN, tokenOut = TOKEN_OUT) =>
+  new QuoteRequest({
+    tokenInChainId: chainId,
+    tokenOutChainId: chainId,
+    requestId: REQUEST_ID,
+    swapper: SWAPPER,
+    tokenIn,
+    tokenOut,
+    amount: ethers.utils.parseEther('1'),
+    type: TradeType.EXACT_INPUT,
+    numOutputs: 1,
+  });
+
+describe('QuoteRankerSelector', () => {
+  const config: RankingConfig = {
+    default: { strategy: RankerType.PRICE_ONLY },
+    chains: {
+      137: { strategy: RankerType.RISK_ADJUSTED, fadeRatePenaltyBps: 100 },
+    },
+    pairs: {
+      [rankingPairKey(1, TOKEN_IN, TOKEN_OUT)]: { strategy: RankerType.RISK_ADJUSTED, fadeRatePenaltyBps: 200 },
+    },
+  };
+  const selector = new QuoteRankerSelector(logger, new MockCircuitBreakerConfigurationProvider([]), config);
+
+  it('falls back to the default strategy', () => {
+    expect(selector.select(getRequest(1, TOKEN_OUT, TOKEN_IN)).type()).toEqual(RankerType.PRICE_ONLY);
+  });
+
+  it('uses the chain override', () => {
+    expect(selector.select(getRequest(137)).type()).toEqual(RankerType.RISK_ADJUSTED);
+  });
+
+  it('prefers the pair override regardless of address casing', () => {
+    const ranker = selector.select(getRequest(1, TOKEN_IN.toLowerCase(), TOKEN_OUT));
+    expect(ranker.type()).toEqual(RankerType.RISK_ADJUSTED);
+  });
+
+  it('reuses rankers across requests', () => {
+    expect(selector.select(getRequest(137))).toBe(selector.select(getRequest(137)));
+  });
+});
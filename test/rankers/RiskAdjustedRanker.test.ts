@@ -0,0 +1,151 @@
+import { TradeType } from '@uniswap/sdk-core';
+import { ethers } from 'ethers';
+
+import { QuoteRequest, QuoteResponse } from '../../lib/entities';
+import { MockCircuitBreakerConfigurationProvider } from '../../lib/providers/circuit-breaker/mock';
+import { PriceRanker, RiskAdjustedRanker } from '../../lib/rankers';
+
+const REQUEST_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
+const QUOTE_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
+const SWAPPER = '0x0000000000000000000000000000000000000000';
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const CHAIN_ID = 1;
+
+const logger = { child: () => logger, info: jest.fn(), error: jest.fn(), debug: jest.fn() } as any;
+
+const getRequest = (type: TradeType) =>
+  new QuoteRequest({
+    tokenInChainId: CHAIN_ID,
+    tokenOutChainId: CHAIN_ID,
+    requestId: REQUEST_ID,
+    swapper: SWAPPER,
+    tokenIn: TOKEN_IN,
+    tokenOut: TOKEN_OUT,
+    amount: ethers.utils.parseEther('1'),
+    type,
+    numOutputs: 1,
+  });
+
+const getQuote = (type: TradeType, amount: string, fillerHash: string, latencyMs = 100) =>
+  new QuoteResponse(
+    {
+      chainId: CHAIN_ID,
+      requestId: REQUEST_ID,
+      quoteId: QUOTE_ID,
+      swapper: SWAPPER,
+      tokenIn: TOKEN_IN,
+      tokenOut: TOKEN_OUT,
+      amountIn: type === TradeType.EXACT_INPUT ? ethers.utils.parseEther('1') : ethers.utils.parseEther(amount),
+      amountOut: type === TradeType.EXACT_INPUT ? ethers.utils.parseEther(amount) : ethers.utils.parseEther('1'),
+      fillerHash,
+      latencyMs,
+    },
+    type
+  );
+
+describe('Quote rankers', () => {
+  const circuitBreakerProvider = new MockCircuitBreakerConfigurationProvider([
+    { hash: '0xreliable', fadeRate: 0, enabled: true },
+    { hash: '0xfader', fadeRate: 0.5, enabled: true },
+  ]);
+
+  describe('PriceRanker', () => {
+    it('prefers the highest amountOut for EXACT_INPUT', async () => {
+      const quotes = [
+        getQuote(TradeType.EXACT_INPUT, '1', '0xreliable'),
+        getQuote(TradeType.EXACT_INPUT, '1.02', '0xfader'),
+      ];
+      const ranked = await new PriceRanker().rank(getRequest(TradeType.EXACT_INPUT), quotes);
+      expect(ranked.map((r) => r.quote)).toEqual([quotes[1], quotes[0]]);
+    });
+
+    it('prefers the lowest amountIn for EXACT_OUTPUT', async () => {
+      const quotes = [
+        getQuote(TradeType.EXACT_OUTPUT, '1', '0xreliable'),
+        getQuote(TradeType.EXACT_OUTPUT, '0.98', '0xfader'),
+      ];
+      const ranked = await new PriceRanker().rank(getRequest(TradeType.EXACT_OUTPUT), quotes);
+      expect(ranked.map((r) => r.quote)).toEqual([quotes[1], quotes[0]]);
+    });
+
+    it('keeps the first quote on ties', async () => {
+      const quotes = [
+        getQuote(TradeType.EXACT_INPUT, '1', '0xreliable'),
+        getQuote(TradeType.EXACT_INPUT, '1', '0xfader'),
+      ];
+      const ranked = await new PriceRanker().rank(getRequest(TradeType.EXACT_INPUT), quotes);
+      expect(ranked[0].quote).toBe(quotes[0]);
+    });
+  });
+
+  describe('RiskAdjustedRanker', () => {
+    // 0.5 fade rate -> 500 bps discount
+    const ranker = new RiskAdjustedRanker(logger, circuitBreakerProvider, { fadeRatePenaltyBps: 1000 });
+
+    it('discounts fillers with high fade rates - EXACT_INPUT', async () => {
+      const quotes = [
+        getQuote(TradeType.EXACT_INPUT, '1', '0xreliable'),
+        getQuote(TradeType.EXACT_INPUT, '1.02', '0xfader'),
+      ];
+      const ranked = await ranker.rank(getRequest(TradeType.EXACT_INPUT), quotes);
+      expect(ranked.map((r) => r.quote)).toEqual([quotes[0], quotes[1]]);
+      expect(ranked[1].score).toEqual(ethers.utils.parseEther('1.02').mul(9500).div(10000));
+    });
+
+    it('discounts fillers with high fade rates - EXACT_OUTPUT', async () => {
+      const quotes = [
+        getQuote(TradeType.EXACT_OUTPUT, '1', '0xreliable'),
+        getQuote(TradeType.EXACT_OUTPUT, '0.98', '0xfader'),
+      ];
+      const ranked = await ranker.rank(getRequest(TradeType.EXACT_OUTPUT), quotes);
+      expect(ranked.map((r) => r.quote)).toEqual([quotes[0], quotes[1]]);
+    });
+
+    it('still prefers a fader whose price beats the discount', async () => {
+      const quotes = [
+        getQuote(TradeType.EXACT_INPUT, '1', '0xreliable'),
+        getQuote(TradeType.EXACT_INPUT, '1.1', '0xfader'),
+      ];
+      const ranked = await ranker.rank(getRequest(TradeType.EXACT_INPUT), quotes);
+      expect(ranked[0].quote).toBe(quotes[1]);
+    });
+
+    it('applies latency and gas penalties', async () => {
+      const ranker = new RiskAdjustedRanker(logger, circuitBreakerProvider, {
+        fadeRatePenaltyBps: 0,
+        latencyPenaltyBpsPerSecond: 100,
+        gasPenaltyBps: { '0xreliable': 10 },
+      });
+      const quotes = [getQuote(TradeType.EXACT_INPUT, '1', '0xreliable', 500)];
+      const ranked = await ranker.rank(getRequest(TradeType.EXACT_INPUT), quotes);
+      // 50 bps latency + 10 bps gas
+      expect(ranked[0].score).toEqual(ethers.utils.parseEther('1').mul(9940).div(10000));
+    });
+
+    it('clamps the penalty to maxPenaltyBps', async () => {
+      const ranker = new RiskAdjustedRanker(logger, circuitBreakerProvider, {
+        fadeRatePenaltyBps: 10000,
+        maxPenaltyBps: 100,
+      });
+      const quotes = [getQuote(TradeType.EXACT_INPUT, '1', '0xfader')];
+      const ranked = await ranker.rank(getRequest(TradeType.EXACT_INPUT), quotes);
+      expect(ranked[0].score).toEqual(ethers.utils.parseEther('1').mul(9900).div(10000));
+    });
+
+    it('ranks on price alone if fade rates are unavailable', async () => {
+      const ranker = new RiskAdjustedRanker(
+        logger,
+        { getConfigurations: () => Promise.reject(new Error('s3 down')) },
+        { fadeRatePenaltyBps: 1000 }
+      );
+      const quotes = [
+        getQuote(TradeType.EXACT_INPUT, '1', '0xreliable'),
+        getQuote(TradeType.EXACT_INPUT, '1.02', '0xfader'),
+      ];
+      const ranked = await ranker.rank(getRequest(TradeType.EXACT_INPUT), quotes);
+      expect(ranked[0].quote).toBe(quotes[1]);
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { DynamoDBClient, DynamoDBClientConfig } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+import { HardQuoteOrderRecord } from '../../lib/repositories';
+import { HardQuoteOrderRepository } from '../../lib/repositories/hard-quote-order-repository';
+
+const dynamoConfig: DynamoDBClientConfig = {
+  endpoint: 'http://localhost:8000',
+  region: 'local',
+  credentials: {
+    accessKeyId: 'fakeMyKeyId',
+    secretAccessKey: 'fakeSecretAccessKey',
+  },
+};
+
+const NOW = 1_700_000_000;
+
+const RECORD: HardQuoteOrderRecord = {
+  orderHash: '0x' + 'ab'.repeat(32),
+  chainId: 1,
+  requestId: 'a83f397c-8ef4-4801-a9b7-6e79155049f6',
+  quoteId: 'a83f397c-8ef4-4801-a9b7-6e79155049f7',
+  orderType: 'Dutch_V2',
+  cosignerData: {
+    decayStartTime: NOW + 24,
+    decayEndTime: NOW + 84,
+    exclusiveFiller: '0x0000000000000000000000000000000000000001',
+    exclusivityOverrideBps: '100',
+    inputAmount: '0',
+    outputAmounts: ['0'],
+  },
+  quote: {
+    quoteId: 'a83f397c-8ef4-4801-a9b7-6e79155049f7',
+    amountIn: '1000000000000000000',
+    amountOut: '2000000000',
+    filler: '0x0000000000000000000000000000000000000001',
+  },
+  createdAt: NOW,
+  ttl: NOW + 60,
+};
+
+const documentClient = DynamoDBDocumentClient.from(new DynamoDBClient(dynamoConfig), {
+  marshallOptions: {
+    convertEmptyValues: true,
+  },
+  unmarshallOptions: {
+    wrapNumbers: true,
+  },
+});
+
+const hardQuoteOrderRepository = HardQuoteOrderRepository.create(documentClient);
+
+describe('hard quote order repository tests', () => {
+  it('should put an order and read it back', async () => {
+    await hardQuoteOrderRepository.putOrder(RECORD);
+    await expect(hardQuoteOrderRepository.getOrder(RECORD.orderHash)).resolves.toEqual(RECORD);
+  });
+
+  it('should return undefined for a missing order', async () => {
+    await expect(hardQuoteOrderRepository.getOrder('0x' + 'cd'.repeat(32))).resolves.toBeUndefined();
+  });
+});
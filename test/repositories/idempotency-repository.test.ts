@@ -0,0 +1,108 @@
+import { DynamoDBClient, DynamoDBClientConfig } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+import { HardQuoteResponseData } from '../../lib/handlers/hard-quote';
+import { IdempotencyRecord } from '../../lib/repositories';
+import { IdempotencyRepository } from '../../lib/repositories/idempotency-repository';
+
+const dynamoConfig: DynamoDBClientConfig = {
+  endpoint: 'http://localhost:8000',
+  region: 'local',
+  credentials: {
+    accessKeyId: 'fakeMyKeyId',
+    secretAccessKey: 'fakeSecretAccessKey',
+  },
+};
+
+const NOW = 1_700_000_000;
+
+const RESPONSE: HardQuoteResponseData = {
+  requestId: 'a83f397c-8ef4-4801-a9b7-6e79155049f6',
+  quoteId: 'a83f397c-8ef4-4801-a9b7-6e79155049f7',
+  chainId: 1,
+  filler: '0x0000000000000000000000000000000000000000',
+  encodedOrder: '0x1234',
+  orderHash: '0xabcd',
+  orderType: 'Dutch_V2',
+  parameters: {
+    exclusivityOverrideBps: '100',
+    decayStartTime: NOW + 24,
+    decayEndTime: NOW + 84,
+  },
+};
+
+const record = (requestId: string, orderHash = '0x01', ttl = NOW + 60): IdempotencyRecord => ({
+  requestId,
+  orderHash,
+  response: { ...RESPONSE, requestId },
+  ttl,
+});
+
+// a record reserved before the request is quoted
+const pending = (requestId: string, orderHash = '0x01', ttl = NOW + 60): IdempotencyRecord => ({
+  requestId,
+  orderHash,
+  ttl,
+});
+
+const documentClient = DynamoDBDocumentClient.from(new DynamoDBClient(dynamoConfig), {
+  marshallOptions: {
+    convertEmptyValues: true,
+  },
+  unmarshallOptions: {
+    wrapNumbers: true,
+  },
+});
+
+const idempotencyRepository = IdempotencyRepository.create(documentClient);
+
+describe('idempotency repository tests', () => {
+  it('should put a record and read it back', async () => {
+    await expect(idempotencyRepository.putRecord(record('put'), NOW)).resolves.toBe(true);
+    await expect(idempotencyRepository.getRecord('put', NOW)).resolves.toEqual(record('put'));
+  });
+
+  it('should not overwrite an unexpired record', async () => {
+    await idempotencyRepository.putRecord(record('conflict'), NOW);
+    await expect(idempotencyRepository.putRecord(record('conflict', '0x02'), NOW)).resolves.toBe(false);
+    await expect(idempotencyRepository.getRecord('conflict', NOW)).resolves.toMatchObject({ orderHash: '0x01' });
+  });
+
+  it('should ignore and overwrite expired records', async () => {
+    await idempotencyRepository.putRecord(record('expired', '0x01', NOW - 1), NOW - 60);
+    await expect(idempotencyRepository.getRecord('expired', NOW)).resolves.toBeUndefined();
+
+    await expect(idempotencyRepository.putRecord(record('expired', '0x02'), NOW)).resolves.toBe(true);
+    await expect(idempotencyRepository.getRecord('expired', NOW)).resolves.toMatchObject({ orderHash: '0x02' });
+  });
+
+  it('should complete a pending record', async () => {
+    await expect(idempotencyRepository.putRecord(pending('pending'), NOW)).resolves.toBe(true);
+    await expect(idempotencyRepository.getRecord('pending', NOW)).resolves.toEqual(pending('pending'));
+
+    await expect(idempotencyRepository.completeRecord(record('pending'))).resolves.toBe(true);
+    await expect(idempotencyRepository.getRecord('pending', NOW)).resolves.toEqual(record('pending'));
+  });
+
+  it('should not complete a record held by a different order', async () => {
+    await idempotencyRepository.putRecord(record('held'), NOW);
+    await expect(idempotencyRepository.completeRecord(record('held', '0x02'))).resolves.toBe(false);
+    await expect(idempotencyRepository.getRecord('held', NOW)).resolves.toMatchObject({ orderHash: '0x01' });
+  });
+
+  it('should release pending records only', async () => {
+    await idempotencyRepository.putRecord(pending('release'), NOW);
+    await idempotencyRepository.releaseRecord('release', '0x02');
+    await expect(idempotencyRepository.getRecord('release', NOW)).resolves.toEqual(pending('release'));
+    await idempotencyRepository.releaseRecord('release', '0x01');
+    await expect(idempotencyRepository.getRecord('release', NOW)).resolves.toBeUndefined();
+
+    await idempotencyRepository.putRecord(record('completed'), NOW);
+    await idempotencyRepository.releaseRecord('completed', '0x01');
+    await expect(idempotencyRepository.getRecord('completed', NOW)).resolves.toEqual(record('completed'));
+  });
+
+  it('should return undefined for a missing record', async () => {
+    await expect(idempotencyRepository.getRecord('missing', NOW)).resolves.toBeUndefined();
+  });
+});
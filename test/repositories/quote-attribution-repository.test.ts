@@ -0,0 +1,94 @@
+import { DynamoDBClient, DynamoDBClientConfig } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+
+import { DYNAMO_TABLE_KEY, DYNAMO_TABLE_NAME, QUOTE_ATTRIBUTION_TTL_SECS } from '../../lib/constants';
+import { QuoteAttribution, QuoteAttributionSource, QuoteFill } from '../../lib/repositories';
+import { QuoteAttributionRepository } from '../../lib/repositories/quote-attribution-repository';
+
+const dynamoConfig: DynamoDBClientConfig = {
+  endpoint: 'http://localhost:8000',
+  region: 'local',
+  credentials: {
+    accessKeyId: 'fakeMyKeyId',
+    secretAccessKey: 'fakeSecretAccessKey',
+  },
+};
+
+const NOW = 1_700_000_000;
+const FILLER = '0x0000000000000000000000000000000000000001';
+
+const quote = (quoteId: string): QuoteAttribution => ({
+  quoteId,
+  requestId: 'a83f397c-8ef4-4801-a9b7-6e79155049f6',
+  source: QuoteAttributionSource.QUOTE,
+  chainId: 1,
+  swapper: '0x0000000000000000000000000000000000000000',
+  filler: FILLER,
+  fillerHash: '0xfillerhash',
+  tokenIn: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984',
+  tokenOut: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  amountIn: '1000000000000000000',
+  amountOut: '2000000000',
+  quotedAt: NOW,
+});
+
+const FILL: QuoteFill = {
+  orderHash: '0x' + 'ab'.repeat(32),
+  txHash: '0x' + 'cd'.repeat(32),
+  filler: FILLER,
+  amountOut: '2000000000',
+  filledAt: NOW + 30,
+};
+
+const documentClient = DynamoDBDocumentClient.from(new DynamoDBClient(dynamoConfig), {
+  marshallOptions: {
+    convertEmptyValues: true,
+  },
+  unmarshallOptions: {
+    wrapNumbers: true,
+  },
+});
+
+const quoteAttributionRepository = QuoteAttributionRepository.create(documentClient);
+
+describe('quote attribution repository tests', () => {
+  it('should put a quote and read it back', async () => {
+    await quoteAttributionRepository.putQuote(quote('quote'));
+    await expect(quoteAttributionRepository.getAttribution('quote')).resolves.toEqual(quote('quote'));
+  });
+
+  it('should merge a fill into the quote', async () => {
+    await quoteAttributionRepository.putQuote(quote('filled'));
+    await quoteAttributionRepository.putFill('filled', FILL);
+    await expect(quoteAttributionRepository.getAttribution('filled')).resolves.toEqual({
+      ...quote('filled'),
+      fill: FILL,
+    });
+  });
+
+  it('should keep a fill written before its quote', async () => {
+    await quoteAttributionRepository.putFill('early-fill', FILL);
+    await expect(quoteAttributionRepository.getAttribution('early-fill')).resolves.toBeUndefined();
+
+    await quoteAttributionRepository.putQuote(quote('early-fill'));
+    await expect(quoteAttributionRepository.getAttribution('early-fill')).resolves.toEqual({
+      ...quote('early-fill'),
+      fill: FILL,
+    });
+  });
+
+  it('should expire a fill written without its quote', async () => {
+    await quoteAttributionRepository.putFill('orphan-fill', FILL);
+    const { Item } = await documentClient.send(
+      new GetCommand({
+        TableName: DYNAMO_TABLE_NAME.QUOTE_ATTRIBUTION,
+        Key: { [DYNAMO_TABLE_KEY.QUOTE_ID]: 'orphan-fill' },
+      })
+    );
+    expect(Number(Item?.ttl)).toEqual(FILL.filledAt + QUOTE_ATTRIBUTION_TTL_SECS);
+  });
+
+  it('should return undefined for a missing quote', async () => {
+    await expect(quoteAttributionRepository.getAttribution('missing')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  MockWebSocketFiller,
+  RfqTransportError,
+  WebSocketConnection,
+  WebSocketConnectionPool,
+  WebSocketRfqRequest,
+} from '../../lib/transports';
+import { sleep } from '../../lib/util/time';
+
+const logger = { child: () => logger, info: jest.fn(), error: jest.fn(), debug: jest.fn() } as any;
+
+const OPTIONS = { heartbeatIntervalMs: 1000, reconnectMinDelayMs: 10, reconnectMaxDelayMs: 50 };
+
+const echo = (request: WebSocketRfqRequest) => ({
+  type: 'rfq_response' as const,
+  quoteId: request.quoteId,
+  data: request.body,
+});
+
+describe('WebSocketConnection', () => {
+  let filler: MockWebSocketFiller;
+  let connection: WebSocketConnection;
+
+  afterEach(async () => {
+    connection?.close();
+    await filler?.stop();
+    jest.clearAllMocks();
+  });
+
+  it('multiplexes requests over one connection by quoteId', async () => {
+    // answer the first request last
+    filler = await MockWebSocketFiller.start(async (request) => {
+      await sleep(request.quoteId === 'a' ? 50 : 0);
+      return echo(request);
+    });
+    connection = new WebSocketConnection(logger, 'filler', filler.endpoint, {}, OPTIONS);
+
+    const [a, b] = await Promise.all([
+      connection.request('a', { value: 1 }, 500),
+      connection.request('b', { value: 2 }, 500),
+    ]);
+
+    expect(a).toEqual({ status: 200, data: { value: 1 } });
+    expect(b).toEqual({ status: 200, data: { value: 2 } });
+    expect(filler.connectionCount).toEqual(1);
+  });
+
+  it('authenticates the handshake and forwards request headers', async () => {
+    filler = await MockWebSocketFiller.start(echo);
+    connection = new WebSocketConnection(logger, 'filler', filler.endpoint, { 'x-api-key': 'secret' }, OPTIONS);
+
+    await connection.request('a', {}, 500, { 'x-uniswapx-signature': '0xsig' });
+
+    expect(filler.handshakeHeaders[0]['x-api-key']).toEqual('secret');
+    expect(filler.requests[0]).toEqual({
+      type: 'rfq',
+      quoteId: 'a',
+      body: {},
+      headers: { 'x-uniswapx-signature': '0xsig' },
+    });
+  });
+
+  it('passes through the filler status', async () => {
+    filler = await MockWebSocketFiller.start((request) => ({ ...echo(request), status: 404 }));
+    connection = new WebSocketConnection(logger, 'filler', filler.endpoint, {}, OPTIONS);
+
+    expect((await connection.request('a', {}, 500)).status).toEqual(404);
+  });
+
+  it('times out unanswered requests', async () => {
+    filler = await MockWebSocketFiller.start(() => undefined);
+    connection = new WebSocketConnection(logger, 'filler', filler.endpoint, {}, OPTIONS);
+
+    const error = await connection.request('a', {}, 50).catch((e) => e);
+    expect(error).toBeInstanceOf(RfqTransportError);
+    expect(error.timeout).toBe(true);
+  });
+
+  it('fails in-flight requests on disconnect and reconnects', async () => {
+    filler = await MockWebSocketFiller.start(() => undefined);
+    connection = new WebSocketConnection(logger, 'filler', filler.endpoint, {}, OPTIONS);
+
+    const inFlight = connection.request('a', {}, 1000).catch((e) => e);
+    await sleep(20);
+    filler.dropConnections();
+
+    const error = await inFlight;
+    expect(error).toBeInstanceOf(RfqTransportError);
+    expect(error.timeout).toBe(false);
+
+    await sleep(100);
+    expect(connection.isOpen).toBe(true);
+    expect(filler.connectionCount).toEqual(2);
+  });
+
+  it('fails fast if the filler is unreachable', async () => {
+    filler = await MockWebSocketFiller.start(echo);
+    const endpoint = filler.endpoint;
+    await filler.stop();
+    connection = new WebSocketConnection(logger, 'filler', endpoint, {}, OPTIONS);
+
+    const error = await connection.request('a', {}, 500).catch((e) => e);
+    expect(error).toBeInstanceOf(RfqTransportError);
+    expect(error.timeout).toBe(false);
+  });
+});
+
+describe('WebSocketConnectionPool', () => {
+  const pool = new WebSocketConnectionPool(logger, OPTIONS);
+
+  afterAll(() => {
+    pool.close();
+  });
+
+  it('keeps one connection per filler and replaces it when the endpoint changes', () => {
+    const config = { name: 'filler', hash: '0xfiller', endpoint: 'ws://127.0.0.1:1' };
+    const connection = pool.get(config);
+
+    expect(pool.get(config)).toBe(connection);
+    expect(pool.get({ ...config, endpoint: 'ws://127.0.0.1:2' })).not.toBe(connection);
+  });
+});
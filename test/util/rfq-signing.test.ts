@@ -0,0 +1,87 @@
+import { ethers } from 'ethers';
+
+import {
+  RfqRequestSigner,
+  RfqSignatureVerifier,
+  RfqSigningScheme,
+  RFQ_NONCE_HEADER,
+  RFQ_SIGNATURE_HEADER,
+  RFQ_TIMESTAMP_HEADER,
+} from '../../lib/util/rfq-signing';
+
+const SECRET = 'filler-shared-secret';
+const wallet = ethers.Wallet.createRandom();
+const BODY = JSON.stringify({ requestId: 'a83f397c-8ef4-4801-a9b7-6e79155049f6', amount: '1' });
+
+describe('rfq signing', () => {
+  const signer = new RfqRequestSigner({ FILLER_SECRET: SECRET, SERVICE_KEY: wallet.privateKey });
+  const hmacConfig = { scheme: RfqSigningScheme.HMAC, secretRef: 'FILLER_SECRET' };
+
+  it('signs and verifies hmac requests', async () => {
+    const headers = await signer.sign(hmacConfig, BODY);
+    const verifier = new RfqSignatureVerifier({ scheme: RfqSigningScheme.HMAC, secret: SECRET });
+    expect(verifier.verify(BODY, headers)).toEqual({ valid: true });
+  });
+
+  it('signs and verifies eip191 requests', async () => {
+    const headers = await signer.sign({ scheme: RfqSigningScheme.EIP191, secretRef: 'SERVICE_KEY' }, BODY);
+    const verifier = new RfqSignatureVerifier({ scheme: RfqSigningScheme.EIP191, address: wallet.address });
+    expect(verifier.verify(BODY, headers)).toEqual({ valid: true });
+  });
+
+  it('matches header names case-insensitively', async () => {
+    const headers = await signer.sign(hmacConfig, BODY);
+    const upperCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toUpperCase(), value]));
+    const verifier = new RfqSignatureVerifier({ scheme: RfqSigningScheme.HMAC, secret: SECRET });
+    expect(verifier.verify(BODY, upperCased)).toEqual({ valid: true });
+  });
+
+  it('rejects a tampered body', async () => {
+    const headers = await signer.sign(hmacConfig, BODY);
+    const verifier = new RfqSignatureVerifier({ scheme: RfqSigningScheme.HMAC, secret: SECRET });
+    expect(verifier.verify(BODY.replace('"1"', '"2"'), headers)).toEqual({
+      valid: false,
+      reason: 'signature mismatch',
+    });
+  });
+
+  it('rejects the wrong signer', async () => {
+    const headers = await signer.sign({ scheme: RfqSigningScheme.EIP191, secretRef: 'SERVICE_KEY' }, BODY);
+    const verifier = new RfqSignatureVerifier({
+      scheme: RfqSigningScheme.EIP191,
+      address: ethers.Wallet.createRandom().address,
+    });
+    expect(verifier.verify(BODY, headers)).toEqual({ valid: false, reason: 'signature mismatch' });
+  });
+
+  it('rejects stale timestamps', async () => {
+    const now = Date.now();
+    const headers = await signer.sign(hmacConfig, BODY, now - 60_000);
+    const verifier = new RfqSignatureVerifier({ scheme: RfqSigningScheme.HMAC, secret: SECRET }, 30_000);
+    expect(verifier.verify(BODY, headers, now)).toEqual({ valid: false, reason: 'stale timestamp' });
+  });
+
+  it('rejects replayed nonces', async () => {
+    const headers = await signer.sign(hmacConfig, BODY);
+    const verifier = new RfqSignatureVerifier({ scheme: RfqSigningScheme.HMAC, secret: SECRET });
+    expect(verifier.verify(BODY, headers)).toEqual({ valid: true });
+    expect(verifier.verify(BODY, headers)).toEqual({ valid: false, reason: 'replayed nonce' });
+  });
+
+  it('rejects requests without signature headers', async () => {
+    const headers = await signer.sign(hmacConfig, BODY);
+    const verifier = new RfqSignatureVerifier({ scheme: RfqSigningScheme.HMAC, secret: SECRET });
+    for (const missing of [RFQ_SIGNATURE_HEADER, RFQ_TIMESTAMP_HEADER, RFQ_NONCE_HEADER]) {
+      expect(verifier.verify(BODY, { ...headers, [missing]: undefined })).toEqual({
+        valid: false,
+        reason: 'missing signature headers',
+      });
+    }
+  });
+
+  it('throws if the referenced secret is not defined', async () => {
+    await expect(signer.sign({ scheme: RfqSigningScheme.HMAC, secretRef: 'MISSING' }, BODY)).rejects.toThrow(
+      'Signing secret MISSING is not defined'
+    );
+  });
+});
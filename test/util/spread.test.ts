@@ -0,0 +1,68 @@
+import { TradeType } from '@uniswap/sdk-core';
+import { ethers } from 'ethers';
+
+import { QuoteResponse } from '../../lib/entities';
+import { getQuoteSpread } from '../../lib/util/spread';
+
+const REQUEST_ID = 'a83f397c-8ef4-4801-a9b7-6e79155049f6';
+const SWAPPER = '0x0000000000000000000000000000000000000000';
+const TOKEN_IN = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const TOKEN_OUT = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+const getQuote = (type: TradeType, amountIn: string, amountOut: string) =>
+  new QuoteResponse(
+    {
+      chainId: 1,
+      requestId: REQUEST_ID,
+      quoteId: REQUEST_ID,
+      swapper: SWAPPER,
+      tokenIn: TOKEN_IN,
+      tokenOut: TOKEN_OUT,
+      amountIn: ethers.utils.parseEther(amountIn),
+      amountOut: ethers.utils.parseEther(amountOut),
+    },
+    type
+  );
+
+describe('getQuoteSpread', () => {
+  it('uses the quote as bid and the opposing quote as ask for EXACT_INPUT', () => {
+    // sell 1 tokenIn for 99 tokenOut, buy 1 tokenIn for 101 tokenOut
+    const spread = getQuoteSpread(
+      TradeType.EXACT_INPUT,
+      getQuote(TradeType.EXACT_INPUT, '1', '99'),
+      getQuote(TradeType.EXACT_OUTPUT, '101', '1')
+    );
+    expect(spread?.spreadBps).toEqual(200);
+    expect(spread?.midAmount).toEqual(ethers.utils.parseEther('100'));
+  });
+
+  it('uses the quote as ask and the opposing quote as bid for EXACT_OUTPUT', () => {
+    // pay 101 tokenIn for 1 tokenOut, sell 1 tokenOut for 99 tokenIn
+    const spread = getQuoteSpread(
+      TradeType.EXACT_OUTPUT,
+      getQuote(TradeType.EXACT_OUTPUT, '101', '1'),
+      getQuote(TradeType.EXACT_INPUT, '1', '99')
+    );
+    expect(spread?.spreadBps).toEqual(200);
+    expect(spread?.midAmount).toEqual(ethers.utils.parseEther('100'));
+  });
+
+  it('is negative when the sides cross', () => {
+    const spread = getQuoteSpread(
+      TradeType.EXACT_INPUT,
+      getQuote(TradeType.EXACT_INPUT, '1', '101'),
+      getQuote(TradeType.EXACT_OUTPUT, '99', '1')
+    );
+    expect(spread?.spreadBps).toEqual(-200);
+  });
+
+  it('is undefined without a mid price', () => {
+    expect(
+      getQuoteSpread(
+        TradeType.EXACT_INPUT,
+        getQuote(TradeType.EXACT_INPUT, '1', '0'),
+        getQuote(TradeType.EXACT_OUTPUT, '0', '1')
+      )
+    ).toBeUndefined();
+  });
+});